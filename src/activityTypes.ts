@@ -0,0 +1,89 @@
+import { ToolInputError } from './errors.js';
+
+interface ActivityAttribute {
+  name: string;
+  dataType: string;
+}
+
+interface ActivityType {
+  id: number;
+  name: string;
+  description?: string;
+  primaryAttribute?: ActivityAttribute;
+  attributes: ActivityAttribute[];
+}
+
+/**
+ * Extracts the activity type catalog from a types.json response
+ */
+function buildActivityTypeCatalog(response: any): ActivityType[] {
+  const types: any[] = response?.result ?? [];
+  return types.map((type) => ({
+    id: type.id,
+    name: type.name,
+    description: type.description,
+    primaryAttribute: type.primaryAttribute,
+    attributes: type.attributes ?? [],
+  }));
+}
+
+/**
+ * Resolves a mix of activity type IDs and names to IDs, matching names case-insensitively
+ */
+function resolveActivityTypeIds(values: (number | string)[], catalog: ActivityType[]): number[] {
+  return values.map((value) => {
+    if (typeof value === 'number' || /^\d+$/.test(value.trim())) {
+      return Number(value);
+    }
+
+    const name = value.trim().toLowerCase();
+    const match = catalog.find((type) => type.name.toLowerCase() === name);
+    if (!match) {
+      const similar = catalog
+        .filter((type) => type.name.toLowerCase().includes(name))
+        .slice(0, 5)
+        .map((type) => `"${type.name}" (${type.id})`);
+      throw new ToolInputError(
+        `Unknown activity type "${value}".` +
+          (similar.length > 0 ? ` Similar types: ${similar.join(', ')}.` : '') +
+          ' Use marketo_get_activity_types to list valid types.'
+      );
+    }
+    return match.id;
+  });
+}
+
+/**
+ * Adds the activity type name and labelled attributes to each activity
+ */
+function enrichActivities(activities: any[], catalog: ActivityType[]): any[] {
+  const byId = new Map(catalog.map((type) => [type.id, type]));
+
+  return activities.map((activity) => {
+    const type = byId.get(activity.activityTypeId);
+    if (!type) {
+      return activity;
+    }
+
+    const attributeTypes = new Map(type.attributes.map((attr) => [attr.name, attr.dataType]));
+    return {
+      ...activity,
+      activityTypeName: type.name,
+      primaryAttribute: type.primaryAttribute
+        ? {
+            name: type.primaryAttribute.name,
+            dataType: type.primaryAttribute.dataType,
+            id: activity.primaryAttributeValueId,
+            value: activity.primaryAttributeValue,
+          }
+        : undefined,
+      attributes: (activity.attributes ?? []).map((attr: any) => ({
+        ...attr,
+        dataType: attributeTypes.get(attr.name),
+      })),
+    };
+  });
+}
+
+export { buildActivityTypeCatalog, resolveActivityTypeIds, enrichActivities };
+export type { ActivityType, ActivityAttribute };
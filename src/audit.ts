@@ -0,0 +1,227 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+
+// A write request made to Marketo while a tool ran
+interface AuditRequest {
+  method: string;
+  endpoint: string;
+  requestId?: string;
+  success: boolean;
+  errorCode?: string;
+}
+
+interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  instance: string;
+  arguments: unknown;
+  requests: AuditRequest[];
+  success: boolean;
+  error?: string;
+  recordIds: string[];
+}
+
+interface AuditQuery {
+  tool?: string;
+  instance?: string;
+  since?: string;
+  until?: string;
+  recordId?: string;
+  success?: boolean;
+  limit: number;
+}
+
+// Argument names that hold credentials, which are never written to the log, compared ignoring
+// case. Names are matched exactly, so arguments such as a campaign's My Token values are kept.
+const SECRET_KEYS = new Set(
+  [
+    'access_token',
+    'accessToken',
+    'client_secret',
+    'clientSecret',
+    'confirmationToken',
+    'password',
+    'apiKey',
+    'api_key',
+    'authorization',
+    'credentials',
+  ].map((name) => name.toLowerCase())
+);
+
+// Longest string argument kept in full
+const MAX_LOGGED_STRING_LENGTH = 1000;
+
+/**
+ * Copies tool arguments with credential-like values redacted and long strings shortened
+ */
+function sanitizeArguments(value: unknown, key: string = ''): unknown {
+  if (key && SECRET_KEYS.has(key.toLowerCase())) {
+    return '[redacted]';
+  }
+  if (typeof value === 'string') {
+    return value.length > MAX_LOGGED_STRING_LENGTH
+      ? `${value.slice(0, MAX_LOGGED_STRING_LENGTH)}... (${value.length} characters)`
+      : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitizeArguments(item));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([name, item]) => [name, sanitizeArguments(item, name)])
+    );
+  }
+  return value;
+}
+
+// Arguments naming the leads, lists, assets, programs, campaigns and bulk jobs a call acts on;
+// IDs that only qualify the call, such as folder and activity type IDs, aren't counted
+const RECORD_ID_ARGUMENTS = new Set([
+  'leadId',
+  'leadIds',
+  'winnerId',
+  'listId',
+  'staticListId',
+  'smartListId',
+  'formId',
+  'emailId',
+  'channelId',
+  'programId',
+  'campaignId',
+  'batchId',
+  'exportId',
+]);
+
+/**
+ * Collects the IDs of records a call touched, from ID arguments and the records Marketo returned
+ */
+function collectRecordIds(args: Record<string, unknown>, responses: any[]): string[] {
+  const ids = new Set<string>();
+
+  for (const [name, value] of Object.entries(args)) {
+    if (RECORD_ID_ARGUMENTS.has(name)) {
+      (Array.isArray(value) ? value : [value])
+        .filter((id) => typeof id === 'number' || typeof id === 'string')
+        .forEach((id) => ids.add(String(id)));
+    }
+  }
+  for (const response of responses) {
+    for (const record of Array.isArray(response?.result) ? response.result : []) {
+      const id = record?.id ?? record?.marketoGUID ?? record?.batchId ?? record?.exportId;
+      if (id !== undefined && id !== null) {
+        ids.add(String(id));
+      }
+    }
+  }
+
+  return [...ids];
+}
+
+function matchesQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  return (
+    (!query.tool || entry.tool === query.tool) &&
+    (!query.instance || entry.instance === query.instance) &&
+    (!query.since || Date.parse(entry.timestamp) >= Date.parse(query.since)) &&
+    (!query.until || Date.parse(entry.timestamp) <= Date.parse(query.until)) &&
+    (!query.recordId || entry.recordIds.includes(query.recordId)) &&
+    (query.success === undefined || entry.success === query.success)
+  );
+}
+
+/**
+ * Append-only JSONL log of write calls, rotated to numbered files once it reaches maxBytes
+ */
+class AuditLog {
+  // Appends run one after another so rotation never races a write
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private filePath: string,
+    private maxBytes: number,
+    private maxFiles: number
+  ) {}
+
+  append(entry: AuditEntry): Promise<void> {
+    const line = JSON.stringify(entry) + '\n';
+    this.queue = this.queue
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await this.rotateIfNeeded(Buffer.byteLength(line));
+        await fs.promises.appendFile(this.filePath, line, { mode: 0o600 });
+      })
+      .catch((error) => {
+        // Losing an entry must not fail the Marketo call it describes
+        console.error(`Failed to write audit log entry: ${error.message}`);
+      });
+    return this.queue;
+  }
+
+  /**
+   * Returns the newest matching entries first, reading rotated files until the limit is reached
+   */
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    await this.queue;
+    const matches: AuditEntry[] = [];
+
+    for (let index = 0; index <= this.maxFiles && matches.length < query.limit; index++) {
+      const entries = await this.readFile(this.rotatedPath(index));
+      for (let i = entries.length - 1; i >= 0 && matches.length < query.limit; i--) {
+        if (matchesQuery(entries[i], query)) {
+          matches.push(entries[i]);
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  private rotatedPath(index: number): string {
+    return index === 0 ? this.filePath : `${this.filePath}.${index}`;
+  }
+
+  private async rotateIfNeeded(incomingBytes: number) {
+    const size = await fs.promises
+      .stat(this.filePath)
+      .then((stats) => stats.size)
+      .catch(() => 0);
+    if (size === 0 || size + incomingBytes <= this.maxBytes) {
+      return;
+    }
+
+    // Shift audit.jsonl.1 to .2 and so on, dropping the oldest file past maxFiles
+    await fs.promises.rm(this.rotatedPath(this.maxFiles), { force: true });
+    for (let index = this.maxFiles - 1; index >= 0; index--) {
+      await fs.promises
+        .rename(this.rotatedPath(index), this.rotatedPath(index + 1))
+        .catch((error) => {
+          if (error.code !== 'ENOENT') {
+            throw error;
+          }
+        });
+    }
+  }
+
+  private async readFile(filePath: string): Promise<AuditEntry[]> {
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+
+    const entries: AuditEntry[] = [];
+    const lines = readline.createInterface({ input: fs.createReadStream(filePath) });
+    for await (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A partially written last line is skipped rather than failing the query
+      }
+    }
+    return entries;
+  }
+}
+
+export { AuditLog, sanitizeArguments, collectRecordIds };
+export type { AuditEntry, AuditQuery, AuditRequest };
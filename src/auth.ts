@@ -1,5 +1,9 @@
 import axios from 'axios';
-import { MARKETO_BASE_URL } from './constants.js';
+import fs from 'fs';
+import path from 'path';
+import { API_REQUEST_TIMEOUT } from './constants.js';
+import { simulatorAdapter } from './simulator.js';
+import { StoredToken, TokenStore } from './tokenStore.js';
 
 interface TokenResponse {
   access_token: string;
@@ -8,47 +12,222 @@ interface TokenResponse {
   scope: string;
 }
 
+interface Credentials {
+  clientId: string;
+  clientSecret: string;
+}
+
+interface TokenManagerOptions {
+  // Instance name, for log messages
+  name: string;
+  identityUrl: string;
+  clientId: string;
+  clientSecret: string;
+  // JSON file or secret mount directory whose credentials replace clientId and clientSecret
+  credentialsFile?: string;
+  // Fetch a new token in the background this long before the current one expires; 0 disables it
+  refreshAheadMs: number;
+  store?: TokenStore;
+}
+
+// A token is used until this long before it expires, leaving time for the request it is sent with
+const TOKEN_EXPIRY_SKEW_MS = 5000;
+
+/**
+ * Reads credentials from a JSON file with clientId and clientSecret, or from a secret mount
+ * directory with client_id and client_secret files
+ */
+function readCredentialsFile(filePath: string): Credentials {
+  if (fs.statSync(filePath).isDirectory()) {
+    const read = (name: string) => fs.readFileSync(path.join(filePath, name), 'utf-8').trim();
+    return { clientId: read('client_id'), clientSecret: read('client_secret') };
+  }
+
+  const credentials = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (
+    typeof credentials?.clientId !== 'string' ||
+    typeof credentials?.clientSecret !== 'string' ||
+    !credentials.clientId ||
+    !credentials.clientSecret
+  ) {
+    throw new Error(`${filePath} must hold clientId and clientSecret strings`);
+  }
+  return { clientId: credentials.clientId, clientSecret: credentials.clientSecret };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Access token for one instance. Concurrent callers share a single refresh, a new token is
+ * fetched in the background before the current one expires, and with a token store, processes
+ * using the same API user share their token.
+ */
 class TokenManager {
-  private clientId: string;
-  private clientSecret: string;
+  private options: TokenManagerOptions;
+  private credentials: Credentials;
   private accessToken: string | null = null;
   private tokenExpiry: number = 0;
+  // The refresh callers are waiting on, so only one identity request is made at a time
+  private refreshing: Promise<string> | null = null;
+  private refreshTimer?: NodeJS.Timeout;
+  // The last token Marketo rejected, never taken from the store again
+  private rejectedToken: string | null = null;
 
-  constructor(clientId: string, clientSecret: string) {
-    this.clientId = clientId;
-    this.clientSecret = clientSecret;
+  constructor(options: TokenManagerOptions) {
+    this.options = options;
+    this.credentials = options.credentialsFile
+      ? readCredentialsFile(options.credentialsFile)
+      : { clientId: options.clientId, clientSecret: options.clientSecret };
   }
 
   async getToken(): Promise<string> {
-    // Check if we have a valid token
-    if (this.accessToken && Date.now() < this.tokenExpiry) {
+    if (this.accessToken && Date.now() < this.tokenExpiry - TOKEN_EXPIRY_SKEW_MS) {
       return this.accessToken;
     }
+    return this.startRefresh();
+  }
+
+  /**
+   * Drops the cached token so the next call to getToken fetches a new one. A token Marketo
+   * rejected is also removed from the token store, so other processes stop using it.
+   */
+  invalidate(): void {
+    const rejected = this.accessToken;
+    this.accessToken = null;
+    this.tokenExpiry = 0;
+    clearTimeout(this.refreshTimer);
+
+    if (rejected && this.options.store) {
+      this.rejectedToken = rejected;
+      this.options.store.remove(this.storeId(), rejected).catch((error: any) => {
+        console.error(`Failed to remove stored token for ${this.options.name}: ${error.message}`);
+      });
+    }
+  }
 
+  /**
+   * Re-reads the credentials file, dropping the token when the API user changed. A failed
+   * read keeps the current credentials, as when a secret mount is being rotated.
+   */
+  reloadCredentials(): void {
+    if (!this.options.credentialsFile) {
+      return;
+    }
     try {
-      // Extract the identity URL from the base URL
-      // Convert from https://instance.mktorest.com/rest to https://instance.mktorest.com/identity
-      const identityUrl = MARKETO_BASE_URL.replace('/rest', '/identity');
+      const credentials = readCredentialsFile(this.options.credentialsFile);
+      if (credentials.clientId !== this.credentials.clientId) {
+        this.invalidate();
+      }
+      this.credentials = credentials;
+    } catch (error: any) {
+      console.error(
+        `Failed to reload Marketo credentials for ${this.options.name}, keeping the current ones: ${error.message}`
+      );
+    }
+  }
 
-      const response = await axios.get(`${identityUrl}/oauth/token`, {
+  private startRefresh(): Promise<string> {
+    this.refreshing ??= this.refresh().finally(() => {
+      this.refreshing = null;
+    });
+    return this.refreshing;
+  }
+
+  private async refresh(): Promise<string> {
+    const stored = await this.readStoredToken();
+    // Another process may have fetched a newer token already
+    if (stored && stored.accessToken !== this.accessToken) {
+      this.setToken(stored);
+      return stored.accessToken;
+    }
+
+    let token = await this.requestToken();
+    // Marketo hands back the current token until it expires; one about to expire is waited out
+    if (token.expiresAt - Date.now() <= TOKEN_EXPIRY_SKEW_MS) {
+      await sleep(Math.max(0, token.expiresAt - Date.now()) + 1000);
+      token = await this.requestToken();
+    }
+
+    this.rejectedToken = null;
+    this.setToken(token);
+    await this.options.store?.write(this.storeId(), token).catch((error: any) => {
+      console.error(`Failed to store token for ${this.options.name}: ${error.message}`);
+    });
+    return token.accessToken;
+  }
+
+  private async requestToken(): Promise<StoredToken> {
+    this.reloadCredentials();
+    try {
+      const response = await axios.get(`${this.options.identityUrl}/oauth/token`, {
         params: {
           grant_type: 'client_credentials',
-          client_id: this.clientId,
-          client_secret: this.clientSecret,
+          client_id: this.credentials.clientId,
+          client_secret: this.credentials.clientSecret,
         },
+        // Callers waiting on a shared refresh would otherwise wait forever on a hung request
+        timeout: API_REQUEST_TIMEOUT,
+        adapter: simulatorAdapter,
       });
 
       const data = response.data as TokenResponse;
-      this.accessToken = data.access_token;
-      // Set expiry to slightly before the actual expiry to ensure we don't use an expired token
-      this.tokenExpiry = Date.now() + (data.expires_in - 60) * 1000;
-
-      return this.accessToken;
+      return { accessToken: data.access_token, expiresAt: Date.now() + data.expires_in * 1000 };
     } catch (error: any) {
       console.error('Failed to get Marketo access token:', error.response?.data || error.message);
       throw new Error('Failed to authenticate with Marketo');
     }
   }
+
+  private async readStoredToken(): Promise<StoredToken | undefined> {
+    try {
+      const stored = await this.options.store?.read(this.storeId());
+      return stored &&
+        stored.accessToken !== this.rejectedToken &&
+        Date.now() < stored.expiresAt - TOKEN_EXPIRY_SKEW_MS
+        ? stored
+        : undefined;
+    } catch (error: any) {
+      console.error(`Failed to read stored token for ${this.options.name}: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  private setToken(token: StoredToken) {
+    const renewed = token.accessToken !== this.accessToken;
+    this.accessToken = token.accessToken;
+    this.tokenExpiry = token.expiresAt;
+    this.scheduleRefresh(renewed);
+  }
+
+  // Refreshes ahead of expiry; when that returned the same token, Marketo only issues a new one
+  // once it has expired, so the next attempt waits until then
+  private scheduleRefresh(renewed: boolean) {
+    clearTimeout(this.refreshTimer);
+    if (this.options.refreshAheadMs === 0) {
+      return;
+    }
+    const refreshAt = renewed
+      ? this.tokenExpiry - this.options.refreshAheadMs
+      : this.tokenExpiry + 1000;
+    this.refreshTimer = setTimeout(
+      () => {
+        this.startRefresh().catch(() => {
+          // Already logged; the next getToken call tries again
+        });
+      },
+      Math.max(1000, refreshAt - Date.now())
+    );
+    // A pending refresh doesn't keep the process alive
+    this.refreshTimer.unref();
+  }
+
+  // Stored tokens belong to an API user on an instance
+  private storeId(): string {
+    return `${this.options.identityUrl}|${this.credentials.clientId}`;
+  }
 }
 
 export { TokenManager };
+export type { TokenManagerOptions };
@@ -0,0 +1,211 @@
+import path from 'path';
+import {
+  BULK_EXPORT_DAILY_QUOTA_BYTES,
+  BULK_EXPORT_MAX_PROCESSING_JOBS,
+  BULK_EXPORT_MAX_QUEUED_JOBS,
+} from './constants.js';
+import { parseCsv, toCsv } from './csv.js';
+import { ToolInputError } from './errors.js';
+
+export const BULK_EXPORT_TYPES = ['leads', 'activities'] as const;
+export type BulkExportType = (typeof BULK_EXPORT_TYPES)[number];
+
+// Job states after which a bulk job will not change any more
+export const FINISHED_JOB_STATUSES = new Set(['Completed', 'Failed', 'Cancelled']);
+export const FINISHED_IMPORT_STATUSES = new Set(['Complete', 'Failed']);
+
+// How long the export and import tools wait for their job by default; MCP clients commonly give
+// up on a call after about a minute, so a longer job is handed back for checking later
+export const BULK_JOB_DEFAULT_WAIT_SECONDS = 30;
+
+// Largest file the bulk import endpoint accepts
+export const BULK_IMPORT_MAX_BYTES = 10 * 1024 * 1024;
+
+interface BulkExportJob {
+  exportId: string;
+  status: string;
+  format?: string;
+  createdAt?: string;
+  queuedAt?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  numberOfRecords?: number;
+  fileSize?: number;
+  errorMsg?: string;
+}
+
+interface BulkImportBatch {
+  batchId: number;
+  importId?: string;
+  status: string;
+  numOfLeadsProcessed?: number;
+  numOfRowsFailed?: number;
+  numOfRowsWithWarning?: number;
+  message?: string;
+}
+
+interface ImportReportRow {
+  reason: string;
+  record: Record<string, string>;
+}
+
+interface BulkExportQuota {
+  dailyQuotaBytes: number;
+  usedBytesToday: number;
+  remainingBytesToday: number;
+  processingJobs: number;
+  maxProcessingJobs: number;
+  queuedJobs: number;
+  maxQueuedJobs: number;
+}
+
+/**
+ * Resolves an export file path inside the export directory, rejecting paths that escape it
+ */
+function resolveExportPath(exportDir: string, requested: string | undefined, fallback: string) {
+  const resolved = path.resolve(exportDir, requested || fallback);
+  const relative = path.relative(exportDir, resolved);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new ToolInputError(`Export files must be written inside ${exportDir}`);
+  }
+  return resolved;
+}
+
+/**
+ * Resolves a file path to read inside the import directory. Relative paths are taken from the
+ * import directory; paths with .. segments or outside the directory are rejected.
+ */
+function resolveImportPath(importDir: string, requested: string) {
+  const resolved = path.resolve(importDir, requested);
+  const relative = path.relative(importDir, resolved);
+  if (
+    requested.split(/[\\/]/).includes('..') ||
+    relative === '' ||
+    relative.startsWith('..') ||
+    path.isAbsolute(relative)
+  ) {
+    throw new ToolInputError(`Import files must be inside ${importDir}`);
+  }
+  return resolved;
+}
+
+// Marketo resets the export quota at midnight US Central time
+function centralDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { timeZone: 'America/Chicago' });
+}
+
+/**
+ * Works out quota usage and job slots from the export jobs of every type
+ */
+function summarizeBulkExportQuota(jobs: BulkExportJob[], now: Date = new Date()): BulkExportQuota {
+  const today = centralDate(now);
+  const usedBytesToday = jobs
+    .filter((job) => job.status === 'Completed' && job.finishedAt)
+    .filter((job) => centralDate(new Date(job.finishedAt as string)) === today)
+    .reduce((total, job) => total + (job.fileSize ?? 0), 0);
+
+  return {
+    dailyQuotaBytes: BULK_EXPORT_DAILY_QUOTA_BYTES,
+    usedBytesToday,
+    remainingBytesToday: Math.max(0, BULK_EXPORT_DAILY_QUOTA_BYTES - usedBytesToday),
+    processingJobs: jobs.filter((job) => job.status === 'Processing').length,
+    maxProcessingJobs: BULK_EXPORT_MAX_PROCESSING_JOBS,
+    queuedJobs: jobs.filter((job) => job.status === 'Queued').length,
+    maxQueuedJobs: BULK_EXPORT_MAX_QUEUED_JOBS,
+  };
+}
+
+/**
+ * Polls a bulk job until it reaches a finished status or the timeout runs out
+ */
+async function waitForJob<T extends { status: string }>(
+  getJob: () => Promise<T>,
+  finishedStatuses: Set<string>,
+  timeoutSeconds: number,
+  pollIntervalSeconds: number
+): Promise<T> {
+  const deadline = Date.now() + timeoutSeconds * 1000;
+
+  for (;;) {
+    const job = await getJob();
+    if (finishedStatuses.has(job.status) || Date.now() >= deadline) {
+      return job;
+    }
+    await new Promise((resolve) =>
+      setTimeout(resolve, Math.min(pollIntervalSeconds * 1000, deadline - Date.now()))
+    );
+  }
+}
+
+/**
+ * Converts an import source file to CSV, renaming columns to Marketo REST field names
+ */
+function prepareImportCsv(
+  text: string,
+  format: 'csv' | 'json',
+  columnMapping: Record<string, string> = {}
+): { csv: string; columns: string[]; rowCount: number } {
+  let rows: unknown[][];
+
+  if (format === 'json') {
+    const records = JSON.parse(text);
+    if (!Array.isArray(records) || records.some((r) => !r || typeof r !== 'object')) {
+      throw new ToolInputError('JSON import files must contain an array of objects');
+    }
+    // Columns are the union of keys, in the order they first appear
+    const keys = [...new Set(records.flatMap((record) => Object.keys(record)))];
+    rows = [keys, ...records.map((record) => keys.map((key) => record[key]))];
+  } else {
+    rows = parseCsv(text);
+  }
+
+  if (rows.length < 2) {
+    throw new ToolInputError('Import file has no data rows');
+  }
+
+  const columns = (rows[0] as string[]).map((column) => columnMapping[column.trim()] ?? column);
+  const unmapped = Object.keys(columnMapping).filter(
+    (source) => !(rows[0] as string[]).some((column) => column.trim() === source)
+  );
+  if (unmapped.length > 0) {
+    throw new ToolInputError(
+      `Column mapping refers to columns not in the file: ${unmapped.join(', ')}`
+    );
+  }
+
+  return {
+    csv: toCsv([columns, ...rows.slice(1)]),
+    columns,
+    rowCount: rows.length - 1,
+  };
+}
+
+/**
+ * Turns a failures or warnings file into one entry per row, pairing the reason with the record
+ */
+function parseImportReport(text: string, reasonColumn: string): ImportReportRow[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+
+  const reasonIndex = header.indexOf(reasonColumn);
+  return rows.map((row) => ({
+    reason: row[reasonIndex] ?? '',
+    record: Object.fromEntries(
+      header
+        .map((column, i) => [column, row[i] ?? ''])
+        .filter(([column], i) => i !== reasonIndex && column !== '')
+    ),
+  }));
+}
+
+export {
+  resolveExportPath,
+  resolveImportPath,
+  summarizeBulkExportQuota,
+  waitForJob,
+  prepareImportCsv,
+  parseImportReport,
+};
+export type { BulkExportJob, BulkExportQuota, BulkImportBatch, ImportReportRow };
@@ -0,0 +1,227 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// How long each kind of GET response is reused; reads of anything else always go to Marketo
+type CacheCategory = 'metadata' | 'assets' | 'leads';
+
+interface CacheOptions {
+  enabled: boolean;
+  // Field descriptions, custom object types and activity types, which rarely change
+  metadataTtlMs: number;
+  // Forms, emails, programs, folders, lists and other assets
+  assetTtlMs: number;
+  // Leads, list members and custom object records, which change often
+  leadTtlMs: number;
+  // Most responses kept per instance; the oldest are dropped first
+  maxEntries: number;
+}
+
+interface CacheEntry {
+  response: any;
+  category: CacheCategory;
+  expiresAt: number;
+}
+
+interface CacheStats {
+  enabled: boolean;
+  entries: number;
+  hits: number;
+  misses: number;
+  // Reads made with noCache, which skip the cache but refresh it
+  bypassed: number;
+  // Entries dropped because a write may have changed them
+  invalidated: number;
+  evictions: number;
+  // Each hit is a call Marketo didn't have to answer
+  apiCallsSaved: number;
+  hitRate: number;
+  categories: Record<
+    CacheCategory,
+    { ttlMs: number; entries: number; hits: number; misses: number }
+  >;
+}
+
+// Endpoints whose GET responses are cached, checked in order; the first match decides
+const CACHE_RULES: { pattern: RegExp; category: CacheCategory }[] = [
+  { pattern: /^\/rest\/v1\/leads\/describe2?\.json/, category: 'metadata' },
+  { pattern: /^\/rest\/v1\/activities\/types\.json/, category: 'metadata' },
+  { pattern: /^\/rest\/v1\/customobjects(\.json|\/[^/]+\/describe\.json)/, category: 'metadata' },
+  { pattern: /^\/rest\/v1\/lead\//, category: 'leads' },
+  { pattern: /^\/rest\/v1\/leads(\.json|\/\d+\/listMembership\.json)/, category: 'leads' },
+  { pattern: /^\/rest\/v1\/lists\/\d+\/leads/, category: 'leads' },
+  { pattern: /^\/rest\/v1\/customobjects\/[^/]+\.json/, category: 'leads' },
+  { pattern: /^\/rest\/v1\/lists(\.json|\/\d+\.json)/, category: 'assets' },
+  { pattern: /^\/rest\/v1\/campaigns\/\d+\.json/, category: 'assets' },
+  { pattern: /^\/asset\/v1\//, category: 'assets' },
+];
+
+// Cached reads a write may change, by the write's endpoint; the first matching write decides,
+// and a write matching none clears the instance's whole cache
+const LEAD_READS = [
+  /^\/rest\/v1\/lead\//,
+  /^\/rest\/v1\/leads(\.json|\/\d+\/listMembership\.json)/,
+  /^\/rest\/v1\/lists\/\d+\/leads/,
+];
+const LIST_READS = [
+  /^\/rest\/v1\/lists/,
+  /^\/asset\/v1\/staticLists?[./]/,
+  /^\/rest\/v1\/leads\/\d+\/listMembership\.json/,
+];
+const INVALIDATION_RULES: { write: RegExp; reads: RegExp[] }[] = [
+  { write: /^\/asset\/v1\/forms?[./]/, reads: [/^\/asset\/v1\/forms?[./]/] },
+  { write: /^\/asset\/v1\/channels?[./]/, reads: [/^\/asset\/v1\/channels?[./]/] },
+  { write: /^\/asset\/v1\/emails?[./]/, reads: [/^\/asset\/v1\/emails?[./]/] },
+  { write: /^\/asset\/v1\/folders?[./]/, reads: [/^\/asset\/v1\/folders?[./]/] },
+  // Cloning a program also creates its program folder
+  {
+    write: /^\/asset\/v1\/programs?[./]/,
+    reads: [/^\/asset\/v1\/programs?[./]/, /^\/asset\/v1\/folders?[./]/],
+  },
+  { write: /^\/asset\/v1\/staticLists?[./]/, reads: LIST_READS },
+  { write: /^\/rest\/v1\/lists\//, reads: LIST_READS },
+  // Triggering or scheduling a campaign and managing export jobs change nothing that is cached
+  { write: /^\/rest\/v1\/campaigns\//, reads: [] },
+  { write: /^\/bulk\/v1\/(leads|activities)\/export\//, reads: [] },
+  { write: /^\/(rest|bulk)\/v1\/leads[./]/, reads: [...LEAD_READS, ...LIST_READS] },
+  {
+    write: /^\/rest\/v1\/customobjects\/[^/]+(\.json|\/delete\.json)/,
+    reads: [/^\/rest\/v1\/customobjects\/[^/]+\.json/],
+  },
+];
+
+// Set while a tool called with noCache runs, so its reads go to Marketo
+const cacheBypass = new AsyncLocalStorage<boolean>();
+
+/**
+ * Runs a function with every read it makes skipping the response cache
+ */
+function withoutCache<T>(run: () => Promise<T>): Promise<T> {
+  return cacheBypass.run(true, run);
+}
+
+function pathOf(endpoint: string): string {
+  return endpoint.split('?')[0];
+}
+
+/**
+ * Per-instance cache of GET responses, each kept for its endpoint's TTL and dropped when a
+ * write may have changed it. Callers get copies, so changing a response never changes the cache.
+ */
+class ResponseCache {
+  private options: CacheOptions;
+  private entries = new Map<string, CacheEntry>();
+  private counts = { hits: 0, misses: 0, bypassed: 0, invalidated: 0, evictions: 0 };
+  private categoryCounts: Record<CacheCategory, { hits: number; misses: number }> = {
+    metadata: { hits: 0, misses: 0 },
+    assets: { hits: 0, misses: 0 },
+    leads: { hits: 0, misses: 0 },
+  };
+
+  constructor(options: CacheOptions) {
+    this.options = options;
+  }
+
+  // Returns the category of a cacheable read, or undefined for requests that aren't cached
+  categoryOf(method: string, endpoint: string): CacheCategory | undefined {
+    // Queries sent as POST with _method=GET carry their filter in the body, so they aren't cached
+    if (!this.options.enabled || method.toUpperCase() !== 'GET') {
+      return undefined;
+    }
+    const path = pathOf(endpoint);
+    return CACHE_RULES.find((rule) => rule.pattern.test(path))?.category;
+  }
+
+  /**
+   * Returns a copy of the cached response for a read, or undefined when it must be fetched
+   */
+  get(endpoint: string, category: CacheCategory): any {
+    if (cacheBypass.getStore()) {
+      this.counts.bypassed++;
+      return undefined;
+    }
+
+    const entry = this.entries.get(endpoint);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.entries.delete(endpoint);
+      this.counts.misses++;
+      this.categoryCounts[category].misses++;
+      return undefined;
+    }
+    this.counts.hits++;
+    this.categoryCounts[category].hits++;
+    return structuredClone(entry.response);
+  }
+
+  set(endpoint: string, category: CacheCategory, response: any) {
+    const ttlMs = this.ttlOf(category);
+    if (ttlMs === 0) {
+      return;
+    }
+    // Re-inserting moves the entry to the end, so the map stays ordered oldest first
+    this.entries.delete(endpoint);
+    this.entries.set(endpoint, {
+      response: structuredClone(response),
+      category,
+      expiresAt: Date.now() + ttlMs,
+    });
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.options.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldest);
+      this.counts.evictions++;
+    }
+  }
+
+  /**
+   * Drops the cached reads a write to the endpoint may have changed
+   */
+  invalidateAfterWrite(endpoint: string) {
+    const path = pathOf(endpoint);
+    const rule = INVALIDATION_RULES.find((candidate) => candidate.write.test(path));
+    for (const key of [...this.entries.keys()]) {
+      if (!rule || rule.reads.some((read) => read.test(pathOf(key)))) {
+        this.entries.delete(key);
+        this.counts.invalidated++;
+      }
+    }
+  }
+
+  stats(): CacheStats {
+    const now = Date.now();
+    const live = [...this.entries.values()].filter((entry) => entry.expiresAt > now);
+    const lookups = this.counts.hits + this.counts.misses;
+    const categories = Object.fromEntries(
+      (Object.keys(this.categoryCounts) as CacheCategory[]).map((category) => [
+        category,
+        {
+          ttlMs: this.ttlOf(category),
+          entries: live.filter((entry) => entry.category === category).length,
+          ...this.categoryCounts[category],
+        },
+      ])
+    ) as CacheStats['categories'];
+
+    return {
+      enabled: this.options.enabled,
+      entries: live.length,
+      ...this.counts,
+      apiCallsSaved: this.counts.hits,
+      hitRate: lookups === 0 ? 0 : Math.round((this.counts.hits / lookups) * 1000) / 1000,
+      categories,
+    };
+  }
+
+  private ttlOf(category: CacheCategory): number {
+    switch (category) {
+      case 'metadata':
+        return this.options.metadataTtlMs;
+      case 'assets':
+        return this.options.assetTtlMs;
+      default:
+        return this.options.leadTtlMs;
+    }
+  }
+}
+
+export { ResponseCache, withoutCache };
+export type { CacheCategory, CacheOptions, CacheStats };
@@ -0,0 +1,319 @@
+import axios from 'axios';
+import { AsyncLocalStorage } from 'async_hooks';
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import {
+  API_REQUEST_TIMEOUT,
+  MARKETO_CACHE,
+  MARKETO_CACHE_ASSET_TTL_MS,
+  MARKETO_CACHE_LEAD_TTL_MS,
+  MARKETO_CACHE_MAX_ENTRIES,
+  MARKETO_CACHE_METADATA_TTL_MS,
+  MARKETO_DEFAULT_INSTANCE,
+  MARKETO_INSTANCES,
+  MARKETO_MAX_CONCURRENCY,
+  MARKETO_MAX_RETRIES,
+  MARKETO_RATE_LIMIT,
+  MARKETO_RATE_WINDOW_MS,
+  MARKETO_RETRY_BASE_DELAY_MS,
+  MARKETO_RETRY_MAX_DELAY_MS,
+  MARKETO_TOKEN_REFRESH_AHEAD_MS,
+  MARKETO_TOKEN_STORE_DIR,
+  MARKETO_TOKEN_STORE_KEY,
+  InstanceAccess,
+  MarketoInstanceConfig,
+} from './constants.js';
+import { TokenManager } from './auth.js';
+import { TokenStore } from './tokenStore.js';
+import { RequestScheduler } from './scheduler.js';
+import { CacheStats, ResponseCache } from './cache.js';
+import { simulatorAdapter } from './simulator.js';
+import { TokenExpiredError, ToolInputError, createMarketoError } from './errors.js';
+import { PlannedRequest } from './dryRun.js';
+import { AuditRequest } from './audit.js';
+
+// A write request made while recording, with Marketo's response when it succeeded
+interface RecordedWrite {
+  request: AuditRequest;
+  response?: any;
+}
+
+// Collects the write requests made within a recordWrites call, for the audit log
+const writeRecorder = new AsyncLocalStorage<RecordedWrite[]>();
+
+/**
+ * Runs a function and returns the write requests any client made while it ran
+ */
+async function recordWrites<T>(
+  run: () => Promise<T>
+): Promise<{ result: T; writes: RecordedWrite[] }> {
+  const writes: RecordedWrite[] = [];
+  const result = await writeRecorder.run(writes, run);
+  return { result, writes };
+}
+
+// Queries sent as POST with _method=GET only read, so they count as reads too
+function isRead(method: string, endpoint: string): boolean {
+  return method.toUpperCase() === 'GET' || endpoint.includes('_method=GET');
+}
+
+function recordWrite(method: string, endpoint: string, response?: any, error?: any) {
+  const writes = writeRecorder.getStore();
+  if (!writes || isRead(method, endpoint)) {
+    return;
+  }
+  writes.push({
+    request: {
+      method,
+      endpoint,
+      requestId: response?.requestId ?? error?.requestId,
+      success: !error,
+      errorCode: error ? String(error.code ?? error.response?.status ?? 'unknown') : undefined,
+    },
+    response,
+  });
+}
+
+// Encodes a request body the way it is sent for the given content type
+function encodeBody(data: any, contentType: string): any {
+  if (contentType !== 'application/x-www-form-urlencoded') {
+    return data;
+  }
+  // Unset optional fields are left out rather than sent as the string "undefined"
+  const fields = Object.entries(data ?? {}).filter(([, value]) => value !== undefined);
+  return new URLSearchParams(fields as [string, string][]).toString();
+}
+
+// Tokens shared with other server processes, when a token store directory is configured
+const tokenStore = MARKETO_TOKEN_STORE_DIR
+  ? new TokenStore(MARKETO_TOKEN_STORE_DIR, MARKETO_TOKEN_STORE_KEY)
+  : undefined;
+
+/**
+ * Authenticated API client for one Marketo instance, with its own token and rate limits
+ */
+class MarketoClient {
+  readonly name: string;
+  readonly baseUrl: string;
+  readonly access: InstanceAccess;
+  private tokenManager: TokenManager;
+  private scheduler: RequestScheduler;
+  private cache: ResponseCache;
+
+  constructor(config: MarketoInstanceConfig) {
+    this.name = config.name;
+    this.baseUrl = config.baseUrl;
+    this.access = config.access;
+    this.tokenManager = new TokenManager({
+      name: config.name,
+      identityUrl: config.identityUrl,
+      clientId: config.clientId,
+      clientSecret: config.clientSecret,
+      credentialsFile: config.credentialsFile || undefined,
+      refreshAheadMs: MARKETO_TOKEN_REFRESH_AHEAD_MS,
+      store: tokenStore,
+    });
+    // Limits apply per instance, so each one gets its own scheduler
+    this.scheduler = new RequestScheduler({
+      rateLimit: MARKETO_RATE_LIMIT,
+      rateWindowMs: MARKETO_RATE_WINDOW_MS,
+      maxConcurrency: MARKETO_MAX_CONCURRENCY,
+      maxRetries: MARKETO_MAX_RETRIES,
+      baseDelayMs: MARKETO_RETRY_BASE_DELAY_MS,
+      maxDelayMs: MARKETO_RETRY_MAX_DELAY_MS,
+    });
+    this.cache = new ResponseCache({
+      enabled: MARKETO_CACHE,
+      metadataTtlMs: MARKETO_CACHE_METADATA_TTL_MS,
+      assetTtlMs: MARKETO_CACHE_ASSET_TTL_MS,
+      leadTtlMs: MARKETO_CACHE_LEAD_TTL_MS,
+      maxEntries: MARKETO_CACHE_MAX_ENTRIES,
+    });
+  }
+
+  // Makes an API request with authentication
+  async request(
+    endpoint: string,
+    method: string,
+    data?: any,
+    contentType: string = 'application/json'
+  ) {
+    // Cached reads are answered without a call
+    const cacheCategory = this.cache.categoryOf(method, endpoint);
+    const cached = cacheCategory && this.cache.get(endpoint, cacheCategory);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const response = await this.withTokenRetry(() =>
+        this.send(endpoint, method, data, contentType)
+      );
+      recordWrite(method, endpoint, response);
+      if (cacheCategory) {
+        this.cache.set(endpoint, cacheCategory, response);
+      }
+      return response;
+    } catch (error: any) {
+      recordWrite(method, endpoint, undefined, error);
+      // Log minimal info for debugging (avoid logging sensitive data)
+      console.error(
+        `API request failed: [${this.name}] ${method} ${endpoint} - ${error.code || error.message}`
+      );
+      throw error;
+    } finally {
+      // A write changes Marketo even when it fails part way, so cached reads it touches are
+      // dropped once it has settled
+      if (!isRead(method, endpoint)) {
+        this.cache.invalidateAfterWrite(endpoint);
+      }
+    }
+  }
+
+  // Re-reads the credentials file and drops the access token, so the next request fetches a new one
+  resetAuthentication(): void {
+    this.tokenManager.reloadCredentials();
+    this.tokenManager.invalidate();
+  }
+
+  // Hits, misses and entries of the instance's response cache
+  cacheStats(): CacheStats {
+    return this.cache.stats();
+  }
+
+  // Describes the request that would be sent, without sending it
+  describeRequest(
+    endpoint: string,
+    method: string,
+    data?: any,
+    contentType: string = 'application/json'
+  ): PlannedRequest {
+    let body: unknown = data === undefined ? undefined : encodeBody(data, contentType);
+    if (data instanceof FormData) {
+      // Multipart bodies are listed field by field, with files reduced to their name and size
+      body = Object.fromEntries(
+        [...data.entries()].map(([key, value]) => [
+          key,
+          typeof value === 'string' ? value : `<file ${value.name}, ${value.size} bytes>`,
+        ])
+      );
+    }
+    return { method, url: `${this.baseUrl}${endpoint}`, contentType, body };
+  }
+
+  // Streams a file endpoint to disk, for results too large to hold in memory
+  async download(endpoint: string, filePath: string): Promise<void> {
+    const download = () =>
+      this.scheduler.schedule(async () => {
+        const token = await this.tokenManager.getToken();
+        const response = await axios({
+          url: `${this.baseUrl}${endpoint}`,
+          method: 'GET',
+          headers: { Authorization: `Bearer ${token}` },
+          responseType: 'stream',
+          timeout: API_REQUEST_TIMEOUT,
+          adapter: simulatorAdapter,
+        });
+
+        // File endpoints answer with a JSON envelope instead of the file when they fail
+        if (String(response.headers['content-type']).includes('application/json')) {
+          let body = '';
+          for await (const chunk of response.data) {
+            body += chunk;
+          }
+          const apiError = createMarketoError(JSON.parse(body));
+          if (apiError) {
+            throw apiError;
+          }
+          await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+          await fs.promises.writeFile(filePath, body);
+          return;
+        }
+
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await pipeline(response.data, fs.createWriteStream(filePath));
+      });
+
+    try {
+      await this.withTokenRetry(download);
+    } catch (error: any) {
+      console.error(
+        `File download failed: [${this.name}] GET ${endpoint} - ${error.code || error.message}`
+      );
+      throw error;
+    }
+  }
+
+  // Sends a single authenticated request through the instance's scheduler
+  private async send(endpoint: string, method: string, data: any, contentType: string) {
+    const attempt = async () => {
+      const token = await this.tokenManager.getToken();
+      const headers: Record<string, string> = {
+        Authorization: `Bearer ${token}`,
+      };
+
+      if (contentType) {
+        headers['Content-Type'] = contentType;
+      }
+
+      const response = await axios({
+        url: `${this.baseUrl}${endpoint}`,
+        method: method,
+        data: encodeBody(data, contentType),
+        headers,
+        timeout: API_REQUEST_TIMEOUT,
+        adapter: simulatorAdapter,
+      });
+
+      // Marketo reports most failures with HTTP 200 and success: false
+      const apiError = createMarketoError(response.data);
+      if (apiError) {
+        throw apiError;
+      }
+
+      return response.data;
+    };
+    // A write that may have reached Marketo isn't sent again
+    return this.scheduler.schedule(attempt, isRead(method, endpoint));
+  }
+
+  // Retries once with a new token when Marketo rejects the cached one
+  private async withTokenRetry<T>(send: () => Promise<T>): Promise<T> {
+    try {
+      return await send();
+    } catch (error: any) {
+      if (!(error instanceof TokenExpiredError)) {
+        throw error;
+      }
+      // The cached token was revoked or expired early, so fetch a new one and retry once
+      this.tokenManager.invalidate();
+      return await send();
+    }
+  }
+}
+
+const clients = new Map(
+  MARKETO_INSTANCES.map((config) => [config.name, new MarketoClient(config)])
+);
+
+/**
+ * Returns the client for a named instance, or the default instance when no name is given
+ */
+function getClient(instance?: string): MarketoClient {
+  const name = instance ?? MARKETO_DEFAULT_INSTANCE;
+  const client = clients.get(name);
+  if (!client) {
+    throw new ToolInputError(
+      `Unknown Marketo instance "${name}". Configured instances: ${[...clients.keys()].join(', ')}`
+    );
+  }
+  return client;
+}
+
+function listClients(): MarketoClient[] {
+  return [...clients.values()];
+}
+
+export { MarketoClient, getClient, listClients, recordWrites };
+export type { RecordedWrite };
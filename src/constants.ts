@@ -1,33 +1,41 @@
+import path from 'path';
+
 // Base URL for Marketo API
 const rawBaseUrl = process.env.MARKETO_BASE_URL || '';
 const rawClientId = process.env.MARKETO_CLIENT_ID || '';
 const rawClientSecret = process.env.MARKETO_CLIENT_SECRET || '';
 
+// Simulator mode answers every request from an in-process fake Marketo seeded with fixtures,
+// read from MARKETO_SIMULATOR_FIXTURES when set; instances then need no URL or credentials
+export const MARKETO_SIMULATOR = readBooleanSetting('MARKETO_SIMULATOR', false);
+export const MARKETO_SIMULATOR_FIXTURES = readStringSetting('MARKETO_SIMULATOR_FIXTURES', '');
+const SIMULATOR_CREDENTIAL = 'simulator';
+
 /**
  * Validates that a URL is a valid HTTPS URL pointing to a Marketo instance
  */
-function validateMarketoUrl(url: string): string {
+function validateMarketoUrl(url: string, settingName: string = 'MARKETO_BASE_URL'): string {
   if (!url) {
-    throw new Error('MARKETO_BASE_URL environment variable is required');
+    throw new Error(`${settingName} environment variable is required`);
   }
 
   let parsedUrl: URL;
   try {
     parsedUrl = new URL(url);
   } catch {
-    throw new Error(`MARKETO_BASE_URL is not a valid URL: ${url}`);
+    throw new Error(`${settingName} is not a valid URL: ${url}`);
   }
 
   // Enforce HTTPS for security
   if (parsedUrl.protocol !== 'https:') {
-    throw new Error('MARKETO_BASE_URL must use HTTPS protocol for security');
+    throw new Error(`${settingName} must use HTTPS protocol for security`);
   }
 
   // Validate it looks like a Marketo URL (optional but recommended)
   if (!parsedUrl.hostname.includes('mktorest.com') && !parsedUrl.hostname.includes('marketo.com')) {
     console.warn(
-      'Warning: MARKETO_BASE_URL does not appear to be a standard Marketo domain. ' +
-      'Ensure this is intentional.'
+      `Warning: ${settingName} does not appear to be a standard Marketo domain. ` +
+        'Ensure this is intentional.'
     );
   }
 
@@ -35,9 +43,312 @@ function validateMarketoUrl(url: string): string {
   return url.replace(/\/+$/, '');
 }
 
-export const MARKETO_BASE_URL = validateMarketoUrl(rawBaseUrl);
-export const MARKETO_CLIENT_ID = rawClientId;
-export const MARKETO_CLIENT_SECRET = rawClientSecret;
+// What an instance allows: destructive tools delete, remove or approve; read-only blocks all writes
+export const INSTANCE_ACCESS_LEVELS = ['read-write', 'no-destructive', 'read-only'] as const;
+export type InstanceAccess = (typeof INSTANCE_ACCESS_LEVELS)[number];
+
+export interface MarketoInstanceConfig {
+  name: string;
+  baseUrl: string;
+  // Where access tokens are requested, such as https://123-ABC-456.mktorest.com/identity
+  identityUrl: string;
+  clientId: string;
+  clientSecret: string;
+  // JSON file or secret mount directory holding the credentials, re-read when tokens are fetched
+  credentialsFile: string;
+  access: InstanceAccess;
+}
+
+function readAccessSetting(name: string): InstanceAccess {
+  const value = readStringSetting(name, 'read-write');
+  if (!(INSTANCE_ACCESS_LEVELS as readonly string[]).includes(value)) {
+    throw new Error(`${name} must be one of ${INSTANCE_ACCESS_LEVELS.join(', ')}: ${value}`);
+  }
+  return value as InstanceAccess;
+}
+
+// Simulated instances are told apart by host, so each gets its own copy of the fixtures
+function simulatorBaseUrl(instanceName: string): string {
+  return MARKETO_SIMULATOR ? `https://${instanceName}.simulator.mktorest.com/rest` : '';
+}
+
+function simulatorCredential(): string {
+  return MARKETO_SIMULATOR ? SIMULATOR_CREDENTIAL : '';
+}
+
+// The identity endpoint sits beside the REST API: .../rest becomes .../identity
+function deriveIdentityUrl(baseUrl: string): string {
+  return `${baseUrl.replace(/\/rest$/, '')}/identity`;
+}
+
+// Adds the base URL and the identity URL, read from <prefix>_IDENTITY_URL or derived from it
+function readInstanceUrls(
+  prefix: string,
+  baseUrl: string,
+  config: Omit<MarketoInstanceConfig, 'baseUrl' | 'identityUrl'>
+): MarketoInstanceConfig {
+  const identityUrl = readStringSetting(`${prefix}_IDENTITY_URL`, '');
+  return {
+    ...config,
+    baseUrl,
+    identityUrl: identityUrl
+      ? validateMarketoUrl(identityUrl, `${prefix}_IDENTITY_URL`)
+      : deriveIdentityUrl(baseUrl),
+  };
+}
+
+/**
+ * Reads the configured Marketo instances. MARKETO_INSTANCES lists named instances, each
+ * configured with MARKETO_<NAME>_BASE_URL, _CLIENT_ID, _CLIENT_SECRET and _ACCESS; without it
+ * a single instance named "default" is read from MARKETO_BASE_URL and friends.
+ */
+function loadInstances(): MarketoInstanceConfig[] {
+  const names = readListSetting('MARKETO_INSTANCES');
+
+  const configs =
+    names.length === 0
+      ? [
+          readInstanceUrls(
+            'MARKETO',
+            validateMarketoUrl(rawBaseUrl || simulatorBaseUrl('default')),
+            {
+              name: 'default',
+              clientId: rawClientId || simulatorCredential(),
+              clientSecret: rawClientSecret || simulatorCredential(),
+              credentialsFile: readStringSetting('MARKETO_CREDENTIALS_FILE', ''),
+              access: readAccessSetting('MARKETO_ACCESS'),
+            }
+          ),
+        ]
+      : names.map((name) => {
+          if (!/^[a-z0-9_-]+$/i.test(name)) {
+            throw new Error(`Invalid instance name in MARKETO_INSTANCES: ${name}`);
+          }
+          const prefix = `MARKETO_${name.toUpperCase().replace(/-/g, '_')}`;
+          return readInstanceUrls(
+            prefix,
+            validateMarketoUrl(
+              readStringSetting(`${prefix}_BASE_URL`, simulatorBaseUrl(name)),
+              `${prefix}_BASE_URL`
+            ),
+            {
+              name,
+              clientId: readStringSetting(`${prefix}_CLIENT_ID`, simulatorCredential()),
+              clientSecret: readStringSetting(`${prefix}_CLIENT_SECRET`, simulatorCredential()),
+              credentialsFile: readStringSetting(`${prefix}_CREDENTIALS_FILE`, ''),
+              access: readAccessSetting(`${prefix}_ACCESS`),
+            }
+          );
+        });
+
+  for (const config of configs) {
+    if ((!config.clientId || !config.clientSecret) && !config.credentialsFile) {
+      throw new Error(
+        `Client ID and client secret, or a credentials file, are required for Marketo instance "${config.name}"`
+      );
+    }
+  }
+  if (new Set(configs.map((config) => config.name)).size !== configs.length) {
+    throw new Error('MARKETO_INSTANCES contains duplicate instance names');
+  }
+  return configs;
+}
+
+export const MARKETO_INSTANCES = loadInstances();
+
+export const MARKETO_DEFAULT_INSTANCE = readStringSetting(
+  'MARKETO_DEFAULT_INSTANCE',
+  MARKETO_INSTANCES[0].name
+);
+if (!MARKETO_INSTANCES.some((instance) => instance.name === MARKETO_DEFAULT_INSTANCE)) {
+  throw new Error(
+    `MARKETO_DEFAULT_INSTANCE is not a configured instance: ${MARKETO_DEFAULT_INSTANCE}`
+  );
+}
 
 // Request timeout in milliseconds (30 seconds)
 export const API_REQUEST_TIMEOUT = 30000;
+
+/**
+ * Reads an integer setting from the environment, falling back to a default
+ */
+function readIntSetting(name: string, fallback: number, min: number = 1): number {
+  const raw = process.env[name];
+  if (!raw) {
+    return fallback;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(`${name} must be an integer of at least ${min}: ${raw}`);
+  }
+  return value;
+}
+
+/**
+ * Reads an optional string setting from the environment, falling back to a default
+ */
+function readStringSetting(name: string, fallback: string): string {
+  return process.env[name] || fallback;
+}
+
+/**
+ * Reads a true/false setting from the environment, falling back to a default
+ */
+function readBooleanSetting(name: string, fallback: boolean): boolean {
+  const raw = process.env[name];
+  if (!raw) {
+    return fallback;
+  }
+
+  const value = raw.trim().toLowerCase();
+  if (value !== 'true' && value !== 'false') {
+    throw new Error(`${name} must be "true" or "false": ${raw}`);
+  }
+  return value === 'true';
+}
+
+/**
+ * Reads a comma-separated list setting from the environment
+ */
+function readListSetting(name: string): string[] {
+  return readStringSetting(name, '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+// Marketo allows 100 calls per 20 seconds and 10 concurrent calls per instance
+export const MARKETO_RATE_LIMIT = readIntSetting('MARKETO_RATE_LIMIT', 100);
+export const MARKETO_RATE_WINDOW_MS = readIntSetting('MARKETO_RATE_WINDOW_MS', 20000);
+export const MARKETO_MAX_CONCURRENCY = readIntSetting('MARKETO_MAX_CONCURRENCY', 10);
+
+// Retry settings for transient failures
+export const MARKETO_MAX_RETRIES = readIntSetting('MARKETO_MAX_RETRIES', 3, 0);
+export const MARKETO_RETRY_BASE_DELAY_MS = readIntSetting('MARKETO_RETRY_BASE_DELAY_MS', 1000);
+export const MARKETO_RETRY_MAX_DELAY_MS = readIntSetting('MARKETO_RETRY_MAX_DELAY_MS', 20000);
+
+// Cache of GET responses under the request layer, per instance: metadata such as field
+// descriptions for an hour, assets for 5 minutes and leads for 30 seconds; a TTL of 0 turns
+// caching off for that kind of read
+export const MARKETO_CACHE = readBooleanSetting('MARKETO_CACHE', true);
+export const MARKETO_CACHE_METADATA_TTL_MS = readIntSetting(
+  'MARKETO_CACHE_METADATA_TTL_MS',
+  60 * 60 * 1000,
+  0
+);
+export const MARKETO_CACHE_ASSET_TTL_MS = readIntSetting(
+  'MARKETO_CACHE_ASSET_TTL_MS',
+  5 * 60 * 1000,
+  0
+);
+export const MARKETO_CACHE_LEAD_TTL_MS = readIntSetting('MARKETO_CACHE_LEAD_TTL_MS', 30 * 1000, 0);
+export const MARKETO_CACHE_MAX_ENTRIES = readIntSetting('MARKETO_CACHE_MAX_ENTRIES', 1000);
+
+// Access tokens: a new one is fetched in the background this long before the current one
+// expires (0 waits for a request to find it expired), and tokens can be shared by server
+// processes through a directory of files encrypted with MARKETO_TOKEN_STORE_KEY
+export const MARKETO_TOKEN_REFRESH_AHEAD_MS = readIntSetting(
+  'MARKETO_TOKEN_REFRESH_AHEAD_MS',
+  60 * 1000,
+  0
+);
+export const MARKETO_TOKEN_STORE_DIR = readStringSetting('MARKETO_TOKEN_STORE_DIR', '');
+export const MARKETO_TOKEN_STORE_KEY = readStringSetting('MARKETO_TOKEN_STORE_KEY', '');
+if (MARKETO_TOKEN_STORE_DIR && MARKETO_TOKEN_STORE_KEY.length < 16) {
+  throw new Error(
+    'MARKETO_TOKEN_STORE_KEY of at least 16 characters is required with MARKETO_TOKEN_STORE_DIR'
+  );
+}
+
+// Directory that bulk export files are written to
+export const MARKETO_EXPORT_DIR = path.resolve(
+  readStringSetting('MARKETO_EXPORT_DIR', 'marketo-exports')
+);
+
+// Directory that bulk import and form import files are read from; paths outside it are refused
+export const MARKETO_IMPORT_DIR = path.resolve(
+  readStringSetting('MARKETO_IMPORT_DIR', 'marketo-imports')
+);
+
+// Bulk export limits shared by all export job types
+// https://experienceleague.adobe.com/en/docs/marketo-developer/marketo/rest/bulk-extract/bulk-extract
+export const BULK_EXPORT_DAILY_QUOTA_BYTES = 500 * 1024 * 1024;
+export const BULK_EXPORT_MAX_PROCESSING_JOBS = 2;
+export const BULK_EXPORT_MAX_QUEUED_JOBS = 10;
+
+// Record caps for fetchAll pagination: the default per call, and a hard limit no call can exceed
+export const FETCH_ALL_DEFAULT_MAX_RECORDS = 1000;
+export const FETCH_ALL_MAX_RECORDS = readIntSetting('MARKETO_FETCH_ALL_MAX_RECORDS', 10000);
+
+// Most lead and list endpoints accept up to 300 IDs or filter values per call
+export const LEAD_BATCH_SIZE = 300;
+
+// Activity endpoints accept up to 30 lead IDs per call
+export const ACTIVITY_LEAD_BATCH_SIZE = 30;
+
+// The merge endpoint takes a winner and up to three leads to merge into it
+export const MERGE_MAX_LEADS = 4;
+
+// Transport the server listens on: stdio for a local client, http for a shared instance
+export const MCP_TRANSPORT = readStringSetting('MARKETO_MCP_TRANSPORT', 'stdio');
+if (MCP_TRANSPORT !== 'stdio' && MCP_TRANSPORT !== 'http') {
+  throw new Error(`MARKETO_MCP_TRANSPORT must be "stdio" or "http": ${MCP_TRANSPORT}`);
+}
+
+// HTTP transport settings
+export const MCP_HTTP_HOST = readStringSetting('MARKETO_MCP_HOST', '127.0.0.1');
+export const MCP_HTTP_PORT = readIntSetting('MARKETO_MCP_PORT', 3000);
+export const MCP_API_KEYS = readStringSetting('MARKETO_MCP_API_KEYS', '');
+export const MCP_API_KEYS_FILE = readStringSetting('MARKETO_MCP_API_KEYS_FILE', '');
+// Sessions without any request for this long are closed (30 minutes)
+export const MCP_SESSION_IDLE_TIMEOUT_MS = readIntSetting(
+  'MARKETO_MCP_SESSION_IDLE_TIMEOUT_MS',
+  30 * 60 * 1000
+);
+// Largest JSON-RPC request body accepted over HTTP (4 MB)
+export const MCP_HTTP_MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Tool policy: read-only mode registers only tools that don't change Marketo data, and the
+// include/exclude lists filter tools by name or category
+export const MARKETO_READ_ONLY = readBooleanSetting('MARKETO_READ_ONLY', false);
+export const MARKETO_TOOLS_INCLUDE = readListSetting('MARKETO_TOOLS_INCLUDE');
+export const MARKETO_TOOLS_EXCLUDE = readListSetting('MARKETO_TOOLS_EXCLUDE');
+
+// Makes every write tool describe its request instead of sending it, as if called with dryRun
+export const MARKETO_DRY_RUN = readBooleanSetting('MARKETO_DRY_RUN', false);
+
+// Destructive tools return a preview and a confirmation token that must be sent back to execute
+export const MARKETO_REQUIRE_CONFIRMATION = readBooleanSetting(
+  'MARKETO_REQUIRE_CONFIRMATION',
+  true
+);
+// How long a confirmation token stays valid (5 minutes)
+export const CONFIRMATION_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+// Append-only JSONL log of every write call; "off" disables it
+export const MARKETO_AUDIT_LOG = readStringSetting('MARKETO_AUDIT_LOG', 'marketo-audit.jsonl');
+export const MARKETO_AUDIT_LOG_PATH =
+  MARKETO_AUDIT_LOG === 'off' ? undefined : path.resolve(MARKETO_AUDIT_LOG);
+// The log rotates to numbered files at this size (10 MB), keeping this many old files
+export const MARKETO_AUDIT_LOG_MAX_BYTES = readIntSetting(
+  'MARKETO_AUDIT_LOG_MAX_BYTES',
+  10 * 1024 * 1024
+);
+export const MARKETO_AUDIT_LOG_MAX_FILES = readIntSetting('MARKETO_AUDIT_LOG_MAX_FILES', 5);
+
+// How tool results are rendered: json, compact (one JSON object per line), csv or markdown
+export const OUTPUT_FORMATS = ['json', 'compact', 'csv', 'markdown'] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export const MARKETO_OUTPUT_FORMAT = readStringSetting(
+  'MARKETO_OUTPUT_FORMAT',
+  'json'
+) as OutputFormat;
+if (!OUTPUT_FORMATS.includes(MARKETO_OUTPUT_FORMAT)) {
+  throw new Error(
+    `MARKETO_OUTPUT_FORMAT must be one of ${OUTPUT_FORMATS.join(', ')}: ${MARKETO_OUTPUT_FORMAT}`
+  );
+}
+// Results longer than this many characters are cut to the records that fit, with a summary
+export const MARKETO_OUTPUT_MAX_CHARS = readIntSetting('MARKETO_OUTPUT_MAX_CHARS', 40000);
@@ -0,0 +1,138 @@
+import fs from 'fs';
+
+/**
+ * Incremental RFC 4180 parser, so large bulk files can be read chunk by chunk
+ */
+class CsvParser {
+  private field: string = '';
+  private row: string[] = [];
+  private inQuotes: boolean = false;
+  // A quote inside a quoted field may be the first half of an escaped quote
+  private pendingQuote: boolean = false;
+  private lastWasCarriageReturn: boolean = false;
+
+  push(chunk: string): string[][] {
+    const rows: string[][] = [];
+
+    for (const char of chunk) {
+      if (this.pendingQuote) {
+        this.pendingQuote = false;
+        if (char === '"') {
+          this.field += '"';
+          continue;
+        }
+        this.inQuotes = false;
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          this.pendingQuote = true;
+        } else {
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === '\n' && this.lastWasCarriageReturn) {
+        this.lastWasCarriageReturn = false;
+        continue;
+      }
+      this.lastWasCarriageReturn = char === '\r';
+
+      if (char === '"' && this.field === '') {
+        this.inQuotes = true;
+      } else if (char === ',') {
+        this.row.push(this.field);
+        this.field = '';
+      } else if (char === '\n' || char === '\r') {
+        rows.push(this.finishRow());
+      } else {
+        this.field += char;
+      }
+    }
+
+    return rows;
+  }
+
+  end(): string[][] {
+    this.pendingQuote = false;
+    this.inQuotes = false;
+    if (this.field === '' && this.row.length === 0) {
+      return [];
+    }
+    return [this.finishRow()];
+  }
+
+  private finishRow(): string[] {
+    this.row.push(this.field);
+    const row = this.row;
+    this.field = '';
+    this.row = [];
+    return row;
+  }
+}
+
+/**
+ * Parses a complete CSV document, skipping blank lines
+ */
+function parseCsv(text: string): string[][] {
+  const parser = new CsvParser();
+  return [...parser.push(text), ...parser.end()].filter((row) => row.length > 1 || row[0] !== '');
+}
+
+function escapeCsvValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes rows to CSV, quoting values only where needed
+ */
+function toCsv(rows: unknown[][]): string {
+  return rows.map((row) => row.map(escapeCsvValue).join(',')).join('\n') + '\n';
+}
+
+interface CsvFileSummary {
+  columns: string[];
+  rowCount: number;
+  preview: Record<string, string>[];
+}
+
+/**
+ * Streams a CSV file to count its rows and capture the header and first few records
+ */
+async function summarizeCsvFile(filePath: string, previewRows: number): Promise<CsvFileSummary> {
+  const parser = new CsvParser();
+  let columns: string[] | undefined;
+  let rowCount = 0;
+  const preview: Record<string, string>[] = [];
+
+  const consume = (rows: string[][]) => {
+    for (const row of rows) {
+      if (row.length === 1 && row[0] === '') {
+        continue;
+      }
+      if (!columns) {
+        columns = row;
+        continue;
+      }
+      rowCount++;
+      if (preview.length < previewRows) {
+        preview.push(Object.fromEntries(columns.map((column, i) => [column, row[i] ?? ''])));
+      }
+    }
+  };
+
+  for await (const chunk of fs.createReadStream(filePath, { encoding: 'utf-8' })) {
+    consume(parser.push(chunk as string));
+  }
+  consume(parser.end());
+
+  return { columns: columns ?? [], rowCount, preview };
+}
+
+export { CsvParser, parseCsv, toCsv, summarizeCsvFile };
+export type { CsvFileSummary };
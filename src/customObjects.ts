@@ -0,0 +1,104 @@
+import { ToolInputError } from './errors.js';
+import { LeadField, buildFieldCatalog } from './leadSchema.js';
+
+// A custom object type as its describe.json endpoint reports it
+interface CustomObjectSchema {
+  name: string;
+  displayName: string;
+  idField: string;
+  dedupeFields: string[];
+  // Fields or field combinations the query endpoint can filter on
+  searchableFields: string[][];
+  relationships: { field: string; relatedTo: { name: string; field: string }; type: string }[];
+  fields: LeadField[];
+}
+
+/**
+ * Extracts a custom object type's keys and field catalog from a describe.json response
+ */
+function buildCustomObjectSchema(response: any): CustomObjectSchema {
+  const type = response?.result?.[0] ?? {};
+  return {
+    name: type.name,
+    displayName: type.displayName ?? type.name,
+    idField: type.idField ?? 'marketoGUID',
+    dedupeFields: type.dedupeFields ?? [],
+    searchableFields: type.searchableFields ?? [],
+    relationships: type.relationships ?? [],
+    fields: buildFieldCatalog(response),
+  };
+}
+
+/**
+ * Checks that a query can filter on the field, which must be a key, a link or searchable
+ */
+function checkFilterType(schema: CustomObjectSchema, filterType: string): void {
+  const allowed = new Set([
+    'dedupeFields',
+    'idField',
+    schema.idField,
+    ...schema.relationships.map((relationship) => relationship.field),
+    ...schema.searchableFields.filter((fields) => fields.length === 1).map((fields) => fields[0]),
+  ]);
+  if (schema.dedupeFields.length === 1) {
+    allowed.add(schema.dedupeFields[0]);
+  }
+  if (!allowed.has(filterType)) {
+    throw new ToolInputError(
+      `${schema.name} can't be filtered by "${filterType}". Valid filter types: ${[...allowed].join(', ')}. ` +
+        'Use keys to look records up by a compound dedupe key.'
+    );
+  }
+}
+
+/**
+ * Returns the fields that identify records for an upsert or delete
+ */
+function keyFieldsFor(schema: CustomObjectSchema, by: 'dedupeFields' | 'idField'): string[] {
+  return by === 'idField' ? [schema.idField] : schema.dedupeFields;
+}
+
+/**
+ * Lists the records missing a value for one of the key fields
+ */
+function findMissingKeys(records: Record<string, unknown>[], keyFields: string[]): string[] {
+  return records.flatMap((record, index) =>
+    keyFields
+      .filter(
+        (field) => record[field] === undefined || record[field] === null || record[field] === ''
+      )
+      .map((field) => `record ${index} has no ${field}`)
+  );
+}
+
+/**
+ * Builds a comparable key from a record's key fields, ignoring case
+ */
+function recordKey(record: Record<string, unknown>, keyFields: string[]): string {
+  return JSON.stringify(keyFields.map((field) => String(record[field] ?? '').toLowerCase()));
+}
+
+/**
+ * Parses a resource key into dedupe field values; compound keys list values in dedupe field order,
+ * separated by commas
+ */
+function parseResourceKey(schema: CustomObjectSchema, key: string): Record<string, string> {
+  const values = key.split(',');
+  if (schema.dedupeFields.length === 0 || values.length !== schema.dedupeFields.length) {
+    throw new ToolInputError(
+      `${schema.name} records are identified by ${schema.dedupeFields.join(', ') || 'no dedupe fields'}; ` +
+        `expected ${schema.dedupeFields.length} comma-separated values.`
+    );
+  }
+  return Object.fromEntries(schema.dedupeFields.map((field, index) => [field, values[index]]));
+}
+
+export {
+  buildCustomObjectSchema,
+  checkFilterType,
+  keyFieldsFor,
+  findMissingKeys,
+  recordKey,
+  parseResourceKey,
+};
+export type { CustomObjectSchema };
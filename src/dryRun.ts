@@ -0,0 +1,73 @@
+// An API call a tool would make, as it would go over the wire
+interface PlannedRequest {
+  method: string;
+  url: string;
+  contentType?: string;
+  body?: unknown;
+}
+
+interface DryRunReport {
+  dryRun: true;
+  instance: string;
+  // Every request, in order, for tools that make several
+  request: PlannedRequest | PlannedRequest[];
+  // Pre-flight checks that would have stopped or changed the call
+  validation?: unknown;
+  // The affected records as they are now
+  current?: unknown;
+  // Human-readable effects of the call, such as field changes
+  changes: string[];
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') {
+    return '(empty)';
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Lists the fields whose proposed value differs from the current one, skipping unset fields
+ */
+function describeFieldChanges(
+  label: string,
+  current: Record<string, unknown>,
+  proposed: Record<string, unknown>
+): string[] {
+  return Object.entries(proposed)
+    .filter(([, value]) => value !== undefined)
+    .filter(([field, value]) => String(current[field] ?? '') !== String(value ?? ''))
+    .map(
+      ([field, value]) =>
+        `${label}'s ${field} would change from ${formatValue(current[field])} to ${formatValue(value)}`
+    );
+}
+
+/**
+ * Describes what an upsert would do to each record, given the leads that already match
+ */
+function describeLeadChanges(
+  records: Record<string, unknown>[],
+  existing: Record<string, unknown>[],
+  lookupField: string
+): string[] {
+  const normalize = (value: unknown) => String(value ?? '').toLowerCase();
+  const byKey = new Map(existing.map((lead) => [normalize(lead[lookupField]), lead]));
+
+  return records.flatMap((record) => {
+    const key = record[lookupField];
+    const match = byKey.get(normalize(key));
+    if (!match) {
+      return [`a new lead with ${lookupField} ${formatValue(key)} would be created`];
+    }
+
+    const fields = Object.fromEntries(
+      Object.entries(record).filter(([field]) => field !== lookupField)
+    );
+    const changes = describeFieldChanges(`lead ${match.id}`, match, fields);
+    return changes.length > 0 ? changes : [`lead ${match.id} would not change`];
+  });
+}
+
+export { describeFieldChanges, describeLeadChanges };
+export type { PlannedRequest, DryRunReport };
@@ -0,0 +1,141 @@
+import { ToolInputError } from './errors.js';
+
+// How leads are grouped as likely duplicates
+const DUPLICATE_MATCH_RULES = ['email', 'nameCompany'] as const;
+type DuplicateMatchRule = (typeof DUPLICATE_MATCH_RULES)[number];
+
+// How the surviving lead of a merge is chosen; ties always go to the lowest ID
+const MERGE_WINNER_RULES = ['mostRecentlyUpdated', 'mostActivity', 'lowestId'] as const;
+type MergeWinnerRule = (typeof MERGE_WINNER_RULES)[number];
+
+// Fields that differ between any two records and say nothing about the person
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
+
+interface DuplicateGroup {
+  key: string;
+  leadIds: number[];
+  // Values of each field that differs within the group, keyed by lead ID
+  differingFields: Record<string, Record<string, unknown>>;
+  leads: any[];
+}
+
+interface MergePlan {
+  winner: any;
+  losers: any[];
+  reason: string;
+}
+
+// Lower-cases and collapses whitespace and punctuation, so "ACME, Inc." matches "acme inc"
+function normalizeText(value: unknown): string {
+  return String(value ?? '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}@]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Builds the key a lead is grouped by, or undefined when the lead lacks the fields to match on
+ */
+function duplicateKey(lead: any, matchBy: DuplicateMatchRule): string | undefined {
+  if (matchBy === 'email') {
+    const email = String(lead.email ?? '')
+      .trim()
+      .toLowerCase();
+    return email || undefined;
+  }
+
+  const parts = [lead.firstName, lead.lastName, lead.company].map(normalizeText);
+  return parts[1] && parts[2] ? parts.join('|') : undefined;
+}
+
+/**
+ * Lists the fields whose values are not the same on every lead, ignoring case and whitespace
+ */
+function describeDifferingFields(leads: any[]): Record<string, Record<string, unknown>> {
+  const fields = new Set(leads.flatMap((lead) => Object.keys(lead)));
+  const differing: Record<string, Record<string, unknown>> = {};
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+    const values = new Set(leads.map((lead) => normalizeText(lead[field])));
+    if (values.size > 1) {
+      differing[field] = Object.fromEntries(leads.map((lead) => [lead.id, lead[field] ?? null]));
+    }
+  }
+
+  return differing;
+}
+
+/**
+ * Groups leads sharing a duplicate key, largest groups first
+ */
+function findDuplicateGroups(leads: any[], matchBy: DuplicateMatchRule): DuplicateGroup[] {
+  const groups = new Map<string, any[]>();
+  for (const lead of leads) {
+    const key = duplicateKey(lead, matchBy);
+    if (key) {
+      groups.set(key, [...(groups.get(key) ?? []), lead]);
+    }
+  }
+
+  return [...groups.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([key, members]) => ({
+      key,
+      leadIds: members.map((lead) => lead.id),
+      differingFields: describeDifferingFields(members),
+      leads: members,
+    }))
+    .sort((a, b) => b.leadIds.length - a.leadIds.length);
+}
+
+/**
+ * Picks the lead that survives a merge, either the one named or the best under the rule
+ */
+function planMerge(
+  leads: any[],
+  rule: MergeWinnerRule,
+  winnerId?: number,
+  activityCounts?: Map<number, number>
+): MergePlan {
+  let winner: any;
+  let reason: string;
+
+  if (winnerId !== undefined) {
+    winner = leads.find((lead) => lead.id === winnerId);
+    if (!winner) {
+      throw new ToolInputError(`winnerId ${winnerId} must be one of the leads being merged.`);
+    }
+    reason = 'chosen by winnerId';
+  } else {
+    const score = (lead: any): number => {
+      switch (rule) {
+        case 'mostRecentlyUpdated':
+          return Date.parse(lead.updatedAt ?? '') || 0;
+        case 'mostActivity':
+          return activityCounts?.get(lead.id) ?? 0;
+        default:
+          return 0;
+      }
+    };
+    winner = [...leads].sort((a, b) => score(b) - score(a) || a.id - b.id)[0];
+    reason = {
+      mostRecentlyUpdated: `most recently updated (${winner.updatedAt ?? 'unknown'})`,
+      mostActivity: `most activity (${activityCounts?.get(winner.id) ?? 0} activities)`,
+      lowestId: 'lowest ID',
+    }[rule];
+  }
+
+  return { winner, losers: leads.filter((lead) => lead !== winner), reason };
+}
+
+export {
+  DUPLICATE_MATCH_RULES,
+  MERGE_WINNER_RULES,
+  findDuplicateGroups,
+  describeDifferingFields,
+  planMerge,
+};
+export type { DuplicateMatchRule, MergeWinnerRule, DuplicateGroup, MergePlan };
@@ -0,0 +1,134 @@
+// Marketo error codes that are safe to retry after a short delay
+// https://developer.adobe.com/marketo-apis/error-codes/
+export const RETRYABLE_MARKETO_CODES = new Set(['604', '606', '608', '611', '615', '713']);
+
+// Marketo error code returned once the daily API quota has been used up
+export const DAILY_QUOTA_CODE = '607';
+
+// Marketo error codes for an invalid or expired access token
+export const TOKEN_ERROR_CODES = new Set(['601', '602']);
+
+// HTTP status codes that are safe to retry after a short delay
+export const RETRYABLE_HTTP_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+// Marketo error codes and HTTP statuses that mean the request was turned away before it was
+// processed, so even a write can be sent again without taking effect twice
+export const UNPROCESSED_MARKETO_CODES = new Set(['604', '606', '615']);
+export const UNPROCESSED_HTTP_STATUSES = new Set([429]);
+
+interface MarketoErrorEntry {
+  code: string;
+  message: string;
+}
+
+/**
+ * Error raised when Marketo rejects a request in the response body
+ */
+class MarketoApiError extends Error {
+  readonly code: string;
+  readonly requestId?: string;
+
+  constructor(code: string, message: string, requestId?: string) {
+    super(message);
+    this.name = 'MarketoApiError';
+    this.code = code;
+    this.requestId = requestId;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_MARKETO_CODES.has(this.code);
+  }
+}
+
+/**
+ * Error raised when the daily API quota is exhausted, which cannot be retried until it resets
+ */
+class QuotaExceededError extends MarketoApiError {
+  constructor(message: string, requestId?: string) {
+    super(DAILY_QUOTA_CODE, message, requestId);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * Error raised when Marketo rejects the access token, after which a fresh token is required
+ */
+class TokenExpiredError extends MarketoApiError {
+  constructor(code: string, message: string, requestId?: string) {
+    super(code, message, requestId);
+    this.name = 'TokenExpiredError';
+  }
+}
+
+/**
+ * Error raised when tool input is rejected before reaching Marketo; its message is safe to show
+ */
+class ToolInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolInputError';
+  }
+}
+
+/**
+ * Returns the first error from a Marketo response envelope, if the request was rejected
+ */
+function getEnvelopeError(body: any): MarketoErrorEntry | undefined {
+  if (!body || typeof body !== 'object' || body.success !== false) {
+    return undefined;
+  }
+  const errors: MarketoErrorEntry[] = Array.isArray(body.errors) ? body.errors : [];
+  // Some failures come back without any error detail
+  return errors[0] ?? { code: 'unknown', message: 'Marketo reported the request as unsuccessful' };
+}
+
+/**
+ * Parses a rejected Marketo response envelope into a typed error
+ */
+function createMarketoError(body: any): MarketoApiError | undefined {
+  const entry = getEnvelopeError(body);
+  if (!entry) {
+    return undefined;
+  }
+
+  const code = String(entry.code);
+  if (code === DAILY_QUOTA_CODE) {
+    return new QuotaExceededError(entry.message, body.requestId);
+  }
+  if (TOKEN_ERROR_CODES.has(code)) {
+    return new TokenExpiredError(code, entry.message, body.requestId);
+  }
+  return new MarketoApiError(code, entry.message, body.requestId);
+}
+
+/**
+ * Determines whether a failed request should be retried. A write that timed out or failed with
+ * a server error may already have taken effect, so writes are only retried when Marketo turned
+ * them away unprocessed.
+ */
+function isRetryableError(error: any, idempotent: boolean = true): boolean {
+  if (error instanceof MarketoApiError) {
+    return idempotent ? error.retryable : UNPROCESSED_MARKETO_CODES.has(error.code);
+  }
+  if (error.response?.status) {
+    return (idempotent ? RETRYABLE_HTTP_STATUSES : UNPROCESSED_HTTP_STATUSES).has(
+      error.response.status
+    );
+  }
+  if (!idempotent) {
+    return false;
+  }
+  // Network-level failures without a response are usually transient
+  return ['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN'].includes(error.code);
+}
+
+export {
+  MarketoApiError,
+  QuotaExceededError,
+  TokenExpiredError,
+  ToolInputError,
+  getEnvelopeError,
+  createMarketoError,
+  isRetryableError,
+};
+export type { MarketoErrorEntry };
@@ -0,0 +1,62 @@
+import { ToolInputError } from './errors.js';
+
+// A folder or program in the asset tree, as the folder endpoints describe it
+interface FolderRef {
+  id: number;
+  type: 'Folder' | 'Program';
+}
+
+interface FolderSummary extends FolderRef {
+  name: string;
+  path: string;
+  parent?: FolderRef;
+  workspace?: string;
+}
+
+/**
+ * Normalizes a folder path for comparison, so "/Marketing Activities/Events/" and
+ * "marketing activities/events" match
+ */
+function normalizeFolderPath(folderPath: string): string {
+  return folderPath
+    .split('/')
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+    .join('/')
+    .toLowerCase();
+}
+
+/**
+ * Reduces a folder from the API to its identity, name and path
+ */
+function summarizeFolder(folder: any): FolderSummary {
+  return {
+    id: folder.folderId?.id ?? folder.id,
+    type: folder.folderId?.type ?? folder.folderType ?? 'Folder',
+    name: folder.name,
+    path: folder.path,
+    parent: folder.parent ?? undefined,
+    workspace: folder.workspace ?? undefined,
+  };
+}
+
+/**
+ * Picks the folder whose path matches among candidates, such as the folders sharing its name
+ */
+function matchFolderPath(folders: FolderSummary[], folderPath: string): FolderSummary {
+  const wanted = normalizeFolderPath(folderPath);
+  const match = folders.find((folder) => normalizeFolderPath(folder.path ?? '') === wanted);
+  if (match) {
+    return match;
+  }
+
+  const similar = folders.slice(0, 5).map((folder) => `"${folder.path}"`);
+  throw new ToolInputError(
+    `No folder found at "${folderPath}".` +
+      (similar.length > 0 ? ` Folders with that name: ${similar.join(', ')}.` : '') +
+      ' Use marketo_get_folders to browse the tree.'
+  );
+}
+
+export { summarizeFolder, matchFolderPath };
+export type { FolderRef, FolderSummary };
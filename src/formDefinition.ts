@@ -0,0 +1,175 @@
+import { ToolInputError } from './errors.js';
+
+// Bumped whenever the document layout changes incompatibly
+const FORM_DEFINITION_VERSION = 1;
+
+// Field settings the add and update field endpoints accept, copied between forms
+const FIELD_SETTINGS = [
+  'label',
+  'labelWidth',
+  'fieldWidth',
+  'instructions',
+  'required',
+  'formPrefill',
+  'initiallyChecked',
+  'values',
+  'labelToRight',
+  'hintText',
+  'defaultValue',
+  'minValue',
+  'maxValue',
+  'multiSelect',
+  'maxLength',
+  'maskInput',
+  'visibleLines',
+  'validationMessage',
+] as const;
+
+// Form settings the create form endpoint accepts
+const FORM_SETTINGS = [
+  'description',
+  'language',
+  'locale',
+  'progressiveProfiling',
+  'labelPosition',
+  'fontFamily',
+  'fontSize',
+  'knownVisitor',
+  'theme',
+] as const;
+
+interface VisibilityRule {
+  ruleType: string;
+  rules?: { subjectField: string; operator: string; values: string[]; altLabel?: string }[];
+}
+
+type FormItemDefinition =
+  | {
+      kind: 'field';
+      fieldId: string;
+      settings: Record<string, unknown>;
+      visibilityRule?: VisibilityRule;
+    }
+  | { kind: 'richText'; text: string; visibilityRule?: VisibilityRule }
+  | {
+      kind: 'fieldSet';
+      label: string;
+      fields: FormItemDefinition[];
+      visibilityRule?: VisibilityRule;
+    };
+
+interface FormDefinition {
+  formatVersion: number;
+  exportedAt: string;
+  source: { instance: string; formId: number };
+  name: string;
+  settings: Record<string, unknown>;
+  submitButton: {
+    buttonPosition?: number;
+    buttonStyle?: string;
+    label?: string;
+    waitingLabel?: string;
+  };
+  thankYouList: unknown[];
+  items: FormItemDefinition[];
+}
+
+// Copies the defined keys, reading values from the field itself or its metadata
+function pickSettings(source: any, keys: readonly string[]): Record<string, unknown> {
+  const settings: Record<string, unknown> = {};
+  for (const key of keys) {
+    const value = source?.[key] ?? source?.fieldMetaData?.[key];
+    if (value !== undefined && value !== null) {
+      settings[key] = value;
+    }
+  }
+  return settings;
+}
+
+// Visibility rules only matter when they differ from always showing the field
+function pickVisibilityRule(item: any): VisibilityRule | undefined {
+  const rule = item?.visibilityRules;
+  return rule && rule.ruleType && rule.ruleType !== 'alwaysShow' ? rule : undefined;
+}
+
+function byPosition(a: any, b: any): number {
+  return (a.rowNumber ?? 0) - (b.rowNumber ?? 0) || (a.columnNumber ?? 0) - (b.columnNumber ?? 0);
+}
+
+function toItemDefinition(item: any): FormItemDefinition {
+  const visibilityRule = pickVisibilityRule(item);
+  switch (item.dataType) {
+    case 'htmltext':
+      return { kind: 'richText', text: item.text ?? '', visibilityRule };
+    case 'fieldset':
+      return {
+        kind: 'fieldSet',
+        label: item.label ?? '',
+        fields: [...(item.fields ?? [])].sort(byPosition).map(toItemDefinition),
+        visibilityRule,
+      };
+    default:
+      return {
+        kind: 'field',
+        fieldId: item.id,
+        settings: pickSettings(item, FIELD_SETTINGS),
+        visibilityRule,
+      };
+  }
+}
+
+/**
+ * Builds a portable form document from a form, its fields and its thank-you settings
+ */
+function buildFormDefinition(form: any, fields: any[], instance: string): FormDefinition {
+  return {
+    formatVersion: FORM_DEFINITION_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: { instance, formId: form.id },
+    name: form.name,
+    settings: pickSettings(form, FORM_SETTINGS),
+    submitButton: {
+      buttonPosition: form.buttonLocation ?? undefined,
+      buttonStyle: form.buttonStyle ?? undefined,
+      label: form.buttonLabel ?? undefined,
+      waitingLabel: form.waitingLabel ?? undefined,
+    },
+    thankYouList: form.thankYouList ?? [],
+    items: [...fields].sort(byPosition).map(toItemDefinition),
+  };
+}
+
+/**
+ * Checks that a parsed document is a form definition this version can recreate
+ */
+function parseFormDefinition(value: any): FormDefinition {
+  if (!value || typeof value !== 'object' || !Array.isArray(value.items)) {
+    throw new ToolInputError('Not a form definition: expected an object with an items array.');
+  }
+  if (value.formatVersion !== FORM_DEFINITION_VERSION) {
+    throw new ToolInputError(
+      `Unsupported form definition version ${value.formatVersion}; expected ${FORM_DEFINITION_VERSION}.`
+    );
+  }
+  if (typeof value.name !== 'string' || !value.name) {
+    throw new ToolInputError('Form definition is missing the form name.');
+  }
+  return value as FormDefinition;
+}
+
+/**
+ * Encodes settings as form parameters, with arrays and objects sent as JSON
+ */
+function encodeFormParams(settings: Record<string, unknown>): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(settings)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    params[key] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+  return params;
+}
+
+export { buildFormDefinition, parseFormDefinition, encodeFormParams };
+export type { FormDefinition, FormItemDefinition, VisibilityRule };
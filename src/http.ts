@@ -0,0 +1,225 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import fs from 'fs';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import {
+  MCP_API_KEYS,
+  MCP_API_KEYS_FILE,
+  MCP_HTTP_HOST,
+  MCP_HTTP_MAX_BODY_BYTES,
+  MCP_HTTP_PORT,
+  MCP_SESSION_IDLE_TIMEOUT_MS,
+} from './constants.js';
+import { createServer } from './server.js';
+
+interface ApiClient {
+  // Identifies the client in logs without revealing its key
+  label: string;
+  keyHash: Buffer;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  client: ApiClient;
+  lastSeen: number;
+  // Requests still being answered, such as a GET event stream, which keep the session in use
+  openRequests: number;
+}
+
+function hashKey(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}
+
+/**
+ * Parses API key entries, one per line or comma, each either "key" or "label:key"
+ */
+function parseApiKeys(raw: string): ApiClient[] {
+  return raw
+    .split(/[\n,]/)
+    .map((entry) => entry.trim())
+    .filter((entry) => entry && !entry.startsWith('#'))
+    .map((entry, index) => {
+      const separator = entry.indexOf(':');
+      const label = separator > 0 ? entry.slice(0, separator) : `client-${index + 1}`;
+      const key = separator > 0 ? entry.slice(separator + 1) : entry;
+      return { label, keyHash: hashKey(key) };
+    });
+}
+
+/**
+ * Loads client API keys from MARKETO_MCP_API_KEYS and the file named by MARKETO_MCP_API_KEYS_FILE
+ */
+function loadApiKeys(): ApiClient[] {
+  const clients = parseApiKeys(MCP_API_KEYS);
+  if (MCP_API_KEYS_FILE) {
+    clients.push(...parseApiKeys(fs.readFileSync(MCP_API_KEYS_FILE, 'utf-8')));
+  }
+  return clients;
+}
+
+/**
+ * Finds the client whose API key matches the request's bearer token
+ */
+function authenticate(req: IncomingMessage, clients: ApiClient[]): ApiClient | undefined {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  if (!match) {
+    return undefined;
+  }
+
+  // Comparing fixed-length hashes keeps the check constant-time
+  const presented = hashKey(match[1].trim());
+  return clients.find((client) => timingSafeEqual(client.keyHash, presented));
+}
+
+/**
+ * Error raised when a request body is larger than the server accepts, answered with 413
+ */
+class BodyTooLargeError extends Error {
+  constructor() {
+    super('Request body too large');
+    this.name = 'BodyTooLargeError';
+  }
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  if (Number(req.headers['content-length']) > MCP_HTTP_MAX_BODY_BYTES) {
+    throw new BodyTooLargeError();
+  }
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MCP_HTTP_MAX_BODY_BYTES) {
+      throw new BodyTooLargeError();
+    }
+    chunks.push(chunk);
+  }
+  return chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf-8')) : undefined;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+}
+
+/**
+ * Serves MCP over Streamable HTTP, with one server instance per client session
+ */
+async function startHttpServer(): Promise<http.Server> {
+  const clients = loadApiKeys();
+  if (clients.length === 0) {
+    throw new Error(
+      'HTTP mode requires at least one API key in MARKETO_MCP_API_KEYS or MARKETO_MCP_API_KEYS_FILE'
+    );
+  }
+
+  const sessions = new Map<string, Session>();
+
+  const handleMcpRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const client = authenticate(req, clients);
+    if (!client) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendRpcError(res, 401, 'Unauthorized: a valid API key is required');
+      return;
+    }
+
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendRpcError(res, 404, 'Session not found');
+        return;
+      }
+      // Sessions are bound to the key that opened them
+      if (session.client !== client) {
+        sendRpcError(res, 403, 'Session belongs to a different client');
+        return;
+      }
+      session.lastSeen = Date.now();
+      session.openRequests++;
+      res.on('close', () => {
+        session.openRequests--;
+        session.lastSeen = Date.now();
+      });
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendRpcError(res, 400, 'Bad Request: no valid session ID provided');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, client, lastSeen: Date.now(), openRequests: 0 });
+        console.error(`Session ${id} opened by ${client.label}`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        console.error(`Session ${transport.sessionId} closed`);
+      }
+    };
+
+    await createServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    try {
+      if (pathname === '/health' && req.method === 'GET') {
+        sendJson(res, 200, { status: 'ok', sessions: sessions.size });
+      } else if (pathname === '/mcp') {
+        await handleMcpRequest(req, res);
+      } else {
+        sendJson(res, 404, { error: 'Not found' });
+      }
+    } catch (error: any) {
+      console.error(`HTTP request failed: ${req.method} ${pathname} - ${error.message}`);
+      if (res.headersSent) {
+        return;
+      }
+      if (error instanceof BodyTooLargeError) {
+        // The rest of the body isn't read, so the connection can't be reused
+        res.setHeader('Connection', 'close');
+        sendRpcError(res, 413, error.message);
+      } else {
+        sendRpcError(res, error instanceof SyntaxError ? 400 : 500, 'Invalid request');
+      }
+    }
+  });
+
+  // Close sessions whose clients went away without ending them; a session with a stream still
+  // open is in use however long ago it started
+  const sweeper = setInterval(async () => {
+    const cutoff = Date.now() - MCP_SESSION_IDLE_TIMEOUT_MS;
+    for (const [id, session] of sessions) {
+      if (session.openRequests === 0 && session.lastSeen < cutoff) {
+        try {
+          await session.transport.close();
+        } catch (error: any) {
+          console.error(`Failed to close idle session ${id}: ${error.message}`);
+        }
+      }
+    }
+  }, 60 * 1000);
+  sweeper.unref();
+  httpServer.on('close', () => clearInterval(sweeper));
+
+  await new Promise<void>((resolve) => httpServer.listen(MCP_HTTP_PORT, MCP_HTTP_HOST, resolve));
+  console.error(`Marketo MCP server listening on http://${MCP_HTTP_HOST}:${MCP_HTTP_PORT}/mcp`);
+  return httpServer;
+}
+
+export { startHttpServer };
@@ -0,0 +1,144 @@
+interface LeadField {
+  name: string;
+  displayName: string;
+  dataType: string;
+  length?: number;
+  updateable: boolean;
+}
+
+interface LeadFieldIssue {
+  record: number;
+  field: string;
+  problem: 'unknown' | 'read_only' | 'type_mismatch' | 'too_long';
+  message: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Extracts the field catalog from a describe2.json response
+ */
+function buildFieldCatalog(response: any): LeadField[] {
+  const fields: any[] = response?.result?.[0]?.fields ?? [];
+  return fields.map((field) => ({
+    name: field.name,
+    displayName: field.displayName,
+    dataType: field.dataType,
+    length: field.length ?? undefined,
+    updateable: field.updateable !== false,
+  }));
+}
+
+/**
+ * Checks that a value can be stored in a field of the given Marketo data type
+ */
+function matchesDataType(value: unknown, dataType: string): boolean {
+  if (value === null) {
+    // Null clears the field regardless of type
+    return true;
+  }
+
+  switch (dataType) {
+    case 'integer':
+      return value !== '' && Number.isInteger(typeof value === 'string' ? Number(value) : value);
+    case 'float':
+    case 'currency':
+    case 'percent':
+      return (
+        (typeof value === 'number' || typeof value === 'string') &&
+        value !== '' &&
+        Number.isFinite(Number(value))
+      );
+    case 'boolean':
+      return typeof value === 'boolean' || value === 'true' || value === 'false';
+    case 'date':
+      return typeof value === 'string' && DATE_PATTERN.test(value);
+    case 'datetime':
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+    case 'email':
+      return typeof value === 'string' && value.includes('@');
+    default:
+      return typeof value === 'string' || typeof value === 'number';
+  }
+}
+
+/**
+ * Validates records against a field catalog before they are sent to Marketo
+ */
+function validateRecords(
+  records: Record<string, unknown>[],
+  catalog: LeadField[],
+  keyFields: string[],
+  describeTool: string
+): LeadFieldIssue[] {
+  const byName = new Map(catalog.map((field) => [field.name, field]));
+  const issues: LeadFieldIssue[] = [];
+
+  records.forEach((record, index) => {
+    for (const [name, value] of Object.entries(record)) {
+      if (value === undefined) {
+        continue;
+      }
+
+      const field = byName.get(name);
+      if (!field) {
+        const suggestion = catalog.find((f) => f.name.toLowerCase() === name.toLowerCase());
+        issues.push({
+          record: index,
+          field: name,
+          problem: 'unknown',
+          message: suggestion
+            ? `Unknown field. Did you mean "${suggestion.name}"?`
+            : `Unknown field. Use ${describeTool} to list valid REST field names.`,
+        });
+        continue;
+      }
+
+      // Key fields identify the record, so they are allowed even when read-only
+      if (!field.updateable && !keyFields.includes(name)) {
+        issues.push({
+          record: index,
+          field: name,
+          problem: 'read_only',
+          message: `${field.displayName} is read-only.`,
+        });
+        continue;
+      }
+
+      if (!matchesDataType(value, field.dataType)) {
+        issues.push({
+          record: index,
+          field: name,
+          problem: 'type_mismatch',
+          message: `Expected a ${field.dataType} value.`,
+        });
+        continue;
+      }
+
+      if (field.length && typeof value === 'string' && value.length > field.length) {
+        issues.push({
+          record: index,
+          field: name,
+          problem: 'too_long',
+          message: `Value is ${value.length} characters, but ${field.displayName} allows ${field.length}.`,
+        });
+      }
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Validates lead records against the lead field catalog
+ */
+function validateLeadRecords(
+  records: Record<string, unknown>[],
+  catalog: LeadField[],
+  lookupField: string
+): LeadFieldIssue[] {
+  return validateRecords(records, catalog, [lookupField], 'marketo_describe_leads');
+}
+
+export { buildFieldCatalog, validateRecords, validateLeadRecords };
+export type { LeadField, LeadFieldIssue };
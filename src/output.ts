@@ -0,0 +1,169 @@
+import { OutputFormat } from './constants.js';
+import { toCsv } from './csv.js';
+
+interface OutputOptions {
+  // Record fields to keep, with dots reaching into nested objects such as "folder.value"
+  fields?: string[];
+  format: OutputFormat;
+  // Longest text returned before the records are cut down to fit
+  maxChars: number;
+  // How the tool pages through results, so a cut-down result can say how to fetch the rest
+  paging?: 'offset' | 'token';
+}
+
+// Envelope fields that only matter when debugging a call; a batched call's requestIds are kept
+// with its batch count
+const ENVELOPE_FIELDS = new Set(['success', 'requestId', 'result']);
+
+// Room kept for the summary and paging lines when records are cut to fit the budget, at most
+// half of it so small budgets still leave room for records
+const SUMMARY_RESERVE_CHARS = 600;
+
+function getPath(record: any, fieldPath: string): unknown {
+  return fieldPath.split('.').reduce((value, key) => value?.[key], record);
+}
+
+function projectRecord(record: any, fields: string[]): Record<string, unknown> {
+  return Object.fromEntries(
+    fields
+      .map((field) => [field, getPath(record, field)])
+      .filter(([, value]) => value !== undefined)
+  );
+}
+
+// Column order follows the first record that has each field
+function columnsOf(rows: Record<string, unknown>[]): string[] {
+  return [...new Set(rows.flatMap((row) => Object.keys(row)))];
+}
+
+function cellText(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function withoutEmptyValues(row: any): any {
+  if (!row || typeof row !== 'object' || Array.isArray(row)) {
+    return row;
+  }
+  return Object.fromEntries(
+    Object.entries(row).filter(([, value]) => value !== null && value !== undefined && value !== '')
+  );
+}
+
+function renderRows(rows: any[], format: OutputFormat): string {
+  const tabular = rows.every((row) => row && typeof row === 'object' && !Array.isArray(row));
+  if ((format === 'csv' || format === 'markdown') && tabular) {
+    if (rows.length === 0) {
+      return 'No records.';
+    }
+    const columns = columnsOf(rows);
+    if (format === 'csv') {
+      return toCsv([columns, ...rows.map((row) => columns.map((column) => row[column]))]).trimEnd();
+    }
+    const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+    return [
+      `| ${columns.map(escape).join(' | ')} |`,
+      `| ${columns.map(() => '---').join(' | ')} |`,
+      ...rows.map(
+        (row) => `| ${columns.map((column) => escape(cellText(row[column]))).join(' | ')} |`
+      ),
+    ].join('\n');
+  }
+  if (format === 'compact') {
+    return rows.map((row) => JSON.stringify(withoutEmptyValues(row))).join('\n');
+  }
+  return JSON.stringify(rows, null, 2);
+}
+
+// The largest number of leading records whose rendering fits in the budget
+function fitRows(rows: any[], format: OutputFormat, budget: number): number {
+  let low = 0;
+  let high = rows.length;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (renderRows(rows.slice(0, middle), format).length <= budget) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+}
+
+// How to reach the records left out of a cut-down page, in the tool's own paging terms
+function pagingHint(paging: OutputOptions['paging'], shown: number): string {
+  if (paging === 'offset') {
+    return `, or fetch smaller pages with maxReturn; the next record is at this call's offset plus ${shown}.`;
+  }
+  if (paging === 'token') {
+    return (
+      ', or fetch smaller pages with batchSize; nextPageToken continues after every record ' +
+      'fetched, including the ones not shown.'
+    );
+  }
+  return '.';
+}
+
+/**
+ * Renders a Marketo response as tool output: the records from result, projected and formatted,
+ * followed by paging details and warnings, summarized when longer than the character budget
+ */
+function renderResponse(response: any, options: OutputOptions): string {
+  if (!response || typeof response !== 'object' || !Array.isArray(response.result)) {
+    const text =
+      options.format === 'compact' ? JSON.stringify(response) : JSON.stringify(response, null, 2);
+    return text.length <= options.maxChars
+      ? text
+      : `${text.slice(0, options.maxChars)}\n... (showing ${options.maxChars} of ${text.length} characters; raise maxChars to see more)`;
+  }
+
+  const rows = options.fields
+    ? response.result.map((record: any) => projectRecord(record, options.fields!))
+    : response.result;
+  const meta = Object.entries(response)
+    .filter(([key, value]) => !ENVELOPE_FIELDS.has(key) && value !== undefined)
+    .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}`);
+
+  const body = renderRows(rows, options.format);
+  if (body.length + meta.join('\n').length <= options.maxChars) {
+    return [body, ...(meta.length > 0 ? ['', ...meta] : [])].join('\n');
+  }
+
+  const reserve = Math.min(SUMMARY_RESERVE_CHARS, Math.floor(options.maxChars / 2));
+  // At least one record is shown, even when it alone is over the budget
+  const shown = Math.min(
+    rows.length,
+    Math.max(1, fitRows(rows, options.format, options.maxChars - reserve))
+  );
+  return [
+    renderRows(rows.slice(0, shown), options.format),
+    '',
+    `Showing the first ${shown} of ${rows.length} records: the full output is ${body.length} characters, over the ${options.maxChars} character budget.`,
+    'To see the rest, request fewer fields with `fields`, use the "compact" or "csv" format or raise `maxChars`' +
+      pagingHint(options.paging, shown),
+    ...meta,
+  ].join('\n');
+}
+
+/**
+ * Builds the structured content of a tool result: the records from result, projected, with the
+ * paging details beside them, or the whole value under data when it isn't a Marketo response
+ */
+function structureResponse(response: any, fields?: string[]): Record<string, unknown> {
+  if (!response || typeof response !== 'object' || !Array.isArray(response.result)) {
+    return { data: response };
+  }
+
+  const meta = Object.entries(response).filter(([key]) => !ENVELOPE_FIELDS.has(key));
+  return {
+    records: fields
+      ? response.result.map((record: any) => projectRecord(record, fields))
+      : response.result,
+    ...Object.fromEntries(meta),
+  };
+}
+
+export { renderResponse, structureResponse };
+export type { OutputOptions };
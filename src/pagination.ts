@@ -0,0 +1,178 @@
+// Upper bound on pages fetched in one call, since token-paged endpoints can return empty pages
+const MAX_PAGES = 200;
+
+interface PaginatedResponse {
+  success: true;
+  result: any[];
+  recordCount: number;
+  pagesFetched: number;
+  // True when more records may exist beyond the ones returned
+  truncated: boolean;
+  // Where to resume when the result was truncated
+  nextOffset?: number;
+  nextPageToken?: string;
+  warnings?: string[];
+}
+
+interface OffsetPagingOptions {
+  fetchAll: boolean;
+  offset: number;
+  pageSize: number;
+  maxRecords: number;
+}
+
+interface TokenPagingOptions {
+  fetchAll: boolean;
+  nextPageToken?: string;
+  pageSize: number;
+  maxRecords: number;
+}
+
+/**
+ * Fetches one page, or with fetchAll every page up to maxRecords, from a maxReturn/offset endpoint
+ */
+async function paginateByOffset(
+  fetchPage: (offset: number, maxReturn: number) => Promise<any>,
+  options: OffsetPagingOptions
+): Promise<any> {
+  if (!options.fetchAll) {
+    return fetchPage(options.offset, options.pageSize);
+  }
+
+  const records: any[] = [];
+  const warnings = new Set<string>();
+  let offset = options.offset;
+  let pagesFetched = 0;
+  let truncated = false;
+
+  for (;;) {
+    const requested = Math.min(options.pageSize, options.maxRecords - records.length);
+    const page = await fetchPage(offset, requested);
+    const results: any[] = page.result ?? [];
+    pagesFetched++;
+    records.push(...results);
+    offset += results.length;
+    (page.warnings ?? []).forEach((warning: string) => warnings.add(warning));
+
+    // A short page means the endpoint has run out of records
+    if (results.length < requested) {
+      break;
+    }
+    if (records.length >= options.maxRecords || pagesFetched >= MAX_PAGES) {
+      truncated = true;
+      break;
+    }
+  }
+
+  const merged: PaginatedResponse = {
+    success: true,
+    result: records,
+    recordCount: records.length,
+    pagesFetched,
+    truncated,
+  };
+  if (truncated) {
+    merged.nextOffset = offset;
+  }
+  if (warnings.size > 0 && records.length === 0) {
+    merged.warnings = [...warnings];
+  }
+  return merged;
+}
+
+/**
+ * Fetches one page, or with fetchAll every page up to maxRecords, from a nextPageToken endpoint
+ */
+async function paginateByToken(
+  fetchPage: (nextPageToken: string | undefined, batchSize: number) => Promise<any>,
+  options: TokenPagingOptions
+): Promise<any> {
+  if (!options.fetchAll) {
+    return fetchPage(options.nextPageToken, options.pageSize);
+  }
+
+  const records: any[] = [];
+  let nextPageToken = options.nextPageToken;
+  let pagesFetched = 0;
+  let truncated = false;
+
+  for (;;) {
+    const batchSize = Math.min(options.pageSize, options.maxRecords - records.length);
+    const page = await fetchPage(nextPageToken, batchSize);
+    const results: any[] = page.result ?? [];
+    pagesFetched++;
+    records.push(...results);
+
+    // Endpoints without moreResult signal the end with an empty page or no nextPageToken
+    const hasMore = page.moreResult ?? (results.length > 0 && Boolean(page.nextPageToken));
+    if (!hasMore || !page.nextPageToken || page.nextPageToken === nextPageToken) {
+      break;
+    }
+    nextPageToken = page.nextPageToken;
+    if (records.length >= options.maxRecords || pagesFetched >= MAX_PAGES) {
+      truncated = true;
+      break;
+    }
+  }
+
+  const merged: PaginatedResponse = {
+    success: true,
+    result: records,
+    recordCount: records.length,
+    pagesFetched,
+    truncated,
+  };
+  if (truncated) {
+    merged.nextPageToken = nextPageToken;
+  }
+  return merged;
+}
+
+/**
+ * Splits items into batches no larger than size, for endpoints that cap inputs per call
+ */
+function chunk<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
+
+/**
+ * Combines the responses of one call split into batches, keeping every record and request ID.
+ * Paged batches add up their counts, and the whole is truncated, or has more results, when any
+ * batch was or had; a batch's nextPageToken isn't kept, since it would only resume that batch.
+ */
+function mergeBatchResponses(responses: any[]): any {
+  if (responses.length === 1) {
+    return responses[0];
+  }
+
+  const warnings = [...new Set(responses.flatMap((response) => response.warnings ?? []))];
+  const merged: any = {
+    success: true,
+    // Null for a batch paged through several requests
+    requestIds: responses.map((response) => response.requestId ?? null),
+    batches: responses.length,
+    result: responses.flatMap((response) => response.result ?? []),
+  };
+  if (responses.some((response) => response.truncated !== undefined)) {
+    merged.recordCount = merged.result.length;
+    merged.pagesFetched = responses.reduce(
+      (sum, response) => sum + (response.pagesFetched ?? 0),
+      0
+    );
+    merged.truncated = responses.some((response) => response.truncated);
+  }
+  if (responses.some((response) => response.moreResult)) {
+    merged.moreResult = true;
+  }
+  if (warnings.length > 0) {
+    merged.warnings = warnings;
+  }
+  return merged;
+}
+
+export { paginateByOffset, paginateByToken, chunk, mergeBatchResponses };
+export type { PaginatedResponse, OffsetPagingOptions, TokenPagingOptions };
@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+
+// How a tool affects Marketo data: destructive tools delete, remove or approve
+type ToolAccess = 'read' | 'write' | 'destructive';
+
+// Groups of related tools that the include/exclude lists can name instead of single tools
+const TOOL_CATEGORIES = [
+  'folders',
+  'forms',
+  'smartlists',
+  'channels',
+  'emails',
+  'programs',
+  'campaigns',
+  'leads',
+  'activities',
+  'lists',
+  'customobjects',
+  'bulk-export',
+  'bulk-import',
+  'instances',
+  'cache',
+  'audit',
+] as const;
+type ToolCategory = (typeof TOOL_CATEGORIES)[number];
+
+interface ToolPolicy {
+  readOnly: boolean;
+  // Tool names or categories; when non-empty only these tools are registered
+  include: string[];
+  // Tool names or categories that are never registered
+  exclude: string[];
+}
+
+/**
+ * Decides whether a tool is registered under the policy
+ */
+function isToolEnabled(
+  policy: ToolPolicy,
+  name: string,
+  category: ToolCategory,
+  access: ToolAccess
+): boolean {
+  if (policy.readOnly && access !== 'read') {
+    return false;
+  }
+  if (
+    policy.include.length > 0 &&
+    !policy.include.some((entry) => entry === name || entry === category)
+  ) {
+    return false;
+  }
+  return !policy.exclude.some((entry) => entry === name || entry === category);
+}
+
+/**
+ * Returns include/exclude entries that match neither a known tool nor a category
+ */
+function findUnknownPolicyEntries(policy: ToolPolicy, toolNames: Iterable<string>): string[] {
+  const known = new Set<string>([...toolNames, ...TOOL_CATEGORIES]);
+  return [...policy.include, ...policy.exclude].filter((entry) => !known.has(entry));
+}
+
+interface PendingConfirmation {
+  toolName: string;
+  instance: string;
+  // The HTTP session the token was issued to; unset over stdio, where there is one client
+  session?: string;
+  args: string;
+  // The preview shown with the token, for tools that must run exactly what it described
+  preview?: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Issues short-lived, single-use tokens that confirm one destructive call with exact arguments,
+ * made in the session the token was issued to
+ */
+class ConfirmationStore {
+  private pending = new Map<string, PendingConfirmation>();
+
+  constructor(private ttlMs: number) {}
+
+  // Creates a token for this exact call, keeping the preview shown with it
+  issue(
+    toolName: string,
+    instance: string,
+    session: string | undefined,
+    args: unknown,
+    preview?: unknown
+  ): { token: string; expiresAt: number } {
+    this.prune();
+    const token = crypto.randomBytes(6).toString('hex');
+    const expiresAt = Date.now() + this.ttlMs;
+    this.pending.set(token, {
+      toolName,
+      instance,
+      session,
+      args: JSON.stringify(args),
+      preview,
+      expiresAt,
+    });
+    return { token, expiresAt };
+  }
+
+  /**
+   * Uses up a token, returning its preview when it was issued for this exact call in this
+   * session and is still valid, or undefined when it wasn't
+   */
+  consume(
+    token: string,
+    toolName: string,
+    instance: string,
+    session: string | undefined,
+    args: unknown
+  ): { preview?: unknown } | undefined {
+    this.prune();
+    const pending = this.pending.get(token);
+    if (
+      !pending ||
+      pending.toolName !== toolName ||
+      pending.instance !== instance ||
+      pending.session !== session ||
+      pending.args !== JSON.stringify(args)
+    ) {
+      return undefined;
+    }
+    this.pending.delete(token);
+    return { preview: pending.preview };
+  }
+
+  private prune() {
+    const now = Date.now();
+    for (const [token, pending] of this.pending) {
+      if (pending.expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
+
+export { TOOL_CATEGORIES, isToolEnabled, findUnknownPolicyEntries, ConfirmationStore };
+export type { ToolAccess, ToolCategory, ToolPolicy };
@@ -0,0 +1,116 @@
+import { isRetryableError } from './errors.js';
+
+interface SchedulerOptions {
+  // Maximum number of requests allowed to start within one window
+  rateLimit: number;
+  // Length of the sliding window in milliseconds
+  rateWindowMs: number;
+  // Maximum number of requests in flight at the same time
+  maxConcurrency: number;
+  // Number of retries after the first attempt
+  maxRetries: number;
+  // Base delay for exponential backoff in milliseconds
+  baseDelayMs: number;
+  // Upper bound for a single backoff delay in milliseconds
+  maxDelayMs: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Shared scheduler that keeps requests within Marketo's rate and concurrency limits
+ * and retries transient failures with exponential backoff and jitter.
+ */
+class RequestScheduler {
+  private options: SchedulerOptions;
+  private active: number = 0;
+  private startTimes: number[] = [];
+  private waiters: Array<() => void> = [];
+
+  constructor(options: SchedulerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Runs a task once a slot is free. Tasks that aren't idempotent, like most POSTs, are only
+   * retried when the failure shows they weren't processed.
+   */
+  async schedule<T>(task: () => Promise<T>, idempotent: boolean = true): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire();
+      let delay: number;
+      try {
+        return await task();
+      } catch (error: any) {
+        if (attempt >= this.options.maxRetries || !isRetryableError(error, idempotent)) {
+          throw error;
+        }
+        delay = this.backoffDelay(attempt, error);
+      } finally {
+        this.release();
+      }
+      console.error(`Retrying request in ${delay}ms (attempt ${attempt + 2})`);
+      await sleep(delay);
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    for (;;) {
+      if (this.active >= this.options.maxConcurrency) {
+        await new Promise<void>((resolve) => this.waiters.push(resolve));
+        continue;
+      }
+
+      const wait = this.windowWait();
+      if (wait > 0) {
+        await sleep(wait);
+        continue;
+      }
+
+      this.active++;
+      this.startTimes.push(Date.now());
+      return;
+    }
+  }
+
+  private release(): void {
+    this.active--;
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+    }
+  }
+
+  /**
+   * Returns how long to wait before another request fits in the sliding window
+   */
+  private windowWait(): number {
+    const now = Date.now();
+    const windowStart = now - this.options.rateWindowMs;
+    while (this.startTimes.length > 0 && this.startTimes[0] <= windowStart) {
+      this.startTimes.shift();
+    }
+
+    if (this.startTimes.length < this.options.rateLimit) {
+      return 0;
+    }
+    return this.startTimes[0] - windowStart;
+  }
+
+  private backoffDelay(attempt: number, error: any): number {
+    // Honour Retry-After when the server tells us how long to wait
+    const retryAfter = Number(error.response?.headers?.['retry-after']);
+    if (Number.isFinite(retryAfter) && retryAfter > 0) {
+      return Math.min(retryAfter * 1000, this.options.maxDelayMs);
+    }
+
+    // Full jitter spreads retries from concurrent callers apart
+    const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+}
+
+export { RequestScheduler };
+export type { SchedulerOptions };
@@ -0,0 +1,218 @@
+import { AnyZodObject, z, ZodError, ZodTypeAny } from 'zod';
+
+// Fields Marketo documents for each entity; every schema lets through fields it doesn't list,
+// such as custom lead fields, so only a changed type or a missing ID counts as drift
+
+const marketoError = z.object({
+  code: z.union([z.string(), z.number()]),
+  message: z.string().optional(),
+});
+
+// The envelope every REST and asset response shares
+const marketoResponseSchema = z
+  .object({
+    requestId: z.string().optional(),
+    success: z.boolean(),
+    result: z.array(z.unknown()).optional(),
+    moreResult: z.boolean().optional(),
+    nextPageToken: z.string().optional(),
+    warnings: z.array(z.unknown()).optional(),
+    errors: z.array(marketoError).optional(),
+  })
+  .passthrough();
+
+const folderRefSchema = z
+  .object({
+    type: z.string(),
+    value: z.number().optional(),
+    id: z.number().optional(),
+    folderName: z.string().nullish(),
+  })
+  .passthrough();
+
+const leadRecordSchema = z
+  .object({
+    id: z.number(),
+    email: z.string().nullish(),
+    firstName: z.string().nullish(),
+    lastName: z.string().nullish(),
+    createdAt: z.string().nullish(),
+    updatedAt: z.string().nullish(),
+  })
+  .passthrough();
+
+const activityRecordSchema = z
+  .object({
+    id: z.number(),
+    marketoGUID: z.string().nullish(),
+    leadId: z.number(),
+    activityDate: z.string(),
+    activityTypeId: z.number(),
+    campaignId: z.number().nullish(),
+    primaryAttributeValueId: z.union([z.number(), z.string()]).nullish(),
+    primaryAttributeValue: z.string().nullish(),
+    attributes: z.array(z.object({ name: z.string(), value: z.unknown() }).passthrough()).nullish(),
+  })
+  .passthrough();
+
+const formRecordSchema = z
+  .object({
+    id: z.number(),
+    name: z.string(),
+    description: z.string().nullish(),
+    status: z.string().nullish(),
+    url: z.string().nullish(),
+    folder: folderRefSchema.nullish(),
+    createdAt: z.string().nullish(),
+    updatedAt: z.string().nullish(),
+  })
+  .passthrough();
+
+const smartListRecordSchema = z
+  .object({
+    id: z.number(),
+    name: z.string(),
+    description: z.string().nullish(),
+    url: z.string().nullish(),
+    folder: folderRefSchema.nullish(),
+    createdAt: z.string().nullish(),
+    updatedAt: z.string().nullish(),
+  })
+  .passthrough();
+
+const channelRecordSchema = z
+  .object({
+    id: z.number(),
+    name: z.string(),
+    applicableProgramType: z.string().nullish(),
+    progressionStatuses: z
+      .array(
+        z
+          .object({
+            name: z.string(),
+            step: z.number().nullish(),
+            success: z.boolean().nullish(),
+            hidden: z.boolean().nullish(),
+          })
+          .passthrough()
+      )
+      .nullish(),
+    createdAt: z.string().nullish(),
+    updatedAt: z.string().nullish(),
+  })
+  .passthrough();
+
+// Static lists, from both the REST lists endpoints and the asset static list endpoints
+const staticListRecordSchema = z
+  .object({
+    id: z.number(),
+    name: z.string(),
+    description: z.string().nullish(),
+    programName: z.string().nullish(),
+    workspaceName: z.string().nullish(),
+    folder: folderRefSchema.nullish(),
+    createdAt: z.string().nullish(),
+    updatedAt: z.string().nullish(),
+  })
+  .passthrough();
+
+// Any other record, checked only for being an object
+const marketoRecordSchema = z.object({}).passthrough();
+
+/**
+ * Builds the output schema tools declare: Marketo records with their paging details, or data
+ * the server assembled itself, such as dry-run reports and summaries
+ */
+function toolOutputShape(record: ZodTypeAny) {
+  return {
+    records: z.array(record).optional(),
+    // Records that didn't match the schema, returned as they came
+    invalidRecords: z.array(z.unknown()).optional(),
+    recordCount: z.number().optional(),
+    pagesFetched: z.number().optional(),
+    truncated: z.boolean().optional(),
+    moreResult: z.boolean().optional(),
+    nextPageToken: z.string().optional(),
+    nextOffset: z.number().optional(),
+    // Calls split into batches report how many were sent and the request ID of each
+    batches: z.number().optional(),
+    requestIds: z.array(z.string().nullable()).optional(),
+    // A batched write that failed part way reports the error and the input it didn't process
+    failedBatch: z.number().optional(),
+    error: z.string().optional(),
+    unprocessedInput: z.array(z.unknown()).optional(),
+    warnings: z.array(z.unknown()).optional(),
+    validationWarnings: z.array(z.string()).optional(),
+    data: z.unknown().optional(),
+  };
+}
+
+// Most problems reported for one record
+const MAX_ISSUES_PER_RECORD = 3;
+
+function describeIssues(error: ZodError): string {
+  return error.issues
+    .slice(0, MAX_ISSUES_PER_RECORD)
+    .map((issue) => `${issue.path.join('.') || '(record)'}: ${issue.message}`)
+    .join('; ');
+}
+
+/**
+ * Checks a response against the Marketo envelope, returning a warning when it doesn't match
+ */
+function checkEnvelope(response: unknown): string[] {
+  const parsed = marketoResponseSchema.safeParse(response);
+  return parsed.success
+    ? []
+    : [`The response envelope does not match the expected schema: ${describeIssues(parsed.error)}`];
+}
+
+/**
+ * Splits records into those matching the schema and those that don't, with a warning for each
+ * mismatch. Records are returned unchanged, not as parsed.
+ */
+function checkRecords(
+  records: unknown[],
+  schema: AnyZodObject
+): { valid: unknown[]; invalid: unknown[]; warnings: string[] } {
+  const valid: unknown[] = [];
+  const invalid: unknown[] = [];
+  const warnings: string[] = [];
+
+  records.forEach((record, index) => {
+    const parsed = schema.safeParse(record);
+    if (parsed.success) {
+      valid.push(record);
+      return;
+    }
+    invalid.push(record);
+    warnings.push(
+      `Record ${index} does not match the expected schema: ${describeIssues(parsed.error)}`
+    );
+  });
+
+  return { valid, invalid, warnings };
+}
+
+type MarketoResponse = z.infer<typeof marketoResponseSchema>;
+type Lead = z.infer<typeof leadRecordSchema>;
+type Activity = z.infer<typeof activityRecordSchema>;
+type Form = z.infer<typeof formRecordSchema>;
+type SmartList = z.infer<typeof smartListRecordSchema>;
+type Channel = z.infer<typeof channelRecordSchema>;
+type StaticList = z.infer<typeof staticListRecordSchema>;
+
+export {
+  marketoResponseSchema,
+  leadRecordSchema,
+  activityRecordSchema,
+  formRecordSchema,
+  smartListRecordSchema,
+  channelRecordSchema,
+  staticListRecordSchema,
+  marketoRecordSchema,
+  toolOutputShape,
+  checkEnvelope,
+  checkRecords,
+};
+export type { MarketoResponse, Lead, Activity, Form, SmartList, Channel, StaticList };
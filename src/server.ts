@@ -0,0 +1,5113 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { AnyZodObject, z, ZodRawShape, ZodTypeAny } from 'zod';
+import fs from 'fs';
+import path from 'path';
+import {
+  MARKETO_DEFAULT_INSTANCE,
+  MARKETO_EXPORT_DIR,
+  MARKETO_IMPORT_DIR,
+  FETCH_ALL_DEFAULT_MAX_RECORDS,
+  FETCH_ALL_MAX_RECORDS,
+  LEAD_BATCH_SIZE,
+  ACTIVITY_LEAD_BATCH_SIZE,
+  MERGE_MAX_LEADS,
+  MARKETO_READ_ONLY,
+  MARKETO_TOOLS_INCLUDE,
+  MARKETO_TOOLS_EXCLUDE,
+  MARKETO_REQUIRE_CONFIRMATION,
+  MARKETO_DRY_RUN,
+  MARKETO_AUDIT_LOG_PATH,
+  MARKETO_AUDIT_LOG_MAX_BYTES,
+  MARKETO_AUDIT_LOG_MAX_FILES,
+  CONFIRMATION_TOKEN_TTL_MS,
+  OUTPUT_FORMATS,
+  MARKETO_OUTPUT_FORMAT,
+  MARKETO_OUTPUT_MAX_CHARS,
+} from './constants.js';
+import { OutputOptions, renderResponse, structureResponse } from './output.js';
+import {
+  activityRecordSchema,
+  channelRecordSchema,
+  checkEnvelope,
+  checkRecords,
+  formRecordSchema,
+  leadRecordSchema,
+  marketoRecordSchema,
+  smartListRecordSchema,
+  staticListRecordSchema,
+  toolOutputShape,
+} from './schemas.js';
+import { MarketoClient, RecordedWrite, getClient, listClients, recordWrites } from './client.js';
+import { withoutCache } from './cache.js';
+import { AuditLog, collectRecordIds, sanitizeArguments } from './audit.js';
+import { FolderRef, FolderSummary, matchFolderPath, summarizeFolder } from './folders.js';
+import {
+  FormDefinition,
+  FormItemDefinition,
+  VisibilityRule,
+  buildFormDefinition,
+  encodeFormParams,
+  parseFormDefinition,
+} from './formDefinition.js';
+import {
+  DUPLICATE_MATCH_RULES,
+  MERGE_WINNER_RULES,
+  MergePlan,
+  MergeWinnerRule,
+  describeDifferingFields,
+  findDuplicateGroups,
+  planMerge,
+} from './duplicates.js';
+import {
+  CustomObjectSchema,
+  buildCustomObjectSchema,
+  checkFilterType,
+  findMissingKeys,
+  keyFieldsFor,
+  parseResourceKey,
+  recordKey,
+} from './customObjects.js';
+import {
+  DryRunReport,
+  PlannedRequest,
+  describeFieldChanges,
+  describeLeadChanges,
+} from './dryRun.js';
+import {
+  ConfirmationStore,
+  ToolAccess,
+  ToolCategory,
+  ToolPolicy,
+  findUnknownPolicyEntries,
+  isToolEnabled,
+} from './policy.js';
+import {
+  MarketoApiError,
+  QuotaExceededError,
+  TokenExpiredError,
+  ToolInputError,
+} from './errors.js';
+import {
+  BULK_EXPORT_TYPES,
+  BULK_IMPORT_MAX_BYTES,
+  BULK_JOB_DEFAULT_WAIT_SECONDS,
+  BulkExportJob,
+  BulkExportQuota,
+  BulkExportType,
+  BulkImportBatch,
+  FINISHED_IMPORT_STATUSES,
+  FINISHED_JOB_STATUSES,
+  parseImportReport,
+  prepareImportCsv,
+  resolveExportPath,
+  resolveImportPath,
+  summarizeBulkExportQuota,
+  waitForJob,
+} from './bulk.js';
+import { summarizeCsvFile } from './csv.js';
+import { chunk, mergeBatchResponses, paginateByOffset, paginateByToken } from './pagination.js';
+import {
+  LeadField,
+  buildFieldCatalog,
+  validateLeadRecords,
+  validateRecords,
+} from './leadSchema.js';
+import {
+  ActivityType,
+  buildActivityTypeCatalog,
+  enrichActivities,
+  resolveActivityTypeIds,
+} from './activityTypes.js';
+
+// Longest Marketo error message passed back to the client
+const MAX_ERROR_MESSAGE_LENGTH = 200;
+
+/**
+ * Sanitizes error messages to prevent leaking sensitive information
+ */
+function sanitizeErrorMessage(error: any): string {
+  if (error instanceof ToolInputError) {
+    return error.message;
+  }
+
+  if (error instanceof QuotaExceededError) {
+    return 'Daily Marketo API quota exhausted. Requests will succeed again after the quota resets at midnight (US Central time).';
+  }
+
+  if (error instanceof TokenExpiredError) {
+    return `Marketo rejected the access token (${error.code}) even after refreshing it. Please check your Marketo credentials.`;
+  }
+
+  if (error instanceof MarketoApiError) {
+    switch (error.code) {
+      case '606':
+      case '615':
+        return `Marketo rate limit exceeded (${error.code}) after retrying. Please try again later.`;
+      default:
+        if (error.retryable) {
+          return `Marketo temporarily unable to process the request (${error.code}). Please try again later.`;
+        }
+        // Marketo's own messages describe the problem without echoing request data
+        return `Marketo error ${error.code}: ${error.message
+          .replace(/\s+/g, ' ')
+          .slice(0, MAX_ERROR_MESSAGE_LENGTH)}`;
+    }
+  }
+
+  // Don't expose raw API responses which may contain sensitive data
+  if (error.response?.status) {
+    const status = error.response.status;
+    const statusText = error.response.statusText || 'Unknown error';
+
+    // Provide generic messages for common error codes
+    switch (status) {
+      case 401:
+        return 'Authentication failed. Please check your Marketo credentials.';
+      case 403:
+        return 'Access denied. Insufficient permissions for this operation.';
+      case 404:
+        return 'Resource not found.';
+      case 429:
+        return 'Rate limit exceeded. Please try again later.';
+      case 500:
+      case 502:
+      case 503:
+        return 'Marketo service temporarily unavailable. Please try again later.';
+      default:
+        return `Request failed with status ${status}: ${statusText}`;
+    }
+  }
+
+  // For network errors, provide a generic message
+  if (error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND') {
+    return 'Unable to connect to Marketo. Please check your network connection and the instance base URL.';
+  }
+
+  if (error.code === 'ENOENT') {
+    return 'File not found.';
+  }
+
+  if (error.code === 'ECONNABORTED' || error.message?.includes('timeout')) {
+    return 'Request timed out. Please try again.';
+  }
+
+  // Fallback to a generic error message
+  return 'An error occurred while processing your request.';
+}
+
+/**
+ * Lists the records a batch endpoint skipped or failed, along with Marketo's reasons
+ */
+function describeRecordFailures(response: any): { lines: string[]; total: number } {
+  const records: any[] = Array.isArray(response?.result) ? response.result : [];
+  const lines: string[] = [];
+
+  records.forEach((record, index) => {
+    if (!Array.isArray(record?.reasons) || record.reasons.length === 0) {
+      return;
+    }
+    const id = record.id ?? record.marketoGUID;
+    const label = id !== undefined ? `id ${id}` : `input ${record.seq ?? index}`;
+    const reasons = record.reasons
+      .map((reason: any) => `${reason.code} ${reason.message}`)
+      .join('; ');
+    lines.push(`- Record ${index} (${label}) ${record.status ?? 'failed'}: ${reasons}`);
+  });
+
+  return { lines, total: records.length };
+}
+
+/**
+ * Builds a tool result from a Marketo response, surfacing per-record failures
+ */
+function formatToolResponse(response: any, output: Partial<OutputOptions> = {}): CallToolResult {
+  const content: CallToolResult['content'] = [];
+  const failures = describeRecordFailures(response);
+
+  if (failures.lines.length > 0) {
+    content.push({
+      type: 'text',
+      text: `${failures.lines.length} of ${failures.total} records were not processed:\n${failures.lines.join('\n')}`,
+    });
+  }
+  if (Array.isArray(response?.unprocessedInput)) {
+    content.push({
+      type: 'text',
+      text:
+        `Batch ${response.failedBatch} failed: ${response.error}\n` +
+        `The earlier batches were applied; the ${response.unprocessedInput.length} records from ` +
+        'the failed batch on were not processed and are listed under unprocessedInput.',
+    });
+  }
+  content.push({
+    type: 'text',
+    text: renderResponse(response, {
+      fields: output.fields,
+      format: output.format ?? MARKETO_OUTPUT_FORMAT,
+      maxChars: output.maxChars ?? MARKETO_OUTPUT_MAX_CHARS,
+      paging: output.paging,
+    }),
+  });
+  const validationWarnings =
+    response && typeof response === 'object' && 'success' in response
+      ? checkEnvelope(response)
+      : [];
+
+  return {
+    content,
+    structuredContent: {
+      ...structureResponse(response, output.fields),
+      validationWarnings: validationWarnings.length > 0 ? validationWarnings : undefined,
+    },
+    // Only a batch where nothing succeeded counts as a failed call
+    isError: failures.total > 0 && failures.lines.length === failures.total,
+  };
+}
+
+/**
+ * Builds the result of a dry run, leading with the effects the call would have
+ */
+function formatDryRun(
+  client: MarketoClient,
+  request: PlannedRequest | PlannedRequest[],
+  details: { validation?: unknown; current?: unknown; changes?: string[] } = {}
+): CallToolResult {
+  const report: DryRunReport = {
+    dryRun: true,
+    instance: client.name,
+    request,
+    validation: details.validation,
+    current: details.current,
+    changes: details.changes ?? [],
+  };
+  const summary = ['Dry run: nothing was sent to Marketo.', ...report.changes.map((c) => `- ${c}`)];
+
+  return formatToolData(report, [summary.join('\n')]);
+}
+
+/**
+ * Builds a tool result from data the server assembled itself, such as summaries and reports,
+ * after any notes
+ */
+function formatToolData(data: unknown, notes: string[] = []): CallToolResult {
+  return {
+    content: [
+      ...notes.map((text) => ({ type: 'text' as const, text })),
+      { type: 'text', text: JSON.stringify(data, null, 2) },
+    ],
+    structuredContent: { data },
+  };
+}
+
+/**
+ * Builds an error tool result with a message that is safe to show to the client
+ */
+function formatToolError(error: any): CallToolResult {
+  return {
+    content: [{ type: 'text', text: `Error: ${sanitizeErrorMessage(error)}` }],
+    isError: true,
+  };
+}
+
+// Per-call settings that aren't part of a tool's own parameters
+interface ToolContext {
+  // Write tools describe the request instead of sending it
+  dryRun: boolean;
+  // For a confirmed destructive call, the preview that was shown with its token
+  confirmedPreview?: unknown;
+}
+
+type ToolHandler<Args extends ZodRawShape> = (
+  args: z.objectOutputType<Args, ZodTypeAny>,
+  client: MarketoClient,
+  context: ToolContext
+) => Promise<CallToolResult>;
+
+// Describes what a destructive call would affect, shown before it is confirmed
+type ToolPreview<Args extends ZodRawShape> = (
+  args: z.objectOutputType<Args, ZodTypeAny>,
+  client: MarketoClient
+) => Promise<unknown>;
+
+const toolPolicy: ToolPolicy = {
+  readOnly: MARKETO_READ_ONLY,
+  include: MARKETO_TOOLS_INCLUDE,
+  exclude: MARKETO_TOOLS_EXCLUDE,
+};
+
+// Every tool name seen during registration, whether or not the policy enabled it
+const knownToolNames = new Set<string>();
+
+const confirmations = new ConfirmationStore(CONFIRMATION_TOKEN_TTL_MS);
+
+// Records the tool name and checks whether the policy registers it
+function enableTool(name: string, category: ToolCategory, access: ToolAccess): boolean {
+  knownToolNames.add(name);
+  return isToolEnabled(toolPolicy, name, category, access);
+}
+
+// Rejects tools the instance's access level doesn't allow
+function checkInstanceAccess(client: MarketoClient, toolName: string, access: ToolAccess) {
+  const blocked =
+    (client.access === 'read-only' && access !== 'read') ||
+    (client.access === 'no-destructive' && access === 'destructive');
+  if (blocked) {
+    throw new ToolInputError(
+      `${toolName} is not allowed on instance "${client.name}" (access: ${client.access}).`
+    );
+  }
+}
+
+// Record schemas for tools whose results are one of the modelled entities; other tools' records
+// are only checked for being objects
+const toolRecordSchemas: Record<string, AnyZodObject> = {
+  marketo_get_forms: formRecordSchema,
+  marketo_get_form_by_id: formRecordSchema,
+  marketo_clone_form: formRecordSchema,
+  marketo_get_smart_lists: smartListRecordSchema,
+  marketo_get_smart_list_by_id: smartListRecordSchema,
+  marketo_get_channels: channelRecordSchema,
+  marketo_get_channel_by_id: channelRecordSchema,
+  marketo_get_lead_by_id: leadRecordSchema,
+  marketo_get_lead_by_email: leadRecordSchema,
+  marketo_search_leads: leadRecordSchema,
+  marketo_get_list_leads: leadRecordSchema,
+  marketo_get_lead_activities: activityRecordSchema,
+  marketo_get_lead_changes: activityRecordSchema,
+  marketo_get_lists: staticListRecordSchema,
+  marketo_get_list_by_id: staticListRecordSchema,
+  marketo_get_list_by_name: staticListRecordSchema,
+  marketo_create_list: staticListRecordSchema,
+};
+
+/**
+ * Moves records that don't match the tool's record schema to invalidRecords, and leads the
+ * result with a warning so that drift in Marketo's responses is visible rather than silent
+ */
+function validateToolOutput(
+  name: string,
+  result: CallToolResult,
+  recordSchema: AnyZodObject,
+  projected: boolean
+): CallToolResult {
+  const structured = result.structuredContent;
+  if (result.isError || !structured) {
+    return result;
+  }
+
+  const warnings = (structured.validationWarnings as string[] | undefined) ?? [];
+  let records = structured.records;
+  let invalidRecords: unknown[] | undefined;
+  if (Array.isArray(records)) {
+    const checked = checkRecords(records, projected ? recordSchema.partial() : recordSchema);
+    records = checked.valid;
+    invalidRecords = checked.invalid.length > 0 ? checked.invalid : undefined;
+    warnings.push(...checked.warnings);
+  }
+  if (warnings.length === 0) {
+    return result;
+  }
+
+  console.warn(`Warning: ${name} returned data that does not match its schema: ${warnings[0]}`);
+  return {
+    ...result,
+    content: [
+      {
+        type: 'text',
+        text: `Validation warnings (the response may have changed shape):\n${warnings.map((w) => `- ${w}`).join('\n')}`,
+      },
+      ...result.content,
+    ],
+    structuredContent: { ...structured, records, invalidRecords, validationWarnings: warnings },
+  };
+}
+
+/**
+ * Registers a tool that runs against one Marketo instance, chosen with the instance parameter.
+ * Read tools accept noCache, to read past the response cache. Write tools accept dryRun.
+ * Destructive tools first answer with a preview and a confirmation token, and only run when
+ * called again with the same arguments and that token.
+ */
+function registerTool<Args extends ZodRawShape>(
+  server: McpServer,
+  category: ToolCategory,
+  name: string,
+  access: ToolAccess,
+  paramsSchema: Args,
+  handler: ToolHandler<Args>,
+  preview?: ToolPreview<Args>
+) {
+  if (!enableTool(name, category, access)) {
+    return;
+  }
+
+  const confirm = access === 'destructive' && MARKETO_REQUIRE_CONFIRMATION;
+  const schema: ZodRawShape = { ...paramsSchema, instance: z.string().optional() };
+  if (access === 'read') {
+    schema.noCache = z.boolean().optional();
+  } else {
+    schema.dryRun = z.boolean().optional();
+  }
+  if (confirm) {
+    schema.confirmationToken = z.string().optional();
+  }
+
+  const run = async (
+    { instance, dryRun, noCache, confirmationToken, ...rest }: Record<string, any>,
+    session: string | undefined
+  ): Promise<CallToolResult> => {
+    const args = rest as z.objectOutputType<Args, ZodTypeAny>;
+    const context: ToolContext = {
+      dryRun: access !== 'read' && (MARKETO_DRY_RUN || dryRun === true),
+    };
+    let client: MarketoClient;
+    try {
+      client = getClient(instance);
+      checkInstanceAccess(client, name, access);
+    } catch (error: any) {
+      return formatToolError(error);
+    }
+
+    if (context.dryRun) {
+      // Nothing is executed, so there is nothing to confirm
+      return handler(args, client, context);
+    }
+    if (confirm && !confirmationToken) {
+      try {
+        const shown = preview ? await preview(args, client) : undefined;
+        const { token, expiresAt } = confirmations.issue(name, client.name, session, args, shown);
+        const pending = {
+          confirmationRequired: true,
+          tool: name,
+          instance: client.name,
+          arguments: args,
+          preview: shown,
+          confirmationToken: token,
+          expiresAt: new Date(expiresAt).toISOString(),
+        };
+        return formatToolData(pending, [
+          `${name} was not run. Call it again with the same arguments and confirmationToken "${token}" to execute.`,
+        ]);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+    if (confirm) {
+      const confirmed = confirmations.consume(confirmationToken, name, client.name, session, args);
+      if (!confirmed) {
+        return formatToolError(
+          new ToolInputError(
+            'The confirmation token is invalid, expired, or was issued for different arguments. ' +
+              `Call ${name} without confirmationToken to get a new preview.`
+          )
+        );
+      }
+      context.confirmedPreview = confirmed.preview;
+    }
+
+    if (access === 'read') {
+      return noCache === true
+        ? withoutCache(() => handler(args, client, context))
+        : handler(args, client, context);
+    }
+    const startedAt = new Date();
+    const { result, writes } = await recordWrites(() => handler(args, client, context));
+    await auditToolCall(name, client, args, result, writes, startedAt);
+    return result;
+  };
+
+  const recordSchema = toolRecordSchemas[name] ?? marketoRecordSchema;
+  server.registerTool(
+    name,
+    { inputSchema: schema, outputSchema: toolOutputShape(recordSchema.partial()) },
+    async (params: Record<string, any>, extra) =>
+      // Projected records only carry the requested fields, so none of them are required
+      validateToolOutput(
+        name,
+        await run(params, extra.sessionId),
+        recordSchema,
+        params.fields !== undefined
+      )
+  );
+}
+
+const auditLog = MARKETO_AUDIT_LOG_PATH
+  ? new AuditLog(MARKETO_AUDIT_LOG_PATH, MARKETO_AUDIT_LOG_MAX_BYTES, MARKETO_AUDIT_LOG_MAX_FILES)
+  : undefined;
+
+// Appends an executed write tool call to the audit log
+async function auditToolCall(
+  name: string,
+  client: MarketoClient,
+  args: Record<string, unknown>,
+  result: CallToolResult,
+  writes: RecordedWrite[],
+  startedAt: Date
+) {
+  if (!auditLog) {
+    return;
+  }
+
+  const firstText = result.content.find((item) => item.type === 'text');
+  await auditLog.append({
+    timestamp: startedAt.toISOString(),
+    tool: name,
+    instance: client.name,
+    arguments: sanitizeArguments(args),
+    requests: writes.map((write) => write.request),
+    success: !result.isError,
+    error: result.isError && firstText?.type === 'text' ? firstText.text : undefined,
+    recordIds: collectRecordIds(
+      args,
+      writes.map((write) => write.response)
+    ),
+  });
+}
+
+// Tool filters are the same for every server, so they are only checked once
+let policyEntriesChecked = false;
+
+/**
+ * Warns about include/exclude entries that match no tool, since they are likely typos
+ */
+function warnUnknownPolicyEntries() {
+  if (policyEntriesChecked) {
+    return;
+  }
+  policyEntriesChecked = true;
+  const unknown = findUnknownPolicyEntries(toolPolicy, knownToolNames);
+  if (unknown.length > 0) {
+    console.warn(
+      `Warning: unknown tool names or categories in tool filters: ${unknown.join(', ')}`
+    );
+  }
+}
+
+// Shared parameters for tools that can page through every result
+const fetchAllOptions = {
+  fetchAll: z.boolean().optional(),
+  maxRecords: z.number().int().min(1).optional(),
+};
+
+// Output shaping for tools whose fields argument is already sent to Marketo
+const formatOptions = {
+  format: z.enum(OUTPUT_FORMATS).optional(),
+  maxChars: z.number().int().min(100).optional(),
+};
+
+// Output shaping for list and asset tools, with fields picking what each record shows
+const outputOptions = {
+  fields: z.array(z.string()).optional(),
+  ...formatOptions,
+};
+
+// Applies the default record cap for fetchAll and clamps it to the hard limit
+function resolveMaxRecords(maxRecords?: number): number {
+  return Math.min(maxRecords ?? FETCH_ALL_DEFAULT_MAX_RECORDS, FETCH_ALL_MAX_RECORDS);
+}
+
+// Activity endpoints need a paging token; sinceDatetime lets Marketo issue the first one
+async function resolveStartToken(
+  client: MarketoClient,
+  nextPageToken: string | undefined,
+  sinceDatetime: string | undefined
+): Promise<string | undefined> {
+  if (nextPageToken || !sinceDatetime) {
+    return nextPageToken;
+  }
+
+  const params = new URLSearchParams({ sinceDatetime });
+  const response = await client.request(
+    `/rest/v1/activities/pagingtoken.json?${params.toString()}`,
+    'GET'
+  );
+  return response.nextPageToken;
+}
+
+// Reads an endpoint, past the response cache when refresh is set
+function readFresh(client: MarketoClient, endpoint: string, refresh: boolean): Promise<any> {
+  const read = () => client.request(endpoint, 'GET');
+  return refresh ? withoutCache(read) : read();
+}
+
+// Lead field catalog, built from the describe response the response cache keeps
+async function getLeadFieldCatalog(
+  client: MarketoClient,
+  refresh: boolean = false
+): Promise<LeadField[]> {
+  const response = await readFresh(client, '/rest/v1/leads/describe2.json', refresh);
+  return buildFieldCatalog(response);
+}
+
+// Fetches the leads an upsert would match, or undefined when the lookup field can't be searched
+async function findLeadsByLookup(
+  client: MarketoClient,
+  records: Record<string, unknown>[],
+  lookupField: string
+): Promise<any[] | undefined> {
+  if (lookupField !== 'email' && lookupField !== 'id') {
+    return undefined;
+  }
+
+  const values = records.map((record) => record[lookupField]).filter((value) => value != null);
+  // Only known fields are requested, since Marketo rejects the whole call for an unknown one
+  const known = new Set((await getLeadFieldCatalog(client)).map((field) => field.name));
+  const fields = new Set(
+    ['id', lookupField, ...records.flatMap((record) => Object.keys(record))].filter((name) =>
+      known.has(name)
+    )
+  );
+  const leads: any[] = [];
+  for (const batch of chunk(values, LEAD_BATCH_SIZE)) {
+    const params = new URLSearchParams({
+      filterType: lookupField,
+      filterValues: batch.join(','),
+      fields: [...fields].join(','),
+    });
+    const response = await client.request(`/rest/v1/leads.json?${params.toString()}`, 'GET');
+    leads.push(...(response.result ?? []));
+  }
+  return leads;
+}
+
+// Searches leads or custom objects by a filter field, sending the values in batches Marketo accepts
+async function searchRecords(
+  client: MarketoClient,
+  endpoint: string,
+  filterType: string,
+  filterValues: (string | number)[],
+  fields: string[] | undefined,
+  paging: { fetchAll: boolean; nextPageToken?: string; pageSize: number; maxRecords: number }
+): Promise<any> {
+  const batches = chunk(filterValues.map(String), LEAD_BATCH_SIZE);
+  if (batches.length > 1 && paging.nextPageToken) {
+    throw new ToolInputError(
+      `nextPageToken can only be used with up to ${LEAD_BATCH_SIZE} filter values.`
+    );
+  }
+
+  const responses = [];
+  // The batches share one maxRecords budget, so a search returns no more than it allows
+  let remaining = paging.maxRecords;
+  for (const batch of batches) {
+    if (paging.fetchAll && remaining <= 0) {
+      break;
+    }
+    const fetchPage = (pageToken: string | undefined, pageSize: number) => {
+      const params = new URLSearchParams({
+        filterType,
+        filterValues: batch.join(','),
+        batchSize: pageSize.toString(),
+      });
+
+      if (fields && fields.length > 0) {
+        params.append('fields', fields.join(','));
+      }
+      if (pageToken) {
+        params.append('nextPageToken', pageToken);
+      }
+
+      return client.request(`${endpoint}?${params.toString()}`, 'GET');
+    };
+
+    const response = await paginateByToken(fetchPage, { ...paging, maxRecords: remaining });
+    remaining -= response.result?.length ?? 0;
+    responses.push(response);
+  }
+
+  const merged = mergeBatchResponses(responses);
+  if (responses.length < batches.length) {
+    merged.truncated = true;
+  }
+  return merged;
+}
+
+/**
+ * Sends a write in batches, one after another. When a batch fails after earlier ones were
+ * applied, returns their results with the error and the input left unprocessed, rather than
+ * failing the whole call and hiding the changes already made.
+ */
+async function sendBatches(
+  client: MarketoClient,
+  endpoint: string,
+  batches: { input: unknown[] }[]
+): Promise<Record<string, unknown>> {
+  const responses = [];
+  for (const [index, data] of batches.entries()) {
+    try {
+      responses.push(await client.request(endpoint, 'POST', data));
+    } catch (error) {
+      if (index === 0) {
+        throw error;
+      }
+      return {
+        ...mergeBatchResponses(responses),
+        failedBatch: index + 1,
+        error: sanitizeErrorMessage(error),
+        unprocessedInput: batches.slice(index).flatMap((batch) => batch.input),
+      };
+    }
+  }
+  return mergeBatchResponses(responses);
+}
+
+// Counts each lead's activities of the given types since a date, for picking a merge winner
+async function countLeadActivities(
+  client: MarketoClient,
+  leadIds: number[],
+  typeIds: number[],
+  sinceDatetime: string
+): Promise<Map<number, number>> {
+  const counts = new Map<number, number>(leadIds.map((id) => [id, 0]));
+  const startToken = await resolveStartToken(client, undefined, sinceDatetime);
+  for (const batch of chunk(leadIds, ACTIVITY_LEAD_BATCH_SIZE)) {
+    const fetchPage = (pageToken: string | undefined, pageSize: number) => {
+      const params = new URLSearchParams({
+        leadIds: batch.join(','),
+        activityTypeIds: typeIds.join(','),
+        batchSize: pageSize.toString(),
+      });
+      if (pageToken) {
+        params.append('nextPageToken', pageToken);
+      }
+      return client.request(`/rest/v1/activities.json?${params.toString()}`, 'GET');
+    };
+
+    const response = await paginateByToken(fetchPage, {
+      fetchAll: true,
+      nextPageToken: startToken,
+      pageSize: 300,
+      maxRecords: FETCH_ALL_MAX_RECORDS,
+    });
+    for (const activity of response.result ?? []) {
+      counts.set(activity.leadId, (counts.get(activity.leadId) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+// Activity type catalog, built from the types response the response cache keeps
+async function getActivityTypeCatalog(
+  client: MarketoClient,
+  refresh: boolean = false
+): Promise<ActivityType[]> {
+  const response = await readFresh(client, '/rest/v1/activities/types.json', refresh);
+  return buildActivityTypeCatalog(response);
+}
+
+// Resolves activity type names to IDs, only loading the catalog when a name is given
+async function resolveActivityTypes(
+  client: MarketoClient,
+  values: (number | string)[] | undefined
+): Promise<number[] | undefined> {
+  if (!values) {
+    return undefined;
+  }
+  const catalog = values.every((value) => typeof value === 'number')
+    ? []
+    : await getActivityTypeCatalog(client);
+  return resolveActivityTypeIds(values, catalog);
+}
+
+// Labels the activities in a response with their type names and attribute metadata
+async function enrichActivityResponse(client: MarketoClient, response: any): Promise<any> {
+  if (!Array.isArray(response?.result) || response.result.length === 0) {
+    return response;
+  }
+  return {
+    ...response,
+    result: enrichActivities(response.result, await getActivityTypeCatalog(client)),
+  };
+}
+
+// Activity types can be given as numeric IDs or names such as "Fill Out Form"
+const activityTypesParam = z.array(z.union([z.number(), z.string()]));
+
+// Fields read for every lead checked for duplicates or merged
+const DUPLICATE_LEAD_FIELDS = [
+  'id',
+  'email',
+  'firstName',
+  'lastName',
+  'company',
+  'title',
+  'phone',
+  'createdAt',
+  'updatedAt',
+];
+
+// Visit Webpage, Fill Out Form, Open Email and Click Email, counted for the mostActivity rule
+const MERGE_ACTIVITY_TYPES = [1, 2, 10, 11];
+
+// A merge plan with the fields on which the leads disagree, shown before a merge is confirmed
+type MergePreview = MergePlan & { differingFields: Record<string, Record<string, unknown>> };
+
+// Loads the leads to merge and decides which one survives
+async function planLeadMerge(
+  client: MarketoClient,
+  args: {
+    leadIds: number[];
+    winnerId?: number;
+    winnerRule?: MergeWinnerRule;
+    activityTypeIds?: (number | string)[];
+    activitySince?: string;
+  }
+): Promise<MergePreview> {
+  const leadIds = [...new Set(args.leadIds)];
+  const response = await searchRecords(
+    client,
+    '/rest/v1/leads.json',
+    'id',
+    leadIds,
+    DUPLICATE_LEAD_FIELDS,
+    {
+      fetchAll: true,
+      pageSize: 300,
+      maxRecords: leadIds.length,
+    }
+  );
+  const leads: any[] = response.result ?? [];
+  const missing = leadIds.filter((id) => !leads.some((lead) => lead.id === id));
+  if (missing.length > 0) {
+    throw new ToolInputError(`Leads not found: ${missing.join(', ')}.`);
+  }
+
+  const rule = args.winnerRule ?? 'mostRecentlyUpdated';
+  let activityCounts: Map<number, number> | undefined;
+  if (rule === 'mostActivity' && args.winnerId === undefined) {
+    // Without a start date, activity over the last year decides
+    const since =
+      args.activitySince ?? new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString();
+    const typeIds =
+      (await resolveActivityTypes(client, args.activityTypeIds)) ?? MERGE_ACTIVITY_TYPES;
+    activityCounts = await countLeadActivities(client, leadIds, typeIds, since);
+  }
+
+  return {
+    ...planMerge(leads, rule, args.winnerId, activityCounts),
+    differingFields: describeDifferingFields(leads),
+  };
+}
+
+// Custom object schemas, built from describe responses like the lead field catalog
+async function getCustomObjectSchema(
+  client: MarketoClient,
+  apiName: string,
+  refresh: boolean = false
+): Promise<CustomObjectSchema> {
+  const response = await readFresh(
+    client,
+    `/rest/v1/customobjects/${encodeURIComponent(apiName)}/describe.json`,
+    refresh
+  );
+  if (!Array.isArray(response.result) || response.result.length === 0) {
+    throw new ToolInputError(
+      `Unknown custom object "${apiName}". Use marketo_get_custom_object_types to list them.`
+    );
+  }
+  return buildCustomObjectSchema(response);
+}
+
+// Looks custom objects up by their keys, using the POST form of the query that takes compound keys
+async function findCustomObjects(
+  client: MarketoClient,
+  schema: CustomObjectSchema,
+  keys: Record<string, unknown>[],
+  by: 'dedupeFields' | 'idField',
+  fields?: string[]
+): Promise<any> {
+  const keyFields = keyFieldsFor(schema, by);
+  const responses = [];
+  for (const batch of chunk(keys, LEAD_BATCH_SIZE)) {
+    const data = {
+      filterType: by,
+      fields,
+      input: batch.map((key) => Object.fromEntries(keyFields.map((field) => [field, key[field]]))),
+    };
+    responses.push(
+      await client.request(
+        `/rest/v1/customobjects/${encodeURIComponent(schema.name)}.json?_method=GET`,
+        'POST',
+        data
+      )
+    );
+  }
+  return mergeBatchResponses(responses);
+}
+
+// Describes what an upsert would do to each record, given the records that already match
+function describeCustomObjectChanges(
+  schema: CustomObjectSchema,
+  records: Record<string, unknown>[],
+  existing: any[],
+  keyFields: string[],
+  action: string
+): string[] {
+  const byKey = new Map(existing.map((record) => [recordKey(record, keyFields), record]));
+
+  return records.flatMap((record) => {
+    const match = byKey.get(recordKey(record, keyFields));
+    const label = keyFields.map((field) => JSON.stringify(record[field])).join(', ');
+    if (!match) {
+      return action === 'updateOnly'
+        ? [`no ${schema.name} matches ${label}, so it would be skipped`]
+        : [`a new ${schema.name} with ${label} would be created`];
+    }
+    if (action === 'createOnly') {
+      return [`${schema.name} ${label} already exists, so it would be skipped`];
+    }
+
+    const fields = Object.fromEntries(
+      Object.entries(record).filter(([field]) => !keyFields.includes(field))
+    );
+    const changes = describeFieldChanges(`${schema.name} ${label}`, match, fields);
+    return changes.length > 0 ? changes : [`${schema.name} ${label} would not change`];
+  });
+}
+
+const dateRangeFilter = z.object({
+  startAt: z.string().datetime({ offset: true }),
+  endAt: z.string().datetime({ offset: true }),
+});
+
+// Fetches the current state of a bulk export job
+async function getBulkExportJob(
+  client: MarketoClient,
+  type: BulkExportType,
+  exportId: string
+): Promise<BulkExportJob> {
+  const response = await client.request(`/bulk/v1/${type}/export/${exportId}/status.json`, 'GET');
+  return response.result[0];
+}
+
+// Lists recent export jobs of one type across every page
+async function listBulkExportJobs(
+  client: MarketoClient,
+  type: BulkExportType
+): Promise<BulkExportJob[]> {
+  const fetchPage = (pageToken: string | undefined, pageSize: number) => {
+    const params = new URLSearchParams({
+      status: 'Queued,Processing,Completed',
+      batchSize: pageSize.toString(),
+    });
+    if (pageToken) {
+      params.append('nextPageToken', pageToken);
+    }
+
+    return client.request(`/bulk/v1/${type}/export.json?${params.toString()}`, 'GET');
+  };
+
+  const response = await paginateByToken(fetchPage, {
+    fetchAll: true,
+    pageSize: 300,
+    maxRecords: FETCH_ALL_MAX_RECORDS,
+  });
+  return response.result;
+}
+
+// Export quota and job slots are shared by every export type
+async function getBulkExportQuota(client: MarketoClient): Promise<BulkExportQuota> {
+  const jobs = await Promise.all(BULK_EXPORT_TYPES.map((type) => listBulkExportJobs(client, type)));
+  return summarizeBulkExportQuota(jobs.flat());
+}
+
+// Downloads a completed export and reports what ended up on disk
+async function downloadBulkExport(
+  client: MarketoClient,
+  type: BulkExportType,
+  job: BulkExportJob,
+  outputPath: string | undefined,
+  previewRows: number
+): Promise<CallToolResult> {
+  const filePath = resolveExportPath(MARKETO_EXPORT_DIR, outputPath, `${type}-${job.exportId}.csv`);
+  await client.download(`/bulk/v1/${type}/export/${job.exportId}/file.json`, filePath);
+  const summary = await summarizeCsvFile(filePath, previewRows);
+
+  return formatToolData({
+    exportId: job.exportId,
+    status: job.status,
+    filePath,
+    rowCount: summary.rowCount,
+    fileSize: job.fileSize,
+    columns: summary.columns,
+    preview: summary.preview,
+  });
+}
+
+// Creates, enqueues and waits for an export job, downloading the file once it completes
+async function runBulkExport(
+  client: MarketoClient,
+  type: BulkExportType,
+  request: Record<string, unknown>,
+  options: {
+    outputPath?: string;
+    timeoutSeconds: number;
+    pollIntervalSeconds: number;
+    previewRows: number;
+    dryRun: boolean;
+  }
+): Promise<CallToolResult> {
+  const body = { format: 'CSV', ...request };
+  if (options.dryRun) {
+    const quota = await getBulkExportQuota(client);
+    return formatDryRun(
+      client,
+      [
+        client.describeRequest(`/bulk/v1/${type}/export/create.json`, 'POST', body),
+        client.describeRequest(`/bulk/v1/${type}/export/<exportId>/enqueue.json`, 'POST'),
+      ],
+      {
+        current: quota,
+        changes: [`a ${type} export job would be created and queued, using export quota`],
+      }
+    );
+  }
+
+  const created = await client.request(`/bulk/v1/${type}/export/create.json`, 'POST', body);
+  const exportId: string = created.result[0].exportId;
+
+  await client.request(`/bulk/v1/${type}/export/${exportId}/enqueue.json`, 'POST');
+  const job = await waitForJob(
+    () => getBulkExportJob(client, type, exportId),
+    FINISHED_JOB_STATUSES,
+    options.timeoutSeconds,
+    options.pollIntervalSeconds
+  );
+
+  if (job.status === 'Completed') {
+    return downloadBulkExport(client, type, job, options.outputPath, options.previewRows);
+  }
+
+  // Still running or failed: hand back the job so the agent can check on it later
+  const quota = await getBulkExportQuota(client);
+  return {
+    ...formatToolData({
+      job,
+      quota,
+      next:
+        job.status === 'Failed' || job.status === 'Cancelled'
+          ? 'The export did not complete.'
+          : `Export still ${job.status}. Call marketo_get_bulk_export_status or marketo_download_bulk_export with exportType "${type}" and exportId "${exportId}" later.`,
+    }),
+    isError: job.status === 'Failed' || job.status === 'Cancelled',
+  };
+}
+
+const bulkExportOptions = {
+  outputPath: z.string().optional(),
+  timeoutSeconds: z.number().min(0).max(3600).optional(),
+  pollIntervalSeconds: z.number().min(5).optional(),
+  previewRows: z.number().min(0).max(50).optional(),
+};
+
+// Fetches the current state of a bulk import batch
+async function getBulkImportBatch(
+  client: MarketoClient,
+  batchId: number
+): Promise<BulkImportBatch> {
+  const response = await client.request(`/bulk/v1/leads/batch/${batchId}.json`, 'GET');
+  return response.result[0];
+}
+
+// Downloads the failures and warnings files of a finished import into a per-row report
+async function buildBulkImportReport(
+  client: MarketoClient,
+  batch: BulkImportBatch,
+  maxReportRows: number
+): Promise<CallToolResult> {
+  const report: Record<string, unknown> = { batch };
+
+  const files = [
+    { key: 'failures', count: batch.numOfRowsFailed, reasonColumn: 'Import Failure Reason' },
+    { key: 'warnings', count: batch.numOfRowsWithWarning, reasonColumn: 'Import Warning Reason' },
+  ];
+  for (const { key, count, reasonColumn } of files) {
+    if (!count) {
+      continue;
+    }
+    const text = await client.request(`/bulk/v1/leads/batch/${batch.batchId}/${key}.json`, 'GET');
+    const rows = parseImportReport(String(text), reasonColumn);
+    report[key] = {
+      total: rows.length,
+      rows: rows.slice(0, maxReportRows),
+      truncated: rows.length > maxReportRows,
+    };
+  }
+
+  if (!FINISHED_IMPORT_STATUSES.has(batch.status)) {
+    report.next = `Import still ${batch.status}. Call marketo_get_bulk_import_status with batchId ${batch.batchId} later.`;
+  }
+
+  return { ...formatToolData(report), isError: batch.status === 'Failed' };
+}
+
+// Entity kinds exposed as resource templates
+interface MarketoResourceType {
+  // Path segment in the marketo:// URI
+  kind: string;
+  description: string;
+  // The read tool returning the same entity; the resource follows its tool policy
+  tool: string;
+  category: ToolCategory;
+  // Pages through every entity of this type, if the type can be enumerated
+  listEntities?: (client: MarketoClient) => Promise<any[]>;
+  // Resolves to undefined when no entity has the ID
+  readEntity: (client: MarketoClient, id: string) => Promise<any>;
+}
+
+// Pages through an asset endpoint that uses maxReturn/offset
+async function listAssets(client: MarketoClient, endpoint: string): Promise<any[]> {
+  const response = await paginateByOffset(
+    (offset, maxReturn) =>
+      client.request(`${endpoint}?maxReturn=${maxReturn}&offset=${offset}`, 'GET'),
+    { fetchAll: true, offset: 0, pageSize: 200, maxRecords: FETCH_ALL_DEFAULT_MAX_RECORDS }
+  );
+  return response.result;
+}
+
+// Reads the single entity an endpoint returns
+async function readEntity(client: MarketoClient, endpoint: string): Promise<any> {
+  const response = await client.request(endpoint, 'GET');
+  return Array.isArray(response.result) ? response.result[0] : undefined;
+}
+
+const resourceTypes: MarketoResourceType[] = [
+  {
+    kind: 'lead',
+    description: 'A Marketo lead record',
+    tool: 'marketo_get_lead_by_id',
+    category: 'leads',
+    readEntity: (client, id) => readEntity(client, `/rest/v1/lead/${encodeURIComponent(id)}.json`),
+  },
+  {
+    kind: 'form',
+    description: 'A Marketo form asset',
+    tool: 'marketo_get_form_by_id',
+    category: 'forms',
+    listEntities: (client) => listAssets(client, '/asset/v1/forms.json'),
+    readEntity: (client, id) => readEntity(client, `/asset/v1/form/${encodeURIComponent(id)}.json`),
+  },
+  {
+    kind: 'smartlist',
+    description: 'A Marketo smart list asset',
+    tool: 'marketo_get_smart_list_by_id',
+    category: 'smartlists',
+    listEntities: (client) => listAssets(client, '/asset/v1/smartLists.json'),
+    readEntity: (client, id) =>
+      readEntity(client, `/asset/v1/smartList/${encodeURIComponent(id)}.json`),
+  },
+  {
+    kind: 'channel',
+    description: 'A Marketo program channel',
+    tool: 'marketo_get_channel_by_id',
+    category: 'channels',
+    listEntities: (client) => listAssets(client, '/asset/v1/channels.json'),
+    readEntity: (client, id) =>
+      readEntity(client, `/asset/v1/channel/${encodeURIComponent(id)}.json`),
+  },
+  {
+    kind: 'list',
+    description: 'A Marketo static list',
+    tool: 'marketo_get_list_by_id',
+    category: 'lists',
+    listEntities: async (client) => {
+      const response = await paginateByToken(
+        (nextPageToken, batchSize) => {
+          const params = new URLSearchParams({ batchSize: batchSize.toString() });
+          if (nextPageToken) {
+            params.append('nextPageToken', nextPageToken);
+          }
+          return client.request(`/rest/v1/lists.json?${params.toString()}`, 'GET');
+        },
+        { fetchAll: true, pageSize: 300, maxRecords: FETCH_ALL_DEFAULT_MAX_RECORDS }
+      );
+      return response.result;
+    },
+    readEntity: (client, id) => readEntity(client, `/rest/v1/lists/${encodeURIComponent(id)}.json`),
+  },
+];
+
+// Every entity of a resource type; the listing pages come from the response cache, so
+// completion doesn't refetch on every keystroke
+async function getResourceIndex(client: MarketoClient, type: MarketoResourceType): Promise<any[]> {
+  return type.listEntities ? type.listEntities(client) : [];
+}
+
+// Custom object types, listed for resource completion
+async function getCustomObjectTypeIndex(client: MarketoClient): Promise<any[]> {
+  const response = await client.request('/rest/v1/customobjects.json', 'GET');
+  return response.result ?? [];
+}
+
+// Settings shared by the add and update form field tools
+const formFieldSettings = {
+  label: z.string().optional(),
+  required: z.boolean().optional(),
+  validationMessage: z.string().optional(),
+  instructions: z.string().optional(),
+  hintText: z.string().optional(),
+  defaultValue: z.string().optional(),
+  maxLength: z.number().optional(),
+  labelWidth: z.number().optional(),
+  fieldWidth: z.number().optional(),
+  formPrefill: z.boolean().optional(),
+  values: z
+    .array(z.object({ label: z.string(), value: z.string(), isDefault: z.boolean().optional() }))
+    .optional(),
+};
+
+// Show or hide a form field based on the values of other fields
+const visibilityRuleParam = z
+  .object({
+    ruleType: z.enum(['alwaysShow', 'show', 'hide']),
+    rules: z
+      .array(
+        z.object({
+          subjectField: z.string(),
+          operator: z.string(),
+          values: z.array(z.string()),
+          altLabel: z.string().optional(),
+        })
+      )
+      .optional(),
+  })
+  .optional();
+
+function describeVisibilityRequest(
+  client: MarketoClient,
+  formId: number | string,
+  fieldId: string,
+  visibilityRule: VisibilityRule
+): PlannedRequest {
+  return client.describeRequest(
+    `/asset/v1/form/${formId}/field/${encodeURIComponent(fieldId)}/visibility.json`,
+    'POST',
+    { visibilityRule: JSON.stringify(visibilityRule) },
+    'application/x-www-form-urlencoded'
+  );
+}
+
+async function setVisibilityRule(
+  client: MarketoClient,
+  formId: number,
+  fieldId: string,
+  visibilityRule: VisibilityRule
+): Promise<any> {
+  return client.request(
+    `/asset/v1/form/${formId}/field/${encodeURIComponent(fieldId)}/visibility.json`,
+    'POST',
+    { visibilityRule: JSON.stringify(visibilityRule) },
+    'application/x-www-form-urlencoded'
+  );
+}
+
+// Form parameters for creating the form a definition describes
+function createFormParams(
+  definition: FormDefinition,
+  name: string | undefined,
+  folder: { id: number; type: string }
+): Record<string, string> {
+  return {
+    ...encodeFormParams(definition.settings),
+    name: name ?? definition.name,
+    folder: JSON.stringify(folder),
+  };
+}
+
+// Endpoint and parameters that add one form item, which for fieldsets excludes their fields
+function addFormItemRequest(
+  formId: number | string,
+  item: FormItemDefinition
+): { endpoint: string; data: Record<string, string> } {
+  switch (item.kind) {
+    case 'richText':
+      return { endpoint: `/asset/v1/form/${formId}/richText.json`, data: { text: item.text } };
+    case 'fieldSet':
+      return { endpoint: `/asset/v1/form/${formId}/fieldSet.json`, data: { label: item.label } };
+    default:
+      return {
+        endpoint: `/asset/v1/form/${formId}/fields.json`,
+        data: { fieldId: item.fieldId, ...encodeFormParams(item.settings) },
+      };
+  }
+}
+
+// Lists the items of a form definition for dry runs
+function describeFormItems(items: FormItemDefinition[], prefix: string = ''): string[] {
+  return items.flatMap((item) => {
+    const rule = item.visibilityRule ? ` (visibility: ${item.visibilityRule.ruleType})` : '';
+    switch (item.kind) {
+      case 'richText':
+        return [`${prefix}rich text would be added${rule}`];
+      case 'fieldSet':
+        return [
+          `${prefix}fieldset "${item.label}" would be added${rule}`,
+          ...describeFormItems(item.fields, `${prefix}  `),
+        ];
+      default:
+        return [`${prefix}field ${item.fieldId} would be added${rule}`];
+    }
+  });
+}
+
+// Requests an import would make before the new form's ID is known, with {formId} in its place
+function planFormImport(
+  client: MarketoClient,
+  definition: FormDefinition,
+  name: string | undefined,
+  folder: { id: number; type: string }
+): PlannedRequest[] {
+  const contentType = 'application/x-www-form-urlencoded';
+  const flatten = (items: FormItemDefinition[]): FormItemDefinition[] =>
+    items.flatMap((item) => (item.kind === 'fieldSet' ? [item, ...flatten(item.fields)] : [item]));
+
+  return [
+    client.describeRequest(
+      '/asset/v1/forms.json',
+      'POST',
+      createFormParams(definition, name, folder),
+      contentType
+    ),
+    ...flatten(definition.items).map((item) => {
+      const { endpoint, data } = addFormItemRequest('{formId}', item);
+      return client.describeRequest(endpoint, 'POST', data, contentType);
+    }),
+  ];
+}
+
+/**
+ * Creates a form from a definition: the form, its fields, their layout and visibility rules,
+ * then the submit button and thank-you settings
+ */
+async function importFormDefinition(
+  client: MarketoClient,
+  definition: FormDefinition,
+  name: string | undefined,
+  folder: { id: number; type: string }
+): Promise<CallToolResult> {
+  const contentType = 'application/x-www-form-urlencoded';
+  const created = await client.request(
+    '/asset/v1/forms.json',
+    'POST',
+    createFormParams(definition, name, folder),
+    contentType
+  );
+  const formId: number = created.result[0].id;
+
+  try {
+    // New forms can start with default fields, which are updated instead of added again
+    const existing = await client.request(`/asset/v1/form/${formId}/fields.json`, 'GET');
+    const existingIds = new Set((existing.result ?? []).map((field: any) => field.id));
+
+    const addItem = async (item: FormItemDefinition): Promise<any> => {
+      let itemId: string;
+      if (item.kind === 'field' && existingIds.has(item.fieldId)) {
+        await client.request(
+          `/asset/v1/form/${formId}/field/${encodeURIComponent(item.fieldId)}.json`,
+          'POST',
+          encodeFormParams(item.settings),
+          contentType
+        );
+        itemId = item.fieldId;
+      } else {
+        const { endpoint, data } = addFormItemRequest(formId, item);
+        const response = await client.request(endpoint, 'POST', data, contentType);
+        itemId = item.kind === 'field' ? item.fieldId : String(response.result[0].id);
+      }
+
+      if (item.visibilityRule) {
+        await setVisibilityRule(client, formId, itemId, item.visibilityRule);
+      }
+      // Fieldset fields are added to the form first, then moved into the fieldset below
+      const children = item.kind === 'fieldSet' ? await addItems(item.fields) : undefined;
+      return { fieldName: itemId, fieldList: children };
+    };
+    // Items are added one at a time so Marketo keeps them in order
+    const addItems = async (items: FormItemDefinition[]) => {
+      const positions: any[] = [];
+      for (const item of items) {
+        positions.push(await addItem(item));
+      }
+      return positions;
+    };
+
+    const positions = await addItems(definition.items);
+    await client.request(
+      `/asset/v1/form/${formId}/reArrange.json`,
+      'POST',
+      {
+        positions: JSON.stringify(
+          positions.map((position, rowNumber) => ({
+            ...position,
+            rowNumber,
+            columnNumber: 0,
+            fieldList: position.fieldList?.map((child: any, childRow: number) => ({
+              fieldName: child.fieldName,
+              rowNumber: childRow,
+              columnNumber: 0,
+            })),
+          }))
+        ),
+      },
+      contentType
+    );
+
+    const submitButton = encodeFormParams(definition.submitButton ?? {});
+    if (Object.keys(submitButton).length > 0) {
+      await client.request(
+        `/asset/v1/form/${formId}/submitButton.json`,
+        'POST',
+        submitButton,
+        contentType
+      );
+    }
+    if (definition.thankYouList?.length > 0) {
+      await client.request(
+        `/asset/v1/form/${formId}/thankYouPage.json`,
+        'POST',
+        { thankyou: JSON.stringify(definition.thankYouList) },
+        contentType
+      );
+    }
+  } catch (error: any) {
+    throw new ToolInputError(
+      `Form ${formId} was created but could not be completed: ${sanitizeErrorMessage(error)} ` +
+        'Delete the draft form in Marketo before trying again.'
+    );
+  }
+
+  const form = await client.request(`/asset/v1/form/${formId}.json`, 'GET');
+  return formatToolResponse(form);
+}
+
+// Resolves a path like "Marketing Activities/Events/2026" through the folders sharing its name;
+// the lookup by name is kept by the response cache until a folder or program write drops it
+async function resolveFolderPath(
+  client: MarketoClient,
+  folderPath: string
+): Promise<FolderSummary> {
+  const segments = folderPath
+    .split('/')
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+  if (segments.length === 0) {
+    throw new ToolInputError('folderPath must name at least one folder.');
+  }
+  const params = new URLSearchParams({ name: segments[segments.length - 1] });
+  const response = await client.request(`/asset/v1/folder/byName.json?${params.toString()}`, 'GET');
+  const folders: FolderSummary[] = (response.result ?? []).map(summarizeFolder);
+  return matchFolderPath(folders, folderPath);
+}
+
+// Shared parameters for tools that place or filter assets by folder
+const folderParams = {
+  folderId: z.number().optional(),
+  folderPath: z.string().optional(),
+  folderType: z.enum(['Folder', 'Program']).optional(),
+};
+
+// Resolves a folderId or folderPath parameter pair to a folder reference
+async function resolveFolder(
+  client: MarketoClient,
+  folderId: number | undefined,
+  folderPath: string | undefined,
+  folderType: 'Folder' | 'Program' = 'Folder'
+): Promise<FolderRef | undefined> {
+  if (folderId !== undefined && folderPath) {
+    throw new ToolInputError('Give either folderId or folderPath, not both.');
+  }
+  if (folderPath) {
+    const folder = await resolveFolderPath(client, folderPath);
+    return { id: folder.id, type: folder.type };
+  }
+  return folderId === undefined ? undefined : { id: folderId, type: folderType };
+}
+
+// Like resolveFolder, for tools that can't run without a folder
+async function requireFolder(
+  client: MarketoClient,
+  folderId: number | undefined,
+  folderPath: string | undefined,
+  folderType?: 'Folder' | 'Program'
+): Promise<FolderRef> {
+  const folder = await resolveFolder(client, folderId, folderPath, folderType);
+  if (!folder) {
+    throw new ToolInputError('folderId or folderPath is required.');
+  }
+  return folder;
+}
+
+// Folder tools
+function registerFolderTools(server: McpServer) {
+  // Tool: Get Folders
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/getFolderUsingGET
+  registerTool(
+    server,
+    'folders',
+    'marketo_get_folders',
+    'read',
+    {
+      ...folderParams,
+      maxDepth: z.number().int().min(1).optional(),
+      maxReturn: z.number().optional(),
+      offset: z.number().optional(),
+      workSpace: z.string().optional(),
+      ...fetchAllOptions,
+      ...outputOptions,
+    },
+    async (
+      {
+        folderId,
+        folderPath,
+        folderType,
+        maxDepth = 2,
+        maxReturn = 200,
+        offset = 0,
+        workSpace,
+        fetchAll = false,
+        maxRecords,
+        fields,
+        format,
+        maxChars,
+      },
+      client
+    ) => {
+      try {
+        const root = await resolveFolder(client, folderId, folderPath, folderType);
+
+        const fetchPage = (pageOffset: number, pageSize: number) => {
+          const params = new URLSearchParams({
+            maxDepth: maxDepth.toString(),
+            maxReturn: pageSize.toString(),
+            offset: pageOffset.toString(),
+          });
+
+          if (root) {
+            params.append('root', JSON.stringify(root));
+          }
+          if (workSpace) {
+            params.append('workSpace', workSpace);
+          }
+
+          return client.request(`/asset/v1/folders.json?${params.toString()}`, 'GET');
+        };
+
+        const response = await paginateByOffset(fetchPage, {
+          fetchAll,
+          offset,
+          pageSize: maxReturn,
+          maxRecords: resolveMaxRecords(maxRecords),
+        });
+
+        return formatToolResponse(response, { fields, format, maxChars, paging: 'offset' });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Get Folder by Name
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/getFolderByNameUsingGET
+  registerTool(
+    server,
+    'folders',
+    'marketo_get_folder_by_name',
+    'read',
+    {
+      name: z.string(),
+      type: z.enum(['Folder', 'Program']).optional(),
+      workSpace: z.string().optional(),
+      ...outputOptions,
+    },
+    async ({ name, type, workSpace, fields, format, maxChars }, client) => {
+      try {
+        const params = new URLSearchParams({ name });
+        if (type) {
+          params.append('type', type);
+        }
+        if (workSpace) {
+          params.append('workSpace', workSpace);
+        }
+
+        const response = await client.request(
+          `/asset/v1/folder/byName.json?${params.toString()}`,
+          'GET'
+        );
+
+        return formatToolResponse(response, { fields, format, maxChars });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Resolve Folder Path
+  registerTool(
+    server,
+    'folders',
+    'marketo_resolve_folder_path',
+    'read',
+    {
+      folderPath: z.string(),
+    },
+    async ({ folderPath }, client) => {
+      try {
+        const folder = await resolveFolderPath(client, folderPath);
+
+        return formatToolData(folder);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Create Folder
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/createFolderUsingPOST
+  registerTool(
+    server,
+    'folders',
+    'marketo_create_folder',
+    'write',
+    {
+      name: z.string(),
+      description: z.string().optional(),
+      ...folderParams,
+    },
+    async ({ name, description, folderId, folderPath, folderType }, client, { dryRun }) => {
+      try {
+        const parent = await requireFolder(client, folderId, folderPath, folderType);
+        const formData = { name, description, parent: JSON.stringify(parent) };
+        const contentType = 'application/x-www-form-urlencoded';
+
+        if (dryRun) {
+          return formatDryRun(
+            client,
+            client.describeRequest('/asset/v1/folders.json', 'POST', formData, contentType),
+            {
+              changes: [
+                `folder "${name}" would be created in ${parent.type.toLowerCase()} ${parent.id}${folderPath ? ` (${folderPath})` : ''}`,
+              ],
+            }
+          );
+        }
+
+        const response = await client.request(
+          '/asset/v1/folders.json',
+          'POST',
+          formData,
+          contentType
+        );
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+}
+
+// Form tools
+function registerFormTools(server: McpServer) {
+  // Tool: Get Forms
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/browseForms2UsingGET
+  registerTool(
+    server,
+    'forms',
+    'marketo_get_forms',
+    'read',
+    {
+      maxReturn: z.number().optional(),
+      offset: z.number().optional(),
+      status: z.enum(['approved', 'draft']).optional(),
+      ...fetchAllOptions,
+      ...outputOptions,
+    },
+    async (
+      {
+        maxReturn = 200,
+        offset = 0,
+        status,
+        fetchAll = false,
+        maxRecords,
+        fields,
+        format,
+        maxChars,
+      },
+      client
+    ) => {
+      try {
+        const fetchPage = (pageOffset: number, pageSize: number) => {
+          const params = new URLSearchParams({
+            maxReturn: pageSize.toString(),
+            offset: pageOffset.toString(),
+          });
+
+          if (status) {
+            params.append('status', status);
+          }
+
+          return client.request(`/asset/v1/forms.json?${params.toString()}`, 'GET');
+        };
+
+        const response = await paginateByOffset(fetchPage, {
+          fetchAll,
+          offset,
+          pageSize: maxReturn,
+          maxRecords: resolveMaxRecords(maxRecords),
+        });
+
+        return formatToolResponse(response, { fields, format, maxChars, paging: 'offset' });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Approve Form
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/approveFromUsingPOST
+  registerTool(
+    server,
+    'forms',
+    'marketo_approve_form',
+    'destructive',
+    {
+      formId: z.number(),
+      comment: z.string().optional(),
+    },
+    async ({ formId, comment }, client, { dryRun }) => {
+      try {
+        const endpoint = `/asset/v1/form/${formId}/approve.json`;
+        const data = comment ? { comment } : undefined;
+
+        if (dryRun) {
+          const form = await readEntity(client, `/asset/v1/form/${formId}.json`);
+          return formatDryRun(client, client.describeRequest(endpoint, 'POST', data), {
+            current: form,
+            changes: form
+              ? [`form ${formId} ("${form.name}") would change from ${form.status} to approved`]
+              : [`form ${formId} was not found`],
+          });
+        }
+
+        const response = await client.request(endpoint, 'POST', data);
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    },
+    async ({ formId }, client) => {
+      const form = await readEntity(client, `/asset/v1/form/${formId}.json`);
+      return { form: form && { id: form.id, name: form.name, status: form.status } };
+    }
+  );
+
+  // Tool: Clone Form
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/cloneLpFormsUsingPOST
+  registerTool(
+    server,
+    'forms',
+    'marketo_clone_form',
+    'write',
+    {
+      formId: z.number(),
+      name: z.string(),
+      description: z.string().optional(),
+      ...folderParams,
+    },
+    async ({ formId, name, description, folderId, folderPath, folderType }, client, { dryRun }) => {
+      try {
+        const endpoint = `/asset/v1/form/${formId}/clone.json`;
+        const folder = await requireFolder(client, folderId, folderPath, folderType);
+        const formData = {
+          name,
+          description,
+          folder: JSON.stringify(folder),
+        };
+        const contentType = 'application/x-www-form-urlencoded';
+
+        if (dryRun) {
+          const form = await readEntity(client, `/asset/v1/form/${formId}.json`);
+          return formatDryRun(
+            client,
+            client.describeRequest(endpoint, 'POST', formData, contentType),
+            {
+              current: form,
+              changes: form
+                ? [
+                    `form ${formId} ("${form.name}") would be cloned as "${name}" into ${folder.type.toLowerCase()} ${folder.id}`,
+                  ]
+                : [`form ${formId} was not found`],
+            }
+          );
+        }
+
+        const response = await client.request(endpoint, 'POST', formData, contentType);
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Get Form by ID
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/getLpFormByIdUsingGET
+  registerTool(
+    server,
+    'forms',
+    'marketo_get_form_by_id',
+    'read',
+    {
+      formId: z.number(),
+      ...outputOptions,
+    },
+    async ({ formId, fields, format, maxChars }, client) => {
+      try {
+        const response = await client.request(`/asset/v1/form/${formId}.json`, 'GET');
+
+        return formatToolResponse(response, { fields, format, maxChars });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Get Form Fields
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/getFormFieldByFormVidUsingGET
+  registerTool(
+    server,
+    'forms',
+    'marketo_get_form_fields',
+    'read',
+    {
+      formId: z.number(),
+      status: z.enum(['approved', 'draft']).optional(),
+      ...outputOptions,
+    },
+    async ({ formId, status, fields, format, maxChars }, client) => {
+      try {
+        const query = status ? `?status=${status}` : '';
+        const response = await client.request(
+          `/asset/v1/form/${formId}/fields.json${query}`,
+          'GET'
+        );
+
+        return formatToolResponse(response, { fields, format, maxChars });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Add Form Field
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/addFieldToAFormUsingPOST
+  registerTool(
+    server,
+    'forms',
+    'marketo_add_form_field',
+    'write',
+    {
+      formId: z.number(),
+      fieldId: z.string(),
+      ...formFieldSettings,
+      visibilityRule: visibilityRuleParam,
+    },
+    async ({ formId, fieldId, visibilityRule, ...settings }, client, { dryRun }) => {
+      try {
+        const endpoint = `/asset/v1/form/${formId}/fields.json`;
+        const formData = { fieldId, ...encodeFormParams(settings) };
+        const contentType = 'application/x-www-form-urlencoded';
+
+        if (dryRun) {
+          return formatDryRun(
+            client,
+            [
+              client.describeRequest(endpoint, 'POST', formData, contentType),
+              ...(visibilityRule
+                ? [describeVisibilityRequest(client, formId, fieldId, visibilityRule)]
+                : []),
+            ],
+            { changes: [`field ${fieldId} would be added to form ${formId}'s draft`] }
+          );
+        }
+
+        const response = await client.request(endpoint, 'POST', formData, contentType);
+        if (visibilityRule) {
+          await setVisibilityRule(client, formId, fieldId, visibilityRule);
+        }
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Update Form Field
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/updateFormFieldUsingPOST
+  registerTool(
+    server,
+    'forms',
+    'marketo_update_form_field',
+    'write',
+    {
+      formId: z.number(),
+      fieldId: z.string(),
+      ...formFieldSettings,
+      visibilityRule: visibilityRuleParam,
+    },
+    async ({ formId, fieldId, visibilityRule, ...settings }, client, { dryRun }) => {
+      try {
+        const endpoint = `/asset/v1/form/${formId}/field/${encodeURIComponent(fieldId)}.json`;
+        const formData = encodeFormParams(settings);
+        const contentType = 'application/x-www-form-urlencoded';
+        const hasSettings = Object.keys(formData).length > 0;
+        if (!hasSettings && !visibilityRule) {
+          throw new ToolInputError(
+            'Nothing to update: give at least one setting or a visibilityRule.'
+          );
+        }
+
+        if (dryRun) {
+          const fields = await client.request(`/asset/v1/form/${formId}/fields.json`, 'GET');
+          const field = (fields.result ?? []).find((item: any) => item.id === fieldId);
+          const changes = field
+            ? describeFieldChanges(
+                `field ${fieldId}`,
+                { ...field, ...field.fieldMetaData },
+                settings
+              )
+            : [`form ${formId} has no field ${fieldId}`];
+          if (field && visibilityRule) {
+            changes.push(
+              `field ${fieldId}'s visibility rule would change from ${field.visibilityRules?.ruleType ?? 'alwaysShow'} to ${visibilityRule.ruleType}`
+            );
+          }
+          return formatDryRun(
+            client,
+            [
+              ...(hasSettings
+                ? [client.describeRequest(endpoint, 'POST', formData, contentType)]
+                : []),
+              ...(visibilityRule
+                ? [describeVisibilityRequest(client, formId, fieldId, visibilityRule)]
+                : []),
+            ],
+            { current: field, changes }
+          );
+        }
+
+        let response: any;
+        if (hasSettings) {
+          response = await client.request(endpoint, 'POST', formData, contentType);
+        }
+        if (visibilityRule) {
+          response = await setVisibilityRule(client, formId, fieldId, visibilityRule);
+        }
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Add Form Rich Text
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/addRichTextFieldUsingPOST
+  registerTool(
+    server,
+    'forms',
+    'marketo_add_form_rich_text',
+    'write',
+    {
+      formId: z.number(),
+      text: z.string(),
+    },
+    async ({ formId, text }, client, { dryRun }) => {
+      try {
+        const endpoint = `/asset/v1/form/${formId}/richText.json`;
+        const formData = { text };
+        const contentType = 'application/x-www-form-urlencoded';
+
+        if (dryRun) {
+          return formatDryRun(
+            client,
+            client.describeRequest(endpoint, 'POST', formData, contentType),
+            { changes: [`a rich text field would be added to form ${formId}'s draft`] }
+          );
+        }
+
+        const response = await client.request(endpoint, 'POST', formData, contentType);
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Add Form Fieldset
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/addFieldSetUsingPOST
+  registerTool(
+    server,
+    'forms',
+    'marketo_add_form_fieldset',
+    'write',
+    {
+      formId: z.number(),
+      label: z.string(),
+    },
+    async ({ formId, label }, client, { dryRun }) => {
+      try {
+        const endpoint = `/asset/v1/form/${formId}/fieldSet.json`;
+        const formData = { label };
+        const contentType = 'application/x-www-form-urlencoded';
+
+        if (dryRun) {
+          return formatDryRun(
+            client,
+            client.describeRequest(endpoint, 'POST', formData, contentType),
+            { changes: [`fieldset "${label}" would be added to form ${formId}'s draft`] }
+          );
+        }
+
+        const response = await client.request(endpoint, 'POST', formData, contentType);
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Update Form Submit Button
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/updateFormSubmitButtonUsingPOST
+  registerTool(
+    server,
+    'forms',
+    'marketo_update_form_submit_button',
+    'write',
+    {
+      formId: z.number(),
+      label: z.string().optional(),
+      waitingLabel: z.string().optional(),
+      buttonPosition: z.number().optional(),
+      buttonStyle: z.string().optional(),
+    },
+    async ({ formId, ...settings }, client, { dryRun }) => {
+      try {
+        const endpoint = `/asset/v1/form/${formId}/submitButton.json`;
+        const formData = encodeFormParams(settings);
+        const contentType = 'application/x-www-form-urlencoded';
+
+        if (dryRun) {
+          const form = await readEntity(client, `/asset/v1/form/${formId}.json`);
+          const current = form && {
+            label: form.buttonLabel,
+            waitingLabel: form.waitingLabel,
+            buttonPosition: form.buttonLocation,
+            buttonStyle: form.buttonStyle,
+          };
+          return formatDryRun(
+            client,
+            client.describeRequest(endpoint, 'POST', formData, contentType),
+            {
+              current,
+              changes: current
+                ? describeFieldChanges(`form ${formId}'s submit button`, current, settings)
+                : [`form ${formId} was not found`],
+            }
+          );
+        }
+
+        const response = await client.request(endpoint, 'POST', formData, contentType);
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Update Form Thank You Page
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/updateThankYouPageByIdUsingPOST
+  registerTool(
+    server,
+    'forms',
+    'marketo_update_form_thank_you',
+    'write',
+    {
+      formId: z.number(),
+      thankYouList: z
+        .array(
+          z.object({
+            followupType: z.enum(['url', 'lp', 'none']),
+            followupValue: z.union([z.string(), z.number()]).optional(),
+            default: z.boolean().optional(),
+            subjectField: z.string().optional(),
+            operator: z.string().optional(),
+            values: z.array(z.string()).optional(),
+          })
+        )
+        .min(1),
+    },
+    async ({ formId, thankYouList }, client, { dryRun }) => {
+      try {
+        const endpoint = `/asset/v1/form/${formId}/thankYouPage.json`;
+        const formData = { thankyou: JSON.stringify(thankYouList) };
+        const contentType = 'application/x-www-form-urlencoded';
+
+        if (dryRun) {
+          const form = await readEntity(client, `/asset/v1/form/${formId}.json`);
+          return formatDryRun(
+            client,
+            client.describeRequest(endpoint, 'POST', formData, contentType),
+            {
+              current: form?.thankYouList,
+              changes: form
+                ? [
+                    `form ${formId}'s ${form.thankYouList?.length ?? 0} thank-you rules would be replaced by ${thankYouList.length}`,
+                  ]
+                : [`form ${formId} was not found`],
+            }
+          );
+        }
+
+        const response = await client.request(endpoint, 'POST', formData, contentType);
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Export Form
+  registerTool(
+    server,
+    'forms',
+    'marketo_export_form',
+    'read',
+    {
+      formId: z.number(),
+      outputPath: z.string().optional(),
+    },
+    async ({ formId, outputPath }, client) => {
+      try {
+        const form = await readEntity(client, `/asset/v1/form/${formId}.json`);
+        if (!form) {
+          throw new ToolInputError(`No form found with ID ${formId}.`);
+        }
+        const fields = await client.request(`/asset/v1/form/${formId}/fields.json`, 'GET');
+        const definition = buildFormDefinition(form, fields.result ?? [], client.name);
+
+        const notes: string[] = [];
+        if (outputPath !== undefined) {
+          const filePath = resolveExportPath(MARKETO_EXPORT_DIR, outputPath, `form-${formId}.json`);
+          await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+          await fs.promises.writeFile(filePath, JSON.stringify(definition, null, 2) + '\n');
+          notes.push(`Form definition written to ${filePath}`);
+        }
+        return formatToolData(definition, notes);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Import Form
+  registerTool(
+    server,
+    'forms',
+    'marketo_import_form',
+    'write',
+    {
+      filePath: z.string().optional(),
+      definition: z.record(z.string(), z.any()).optional(),
+      name: z.string().optional(),
+      ...folderParams,
+    },
+    async (
+      { filePath, definition, name, folderId, folderPath, folderType },
+      client,
+      { dryRun }
+    ) => {
+      try {
+        if (!filePath === !definition) {
+          throw new ToolInputError('Give either filePath or definition.');
+        }
+        const source = filePath && resolveImportPath(MARKETO_IMPORT_DIR, filePath);
+        const parsed = parseFormDefinition(
+          definition ?? JSON.parse(await fs.promises.readFile(source!, 'utf-8'))
+        );
+        const folder = await requireFolder(client, folderId, folderPath, folderType);
+
+        if (dryRun) {
+          return formatDryRun(client, planFormImport(client, parsed, name, folder), {
+            changes: [
+              `form "${name ?? parsed.name}" would be created in ${folder.type.toLowerCase()} ${folder.id}`,
+              ...describeFormItems(parsed.items),
+            ],
+          });
+        }
+
+        return await importFormDefinition(client, parsed, name, folder);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+}
+
+// Smart list tools
+function registerSmartListTools(server: McpServer) {
+  // Tool: Get Smart Lists
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/getSmartListsUsingGET
+  registerTool(
+    server,
+    'smartlists',
+    'marketo_get_smart_lists',
+    'read',
+    {
+      maxReturn: z.number().optional(),
+      offset: z.number().optional(),
+      ...fetchAllOptions,
+      ...outputOptions,
+    },
+    async (
+      { maxReturn = 200, offset = 0, fetchAll = false, maxRecords, fields, format, maxChars },
+      client
+    ) => {
+      try {
+        const fetchPage = (pageOffset: number, pageSize: number) => {
+          const params = new URLSearchParams({
+            maxReturn: pageSize.toString(),
+            offset: pageOffset.toString(),
+          });
+
+          return client.request(`/asset/v1/smartLists.json?${params.toString()}`, 'GET');
+        };
+
+        const response = await paginateByOffset(fetchPage, {
+          fetchAll,
+          offset,
+          pageSize: maxReturn,
+          maxRecords: resolveMaxRecords(maxRecords),
+        });
+
+        return formatToolResponse(response, { fields, format, maxChars, paging: 'offset' });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Get Smart List by ID
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/getSmartListByIdUsingGET
+  registerTool(
+    server,
+    'smartlists',
+    'marketo_get_smart_list_by_id',
+    'read',
+    {
+      smartListId: z.number(),
+      ...outputOptions,
+    },
+    async ({ smartListId, fields, format, maxChars }, client) => {
+      try {
+        const response = await client.request(`/asset/v1/smartList/${smartListId}.json`, 'GET');
+
+        return formatToolResponse(response, { fields, format, maxChars });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+}
+
+// Channel tools
+function registerChannelTools(server: McpServer) {
+  // Tool: Get Channels
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/getChannelsUsingGET
+  registerTool(
+    server,
+    'channels',
+    'marketo_get_channels',
+    'read',
+    {
+      maxReturn: z.number().optional(),
+      offset: z.number().optional(),
+      ...fetchAllOptions,
+      ...outputOptions,
+    },
+    async (
+      { maxReturn = 200, offset = 0, fetchAll = false, maxRecords, fields, format, maxChars },
+      client
+    ) => {
+      try {
+        const fetchPage = (pageOffset: number, pageSize: number) => {
+          const params = new URLSearchParams({
+            maxReturn: pageSize.toString(),
+            offset: pageOffset.toString(),
+          });
+
+          return client.request(`/asset/v1/channels.json?${params.toString()}`, 'GET');
+        };
+
+        const response = await paginateByOffset(fetchPage, {
+          fetchAll,
+          offset,
+          pageSize: maxReturn,
+          maxRecords: resolveMaxRecords(maxRecords),
+        });
+
+        return formatToolResponse(response, { fields, format, maxChars, paging: 'offset' });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Get Channel by ID
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/getChannelByIdUsingGET
+  registerTool(
+    server,
+    'channels',
+    'marketo_get_channel_by_id',
+    'read',
+    {
+      channelId: z.number(),
+      ...outputOptions,
+    },
+    async ({ channelId, fields, format, maxChars }, client) => {
+      try {
+        const response = await client.request(`/asset/v1/channel/${channelId}.json`, 'GET');
+
+        return formatToolResponse(response, { fields, format, maxChars });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Create Channel
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/createChannelUsingPOST
+  registerTool(
+    server,
+    'channels',
+    'marketo_create_channel',
+    'write',
+    {
+      name: z.string(),
+      description: z.string().optional(),
+      type: z.string(),
+      applicationId: z.number().optional(),
+    },
+    async ({ name, description, type, applicationId }, client, { dryRun }) => {
+      try {
+        const data = {
+          name,
+          description,
+          type,
+          applicationId,
+        };
+
+        if (dryRun) {
+          return formatDryRun(
+            client,
+            client.describeRequest('/asset/v1/channels.json', 'POST', data),
+            {
+              changes: [`a new ${type} channel "${name}" would be created`],
+            }
+          );
+        }
+
+        const response = await client.request('/asset/v1/channels.json', 'POST', data);
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Update Channel
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/updateChannelUsingPOST
+  registerTool(
+    server,
+    'channels',
+    'marketo_update_channel',
+    'write',
+    {
+      channelId: z.number(),
+      name: z.string().optional(),
+      description: z.string().optional(),
+      type: z.string().optional(),
+      applicationId: z.number().optional(),
+    },
+    async ({ channelId, name, description, type, applicationId }, client, { dryRun }) => {
+      try {
+        const endpoint = `/asset/v1/channel/${channelId}.json`;
+        const data = {
+          name,
+          description,
+          type,
+          applicationId,
+        };
+
+        if (dryRun) {
+          const channel = await readEntity(client, endpoint);
+          return formatDryRun(client, client.describeRequest(endpoint, 'POST', data), {
+            current: channel,
+            changes: channel
+              ? describeFieldChanges(`channel ${channelId}`, channel, data)
+              : [`channel ${channelId} was not found`],
+          });
+        }
+
+        const response = await client.request(endpoint, 'POST', data);
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Delete Channel
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/deleteChannelUsingPOST
+  registerTool(
+    server,
+    'channels',
+    'marketo_delete_channel',
+    'destructive',
+    {
+      channelId: z.number(),
+    },
+    async ({ channelId }, client, { dryRun }) => {
+      try {
+        const endpoint = `/asset/v1/channel/${channelId}/delete.json`;
+
+        if (dryRun) {
+          const channel = await readEntity(client, `/asset/v1/channel/${channelId}.json`);
+          return formatDryRun(client, client.describeRequest(endpoint, 'POST'), {
+            current: channel,
+            changes: channel
+              ? [`channel ${channelId} ("${channel.name}") would be deleted`]
+              : [`channel ${channelId} was not found`],
+          });
+        }
+
+        const response = await client.request(endpoint, 'POST');
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    },
+    async ({ channelId }, client) => {
+      const channel = await readEntity(client, `/asset/v1/channel/${channelId}.json`);
+      return { channel: channel && { id: channel.id, name: channel.name } };
+    }
+  );
+}
+
+// Formats a My Token name the way campaign endpoints expect it, as {{my.Name}}
+function formatMyTokenName(name: string): string {
+  const trimmed = name.trim();
+  if (trimmed.startsWith('{{')) {
+    return trimmed;
+  }
+  return `{{my.${trimmed.replace(/^my\./, '')}}}`;
+}
+
+// My Token overrides for campaign requests
+const myTokensParam = z
+  .array(z.object({ name: z.string(), value: z.string() }))
+  .max(100)
+  .optional();
+
+function resolveMyTokens(tokens?: { name: string; value: string }[]) {
+  return tokens?.map((token) => ({ name: formatMyTokenName(token.name), value: token.value }));
+}
+
+// Email tools
+function registerEmailTools(server: McpServer) {
+  // Tool: Get Emails
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/getEmailUsingGET
+  registerTool(
+    server,
+    'emails',
+    'marketo_get_emails',
+    'read',
+    {
+      maxReturn: z.number().optional(),
+      offset: z.number().optional(),
+      status: z.enum(['approved', 'draft']).optional(),
+      ...folderParams,
+      earliestUpdatedAt: z.string().optional(),
+      latestUpdatedAt: z.string().optional(),
+      ...fetchAllOptions,
+      ...outputOptions,
+    },
+    async (
+      {
+        maxReturn = 200,
+        offset = 0,
+        status,
+        folderId,
+        folderPath,
+        folderType,
+        earliestUpdatedAt,
+        latestUpdatedAt,
+        fetchAll = false,
+        maxRecords,
+        fields,
+        format,
+        maxChars,
+      },
+      client
+    ) => {
+      try {
+        const folder = await resolveFolder(client, folderId, folderPath, folderType);
+
+        const fetchPage = (pageOffset: number, pageSize: number) => {
+          const params = new URLSearchParams({
+            maxReturn: pageSize.toString(),
+            offset: pageOffset.toString(),
+          });
+
+          if (status) {
+            params.append('status', status);
+          }
+          if (folder) {
+            params.append('folder', JSON.stringify(folder));
+          }
+          if (earliestUpdatedAt) {
+            params.append('earliestUpdatedAt', earliestUpdatedAt);
+          }
+          if (latestUpdatedAt) {
+            params.append('latestUpdatedAt', latestUpdatedAt);
+          }
+
+          return client.request(`/asset/v1/emails.json?${params.toString()}`, 'GET');
+        };
+
+        const response = await paginateByOffset(fetchPage, {
+          fetchAll,
+          offset,
+          pageSize: maxReturn,
+          maxRecords: resolveMaxRecords(maxRecords),
+        });
+
+        return formatToolResponse(response, { fields, format, maxChars, paging: 'offset' });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Get Email by ID
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/getEmailByIdUsingGET
+  registerTool(
+    server,
+    'emails',
+    'marketo_get_email_by_id',
+    'read',
+    {
+      emailId: z.number(),
+      status: z.enum(['approved', 'draft']).optional(),
+      ...outputOptions,
+    },
+    async ({ emailId, status, fields, format, maxChars }, client) => {
+      try {
+        const query = status ? `?status=${status}` : '';
+        const response = await client.request(`/asset/v1/email/${emailId}.json${query}`, 'GET');
+
+        return formatToolResponse(response, { fields, format, maxChars });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Get Email Content
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/getEmailContentByIdUsingGET
+  registerTool(
+    server,
+    'emails',
+    'marketo_get_email_content',
+    'read',
+    {
+      emailId: z.number(),
+      status: z.enum(['approved', 'draft']).optional(),
+    },
+    async ({ emailId, status }, client) => {
+      try {
+        const query = status ? `?status=${status}` : '';
+        const response = await client.request(
+          `/asset/v1/email/${emailId}/content.json${query}`,
+          'GET'
+        );
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Update Email Content Section
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/updateEmailComponentContentUsingPOST
+  registerTool(
+    server,
+    'emails',
+    'marketo_update_email_content_section',
+    'write',
+    {
+      emailId: z.number(),
+      htmlId: z.string(),
+      type: z.enum(['Text', 'DynamicContent', 'Snippet']).optional(),
+      value: z.string(),
+      textValue: z.string().optional(),
+    },
+    async ({ emailId, htmlId, type = 'Text', value, textValue }, client, { dryRun }) => {
+      try {
+        const endpoint = `/asset/v1/email/${emailId}/content/${encodeURIComponent(htmlId)}.json`;
+        const formData = { type, value, textValue };
+        const contentType = 'application/x-www-form-urlencoded';
+
+        if (dryRun) {
+          const content = await client.request(
+            `/asset/v1/email/${emailId}/content.json?status=draft`,
+            'GET'
+          );
+          const section = (content.result ?? []).find((item: any) => item.htmlId === htmlId);
+          return formatDryRun(
+            client,
+            client.describeRequest(endpoint, 'POST', formData, contentType),
+            {
+              current: section,
+              validation: section?.isLocked ? [`Section "${htmlId}" is locked`] : undefined,
+              changes: section
+                ? [`section "${htmlId}" of email ${emailId}'s draft would be replaced`]
+                : [`email ${emailId} has no section "${htmlId}"`],
+            }
+          );
+        }
+
+        const response = await client.request(endpoint, 'POST', formData, contentType);
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Send Email Sample
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/sendSampleEmailUsingPOST
+  registerTool(
+    server,
+    'emails',
+    'marketo_send_email_sample',
+    'write',
+    {
+      emailId: z.number(),
+      emailAddress: z.string().email(),
+      leadId: z.number().optional(),
+      textOnly: z.boolean().optional(),
+    },
+    async ({ emailId, emailAddress, leadId, textOnly }, client, { dryRun }) => {
+      try {
+        const endpoint = `/asset/v1/email/${emailId}/sendSample.json`;
+        const formData = {
+          emailAddress,
+          leadId: leadId?.toString(),
+          textOnly: textOnly?.toString(),
+        };
+        const contentType = 'application/x-www-form-urlencoded';
+
+        if (dryRun) {
+          const email = await readEntity(client, `/asset/v1/email/${emailId}.json`);
+          return formatDryRun(
+            client,
+            client.describeRequest(endpoint, 'POST', formData, contentType),
+            {
+              current: email,
+              changes: email
+                ? [
+                    `a sample of email ${emailId} ("${email.name}") would be sent to ${emailAddress}`,
+                  ]
+                : [`email ${emailId} was not found`],
+            }
+          );
+        }
+
+        const response = await client.request(endpoint, 'POST', formData, contentType);
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Approve Email
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/approveDraftUsingPOST
+  registerTool(
+    server,
+    'emails',
+    'marketo_approve_email',
+    'destructive',
+    {
+      emailId: z.number(),
+    },
+    async ({ emailId }, client, { dryRun }) => {
+      try {
+        const endpoint = `/asset/v1/email/${emailId}/approveDraft.json`;
+
+        if (dryRun) {
+          const email = await readEntity(client, `/asset/v1/email/${emailId}.json`);
+          return formatDryRun(client, client.describeRequest(endpoint, 'POST'), {
+            current: email,
+            changes: email
+              ? [`email ${emailId} ("${email.name}") would change from ${email.status} to approved`]
+              : [`email ${emailId} was not found`],
+          });
+        }
+
+        const response = await client.request(endpoint, 'POST');
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    },
+    async ({ emailId }, client) => {
+      const email = await readEntity(client, `/asset/v1/email/${emailId}.json`);
+      return { email: email && { id: email.id, name: email.name, status: email.status } };
+    }
+  );
+
+  // Tool: Unapprove Email
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/unapproveDraftUsingPOST
+  registerTool(
+    server,
+    'emails',
+    'marketo_unapprove_email',
+    'destructive',
+    {
+      emailId: z.number(),
+    },
+    async ({ emailId }, client, { dryRun }) => {
+      try {
+        const endpoint = `/asset/v1/email/${emailId}/unapprove.json`;
+
+        if (dryRun) {
+          const email = await readEntity(client, `/asset/v1/email/${emailId}.json`);
+          return formatDryRun(client, client.describeRequest(endpoint, 'POST'), {
+            current: email,
+            changes: email
+              ? [`email ${emailId} ("${email.name}") would change from ${email.status} to draft`]
+              : [`email ${emailId} was not found`],
+          });
+        }
+
+        const response = await client.request(endpoint, 'POST');
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    },
+    async ({ emailId }, client) => {
+      const email = await readEntity(client, `/asset/v1/email/${emailId}.json`);
+      return { email: email && { id: email.id, name: email.name, status: email.status } };
+    }
+  );
+}
+
+// Program tools
+function registerProgramTools(server: McpServer) {
+  // Tool: Get Programs
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/browseProgramsUsingGET
+  registerTool(
+    server,
+    'programs',
+    'marketo_get_programs',
+    'read',
+    {
+      maxReturn: z.number().optional(),
+      offset: z.number().optional(),
+      status: z.enum(['on', 'off', 'unlocked']).optional(),
+      filterType: z.enum(['id', 'programId', 'folderId', 'workspace']).optional(),
+      filterValues: z.array(z.union([z.string(), z.number()])).optional(),
+      earliestUpdatedAt: z.string().optional(),
+      latestUpdatedAt: z.string().optional(),
+      ...fetchAllOptions,
+      ...outputOptions,
+    },
+    async (
+      {
+        maxReturn = 200,
+        offset = 0,
+        status,
+        filterType,
+        filterValues,
+        earliestUpdatedAt,
+        latestUpdatedAt,
+        fetchAll = false,
+        maxRecords,
+        fields,
+        format,
+        maxChars,
+      },
+      client
+    ) => {
+      try {
+        if (filterType && !filterValues?.length) {
+          throw new ToolInputError('filterValues is required when filterType is set');
+        }
+
+        const fetchPage = (pageOffset: number, pageSize: number) => {
+          const params = new URLSearchParams({
+            maxReturn: pageSize.toString(),
+            offset: pageOffset.toString(),
+          });
+
+          if (status) {
+            params.append('status', status);
+          }
+          if (filterType && filterValues) {
+            params.append('filterType', filterType);
+            params.append('filterValues', filterValues.join(','));
+          }
+          if (earliestUpdatedAt) {
+            params.append('earliestUpdatedAt', earliestUpdatedAt);
+          }
+          if (latestUpdatedAt) {
+            params.append('latestUpdatedAt', latestUpdatedAt);
+          }
+
+          return client.request(`/asset/v1/programs.json?${params.toString()}`, 'GET');
+        };
+
+        const response = await paginateByOffset(fetchPage, {
+          fetchAll,
+          offset,
+          pageSize: maxReturn,
+          maxRecords: resolveMaxRecords(maxRecords),
+        });
+
+        return formatToolResponse(response, { fields, format, maxChars, paging: 'offset' });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Get Program by ID
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/getProgramByIdUsingGET
+  registerTool(
+    server,
+    'programs',
+    'marketo_get_program_by_id',
+    'read',
+    {
+      programId: z.number(),
+      ...outputOptions,
+    },
+    async ({ programId, fields, format, maxChars }, client) => {
+      try {
+        const response = await client.request(`/asset/v1/program/${programId}.json`, 'GET');
+
+        return formatToolResponse(response, { fields, format, maxChars });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Get Program by Name
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/getProgramByNameUsingGET
+  registerTool(
+    server,
+    'programs',
+    'marketo_get_program_by_name',
+    'read',
+    {
+      name: z.string(),
+      includeTags: z.boolean().optional(),
+      includeCosts: z.boolean().optional(),
+      ...outputOptions,
+    },
+    async ({ name, includeTags, includeCosts, fields, format, maxChars }, client) => {
+      try {
+        const params = new URLSearchParams({ name });
+        if (includeTags !== undefined) {
+          params.append('includeTags', String(includeTags));
+        }
+        if (includeCosts !== undefined) {
+          params.append('includeCosts', String(includeCosts));
+        }
+
+        const response = await client.request(
+          `/asset/v1/program/byName.json?${params.toString()}`,
+          'GET'
+        );
+
+        return formatToolResponse(response, { fields, format, maxChars });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Get Programs by Tag
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/getProgramListByTagUsingGET
+  registerTool(
+    server,
+    'programs',
+    'marketo_get_programs_by_tag',
+    'read',
+    {
+      tagType: z.string(),
+      tagValue: z.string(),
+      maxReturn: z.number().optional(),
+      offset: z.number().optional(),
+      ...fetchAllOptions,
+      ...outputOptions,
+    },
+    async (
+      {
+        tagType,
+        tagValue,
+        maxReturn = 20,
+        offset = 0,
+        fetchAll = false,
+        maxRecords,
+        fields,
+        format,
+        maxChars,
+      },
+      client
+    ) => {
+      try {
+        const fetchPage = (pageOffset: number, pageSize: number) => {
+          const params = new URLSearchParams({
+            tagType,
+            tagValue,
+            maxReturn: pageSize.toString(),
+            offset: pageOffset.toString(),
+          });
+
+          return client.request(`/asset/v1/program/byTag.json?${params.toString()}`, 'GET');
+        };
+
+        const response = await paginateByOffset(fetchPage, {
+          fetchAll,
+          offset,
+          pageSize: maxReturn,
+          maxRecords: resolveMaxRecords(maxRecords),
+        });
+
+        return formatToolResponse(response, { fields, format, maxChars, paging: 'offset' });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Clone Program
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/cloneProgramUsingPOST
+  registerTool(
+    server,
+    'programs',
+    'marketo_clone_program',
+    'write',
+    {
+      programId: z.number(),
+      name: z.string(),
+      description: z.string().optional(),
+      ...folderParams,
+    },
+    async (
+      { programId, name, description, folderId, folderPath, folderType },
+      client,
+      { dryRun }
+    ) => {
+      try {
+        const endpoint = `/asset/v1/program/${programId}/clone.json`;
+        const folder = await requireFolder(client, folderId, folderPath, folderType);
+        const formData = {
+          name,
+          description,
+          folder: JSON.stringify(folder),
+        };
+        const contentType = 'application/x-www-form-urlencoded';
+
+        if (dryRun) {
+          const program = await readEntity(client, `/asset/v1/program/${programId}.json`);
+          return formatDryRun(
+            client,
+            client.describeRequest(endpoint, 'POST', formData, contentType),
+            {
+              current: program,
+              changes: program
+                ? [
+                    `program ${programId} ("${program.name}") would be cloned as "${name}" into ${folder.type.toLowerCase()} ${folder.id}`,
+                  ]
+                : [`program ${programId} was not found`],
+            }
+          );
+        }
+
+        const response = await client.request(endpoint, 'POST', formData, contentType);
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+}
+
+// Smart campaign tools
+function registerCampaignTools(server: McpServer) {
+  // Tool: Get Smart Campaigns
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/getAllSmartCampaignsGET
+  registerTool(
+    server,
+    'campaigns',
+    'marketo_get_smart_campaigns',
+    'read',
+    {
+      maxReturn: z.number().optional(),
+      offset: z.number().optional(),
+      ...folderParams,
+      isActive: z.boolean().optional(),
+      earliestUpdatedAt: z.string().optional(),
+      latestUpdatedAt: z.string().optional(),
+      ...fetchAllOptions,
+      ...outputOptions,
+    },
+    async (
+      {
+        maxReturn = 200,
+        offset = 0,
+        folderId,
+        folderPath,
+        folderType,
+        isActive,
+        earliestUpdatedAt,
+        latestUpdatedAt,
+        fetchAll = false,
+        maxRecords,
+        fields,
+        format,
+        maxChars,
+      },
+      client
+    ) => {
+      try {
+        const folder = await resolveFolder(client, folderId, folderPath, folderType);
+
+        const fetchPage = (pageOffset: number, pageSize: number) => {
+          const params = new URLSearchParams({
+            maxReturn: pageSize.toString(),
+            offset: pageOffset.toString(),
+          });
+
+          if (folder) {
+            params.append('folder', JSON.stringify(folder));
+          }
+          if (isActive !== undefined) {
+            params.append('isActive', String(isActive));
+          }
+          if (earliestUpdatedAt) {
+            params.append('earliestUpdatedAt', earliestUpdatedAt);
+          }
+          if (latestUpdatedAt) {
+            params.append('latestUpdatedAt', latestUpdatedAt);
+          }
+
+          return client.request(`/asset/v1/smartCampaigns.json?${params.toString()}`, 'GET');
+        };
+
+        const response = await paginateByOffset(fetchPage, {
+          fetchAll,
+          offset,
+          pageSize: maxReturn,
+          maxRecords: resolveMaxRecords(maxRecords),
+        });
+
+        return formatToolResponse(response, { fields, format, maxChars, paging: 'offset' });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Trigger Campaign
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/triggerCampaignUsingPOST
+  registerTool(
+    server,
+    'campaigns',
+    'marketo_trigger_campaign',
+    'destructive',
+    {
+      campaignId: z.number(),
+      leadIds: z.array(z.number()).min(1).max(100),
+      tokens: myTokensParam,
+    },
+    async ({ campaignId, leadIds, tokens }, client, { dryRun }) => {
+      try {
+        const endpoint = `/rest/v1/campaigns/${campaignId}/trigger.json`;
+        const data = {
+          input: {
+            leads: leadIds.map((id) => ({ id })),
+            tokens: resolveMyTokens(tokens),
+          },
+        };
+
+        if (dryRun) {
+          const campaign = await readEntity(client, `/rest/v1/campaigns/${campaignId}.json`);
+          return formatDryRun(client, client.describeRequest(endpoint, 'POST', data), {
+            current: campaign,
+            validation:
+              campaign && !campaign.isTriggerable
+                ? [`Campaign ${campaignId} has no "Campaign is Requested" trigger`]
+                : undefined,
+            changes: campaign
+              ? [
+                  `${leadIds.length} leads would be sent through campaign ${campaignId} ("${campaign.name}")`,
+                ]
+              : [`campaign ${campaignId} was not found`],
+          });
+        }
+
+        const response = await client.request(endpoint, 'POST', data);
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    },
+    async ({ campaignId, leadIds }, client) => {
+      const campaign = await readEntity(client, `/rest/v1/campaigns/${campaignId}.json`);
+      return {
+        campaign: campaign && {
+          id: campaign.id,
+          name: campaign.name,
+          isTriggerable: campaign.isTriggerable,
+        },
+        leadCount: leadIds.length,
+      };
+    }
+  );
+
+  // Tool: Schedule Campaign
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/scheduleCampaignUsingPOST
+  registerTool(
+    server,
+    'campaigns',
+    'marketo_schedule_campaign',
+    'destructive',
+    {
+      campaignId: z.number(),
+      runAt: z.string().datetime({ offset: true }).optional(),
+      cloneToProgramName: z.string().optional(),
+      tokens: myTokensParam,
+    },
+    async ({ campaignId, runAt, cloneToProgramName, tokens }, client, { dryRun }) => {
+      try {
+        const endpoint = `/rest/v1/campaigns/${campaignId}/schedule.json`;
+        const data = {
+          input: {
+            runAt,
+            cloneToProgramName,
+            tokens: resolveMyTokens(tokens),
+          },
+        };
+
+        if (dryRun) {
+          const campaign = await readEntity(client, `/rest/v1/campaigns/${campaignId}.json`);
+          return formatDryRun(client, client.describeRequest(endpoint, 'POST', data), {
+            current: campaign,
+            changes: campaign
+              ? [
+                  `batch campaign ${campaignId} ("${campaign.name}") would be scheduled to run ${runAt ? `at ${runAt}` : 'in 5 minutes'}`,
+                ]
+              : [`campaign ${campaignId} was not found`],
+          });
+        }
+
+        const response = await client.request(endpoint, 'POST', data);
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    },
+    async ({ campaignId, runAt, cloneToProgramName }, client) => {
+      const campaign = await readEntity(client, `/rest/v1/campaigns/${campaignId}.json`);
+      return {
+        campaign: campaign && { id: campaign.id, name: campaign.name, type: campaign.type },
+        runAt: runAt ?? 'in 5 minutes',
+        cloneToProgramName,
+      };
+    }
+  );
+}
+
+// Lead tools
+function registerLeadTools(server: McpServer) {
+  // Tool: Get Lead by ID
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/getLeadByIdUsingGET
+  registerTool(
+    server,
+    'leads',
+    'marketo_get_lead_by_id',
+    'read',
+    {
+      leadId: z.number(),
+      fields: z.array(z.string()).optional(),
+      ...formatOptions,
+    },
+    async ({ leadId, fields, format, maxChars }, client) => {
+      try {
+        const params = new URLSearchParams();
+        if (fields) {
+          params.append('fields', fields.join(','));
+        }
+
+        const response = await client.request(
+          `/rest/v1/lead/${leadId}.json${params.toString() ? `?${params.toString()}` : ''}`,
+          'GET'
+        );
+
+        return formatToolResponse(response, { format, maxChars });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Get Lead by Email
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/getLeadByEmailUsingGET
+  registerTool(
+    server,
+    'leads',
+    'marketo_get_lead_by_email',
+    'read',
+    {
+      email: z.string().email(),
+      fields: z.array(z.string()).optional(),
+      ...formatOptions,
+    },
+    async ({ email, fields, format, maxChars }, client) => {
+      try {
+        const params = new URLSearchParams();
+        if (fields) {
+          params.append('fields', fields.join(','));
+        }
+
+        // URL-encode the email to handle special characters safely
+        const encodedEmail = encodeURIComponent(email);
+        const response = await client.request(
+          `/rest/v1/lead/${encodedEmail}.json${params.toString() ? `?${params.toString()}` : ''}`,
+          'GET'
+        );
+
+        return formatToolResponse(response, { format, maxChars });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Search Leads
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/getLeadsByFilterUsingGET
+  registerTool(
+    server,
+    'leads',
+    'marketo_search_leads',
+    'read',
+    {
+      filterType: z.string(),
+      filterValues: z.array(z.union([z.string(), z.number()])).min(1),
+      fields: z.array(z.string()).optional(),
+      batchSize: z.number().optional(),
+      nextPageToken: z.string().optional(),
+      ...fetchAllOptions,
+      ...formatOptions,
+    },
+    async (
+      {
+        filterType,
+        filterValues,
+        fields,
+        batchSize = 300,
+        nextPageToken,
+        fetchAll = false,
+        maxRecords,
+        format,
+        maxChars,
+      },
+      client
+    ) => {
+      try {
+        const response = await searchRecords(
+          client,
+          '/rest/v1/leads.json',
+          filterType,
+          filterValues,
+          fields,
+          {
+            fetchAll,
+            nextPageToken,
+            pageSize: batchSize,
+            maxRecords: resolveMaxRecords(maxRecords),
+          }
+        );
+
+        return formatToolResponse(response, { format, maxChars, paging: 'token' });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Find Duplicate Leads
+  registerTool(
+    server,
+    'leads',
+    'marketo_find_duplicate_leads',
+    'read',
+    {
+      matchBy: z.enum(DUPLICATE_MATCH_RULES).optional(),
+      filterType: z.string().optional(),
+      filterValues: z.array(z.union([z.string(), z.number()])).optional(),
+      listId: z.number().optional(),
+      fields: z.array(z.string()).optional(),
+      maxRecords: z.number().int().positive().optional(),
+    },
+    async (
+      { matchBy = 'email', filterType, filterValues, listId, fields = [], maxRecords },
+      client
+    ) => {
+      try {
+        const requested = [...new Set([...DUPLICATE_LEAD_FIELDS, ...fields])];
+        const paging = {
+          fetchAll: true,
+          pageSize: 300,
+          maxRecords: resolveMaxRecords(maxRecords),
+        };
+
+        // Candidates come from a static list or a search, such as every lead at some companies
+        let response: any;
+        if (listId !== undefined) {
+          response = await paginateByToken((pageToken, pageSize) => {
+            const params = new URLSearchParams({
+              batchSize: pageSize.toString(),
+              fields: requested.join(','),
+            });
+            if (pageToken) {
+              params.append('nextPageToken', pageToken);
+            }
+            return client.request(
+              `/rest/v1/lists/${listId}/leads.json?${params.toString()}`,
+              'GET'
+            );
+          }, paging);
+        } else if (filterType && filterValues && filterValues.length > 0) {
+          response = await searchRecords(
+            client,
+            '/rest/v1/leads.json',
+            filterType,
+            filterValues,
+            requested,
+            paging
+          );
+        } else {
+          throw new ToolInputError(
+            'Provide listId, or filterType with filterValues, to choose the leads to check.'
+          );
+        }
+
+        const candidates: any[] = response.result ?? [];
+        const groups = findDuplicateGroups(candidates, matchBy);
+        const summary = {
+          matchBy,
+          leadsChecked: candidates.length,
+          truncated: response.truncated ?? false,
+          groupCount: groups.length,
+          groups,
+        };
+
+        return formatToolData(summary);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Describe Leads
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/describeUsingGET_6
+  registerTool(
+    server,
+    'leads',
+    'marketo_describe_leads',
+    'read',
+    {
+      search: z.string().optional(),
+      updateableOnly: z.boolean().optional(),
+      refresh: z.boolean().optional(),
+    },
+    async ({ search, updateableOnly = false, refresh = false }, client) => {
+      try {
+        const term = search?.toLowerCase();
+        const fields = (await getLeadFieldCatalog(client, refresh)).filter(
+          (field) =>
+            (!updateableOnly || field.updateable) &&
+            (!term ||
+              field.name.toLowerCase().includes(term) ||
+              field.displayName?.toLowerCase().includes(term))
+        );
+
+        return formatToolData({ count: fields.length, fields });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Create/Update Lead
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/createOrUpdateLeadsUsingPOST
+  registerTool(
+    server,
+    'leads',
+    'marketo_create_or_update_lead',
+    'write',
+    {
+      input: z.array(
+        z.object({
+          email: z.string().email(),
+          firstName: z.string().optional(),
+          lastName: z.string().optional(),
+          company: z.string().optional(),
+          title: z.string().optional(),
+          phone: z.string().optional(),
+          address: z.string().optional(),
+          city: z.string().optional(),
+          state: z.string().optional(),
+          zipCode: z.string().optional(),
+          country: z.string().optional(),
+          website: z.string().optional(),
+          customFields: z.record(z.string(), z.any()).optional(),
+        })
+      ),
+      lookupField: z.enum(['email', 'id', 'cookie']).optional(),
+      partitionName: z.string().optional(),
+      validate: z.boolean().optional(),
+    },
+    async (
+      { input, lookupField = 'email', partitionName, validate = true },
+      client,
+      { dryRun }
+    ) => {
+      try {
+        // Marketo expects custom fields alongside the standard ones in each record
+        const records = input.map(({ customFields, ...standardFields }) => ({
+          ...standardFields,
+          ...customFields,
+        }));
+        const data = {
+          input: records,
+          lookupField,
+          partitionName,
+        };
+
+        if (dryRun) {
+          const issues = validate
+            ? validateLeadRecords(records, await getLeadFieldCatalog(client), lookupField)
+            : undefined;
+          const existing = await findLeadsByLookup(client, records, lookupField);
+          return formatDryRun(client, client.describeRequest('/rest/v1/leads.json', 'POST', data), {
+            validation: issues,
+            current: existing,
+            changes: existing
+              ? describeLeadChanges(records, existing, lookupField)
+              : [`${records.length} leads would be upserted by ${lookupField}`],
+          });
+        }
+
+        if (validate) {
+          const issues = validateLeadRecords(
+            records,
+            await getLeadFieldCatalog(client),
+            lookupField
+          );
+          if (issues.length > 0) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Validation failed, nothing was sent to Marketo:\n${JSON.stringify(issues, null, 2)}`,
+                },
+              ],
+              isError: true,
+            };
+          }
+        }
+
+        const response = await client.request('/rest/v1/leads.json', 'POST', data);
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Delete Lead
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/deleteLeadUsingPOST
+  registerTool(
+    server,
+    'leads',
+    'marketo_delete_lead',
+    'destructive',
+    {
+      leadId: z.number(),
+    },
+    async ({ leadId }, client, { dryRun }) => {
+      try {
+        const endpoint = `/rest/v1/leads/${leadId}/delete.json`;
+
+        if (dryRun) {
+          const lead = await readEntity(client, `/rest/v1/lead/${leadId}.json`);
+          return formatDryRun(client, client.describeRequest(endpoint, 'POST'), {
+            current: lead,
+            changes: lead
+              ? [`lead ${leadId} (${lead.email ?? 'no email'}) would be deleted`]
+              : [`lead ${leadId} was not found`],
+          });
+        }
+
+        const response = await client.request(endpoint, 'POST');
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    },
+    async ({ leadId }, client) => {
+      const lead = await readEntity(client, `/rest/v1/lead/${leadId}.json`);
+      return { lead: lead ?? null };
+    }
+  );
+  // Tool: Merge Leads
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/mergeLeadsUsingPOST
+  registerTool(
+    server,
+    'leads',
+    'marketo_merge_leads',
+    'destructive',
+    {
+      // The winner and up to three leads merged into it
+      leadIds: z.array(z.number()).min(2).max(MERGE_MAX_LEADS),
+      winnerId: z.number().optional(),
+      winnerRule: z.enum(MERGE_WINNER_RULES).optional(),
+      activityTypeIds: activityTypesParam.optional(),
+      activitySince: z.string().datetime({ offset: true }).optional(),
+      mergeInCRM: z.boolean().optional(),
+    },
+    async (args, client, { dryRun, confirmedPreview }) => {
+      try {
+        // A confirmed merge keeps the winner its preview showed, even if the leads changed since
+        const plan =
+          (confirmedPreview as MergePreview | undefined) ?? (await planLeadMerge(client, args));
+        const params = new URLSearchParams({
+          leadIds: plan.losers.map((lead) => lead.id).join(','),
+        });
+        if (args.mergeInCRM !== undefined) {
+          params.append('mergeInCRM', String(args.mergeInCRM));
+        }
+        const endpoint = `/rest/v1/leads/${plan.winner.id}/merge.json?${params.toString()}`;
+
+        if (dryRun) {
+          return formatDryRun(client, client.describeRequest(endpoint, 'POST'), {
+            current: {
+              winner: plan.winner,
+              losers: plan.losers,
+              differingFields: plan.differingFields,
+            },
+            changes: [
+              `lead ${plan.winner.id} would be kept, as ${plan.reason}`,
+              ...plan.losers.map(
+                (lead) => `lead ${lead.id} (${lead.email ?? 'no email'}) would be merged into it`
+              ),
+            ],
+          });
+        }
+
+        const response = await client.request(endpoint, 'POST');
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    },
+    (args, client) => planLeadMerge(client, args)
+  );
+}
+
+// Activity tools
+function registerActivityTools(server: McpServer) {
+  // Tool: Get Activity Types
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/getAllActivityTypesUsingGET
+  registerTool(
+    server,
+    'activities',
+    'marketo_get_activity_types',
+    'read',
+    {
+      search: z.string().optional(),
+      refresh: z.boolean().optional(),
+    },
+    async ({ search, refresh = false }, client) => {
+      try {
+        const term = search?.toLowerCase();
+        const types = (await getActivityTypeCatalog(client, refresh)).filter(
+          (type) => !term || type.name.toLowerCase().includes(term)
+        );
+
+        return formatToolData({ count: types.length, types });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Get Lead Activities
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/getLeadActivitiesUsingGET
+  registerTool(
+    server,
+    'activities',
+    'marketo_get_lead_activities',
+    'read',
+    {
+      leadId: z.number(),
+      activityTypeIds: activityTypesParam.optional(),
+      nextPageToken: z.string().optional(),
+      sinceDatetime: z.string().datetime({ offset: true }).optional(),
+      batchSize: z.number().optional(),
+      ...fetchAllOptions,
+      ...outputOptions,
+    },
+    async (
+      {
+        leadId,
+        activityTypeIds,
+        nextPageToken,
+        sinceDatetime,
+        batchSize = 100,
+        fetchAll = false,
+        maxRecords,
+        fields,
+        format,
+        maxChars,
+      },
+      client
+    ) => {
+      try {
+        const typeIds = await resolveActivityTypes(client, activityTypeIds);
+        const fetchPage = (pageToken: string | undefined, pageSize: number) => {
+          const params = new URLSearchParams({
+            batchSize: pageSize.toString(),
+          });
+
+          if (typeIds) {
+            params.append('activityTypeIds', typeIds.join(','));
+          }
+          if (pageToken) {
+            params.append('nextPageToken', pageToken);
+          }
+
+          return client.request(
+            `/rest/v1/activities/lead/${leadId}.json?${params.toString()}`,
+            'GET'
+          );
+        };
+
+        const response = await paginateByToken(fetchPage, {
+          fetchAll,
+          nextPageToken: await resolveStartToken(client, nextPageToken, sinceDatetime),
+          pageSize: batchSize,
+          maxRecords: resolveMaxRecords(maxRecords),
+        });
+
+        return formatToolResponse(await enrichActivityResponse(client, response), {
+          fields,
+          format,
+          maxChars,
+          paging: 'token',
+        });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Get Lead Changes
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/getLeadChangesUsingGET
+  registerTool(
+    server,
+    'activities',
+    'marketo_get_lead_changes',
+    'read',
+    {
+      leadId: z.number(),
+      fields: z.array(z.string()).optional(),
+      nextPageToken: z.string().optional(),
+      sinceDatetime: z.string().datetime({ offset: true }).optional(),
+      batchSize: z.number().optional(),
+      ...fetchAllOptions,
+      ...formatOptions,
+    },
+    async (
+      {
+        leadId,
+        fields,
+        nextPageToken,
+        sinceDatetime,
+        batchSize = 100,
+        fetchAll = false,
+        maxRecords,
+        format,
+        maxChars,
+      },
+      client
+    ) => {
+      try {
+        const fetchPage = (pageToken: string | undefined, pageSize: number) => {
+          const params = new URLSearchParams({
+            batchSize: pageSize.toString(),
+          });
+
+          if (fields) {
+            params.append('fields', fields.join(','));
+          }
+          if (pageToken) {
+            params.append('nextPageToken', pageToken);
+          }
+
+          return client.request(
+            `/rest/v1/activities/lead/${leadId}/changes.json?${params.toString()}`,
+            'GET'
+          );
+        };
+
+        const response = await paginateByToken(fetchPage, {
+          fetchAll,
+          nextPageToken: await resolveStartToken(client, nextPageToken, sinceDatetime),
+          pageSize: batchSize,
+          maxRecords: resolveMaxRecords(maxRecords),
+        });
+
+        return formatToolResponse(await enrichActivityResponse(client, response), {
+          format,
+          maxChars,
+          paging: 'token',
+        });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+}
+
+// Static list tools
+function registerListTools(server: McpServer) {
+  // Tool: Get Lists
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/getStaticListsUsingGET
+  registerTool(
+    server,
+    'lists',
+    'marketo_get_lists',
+    'read',
+    {
+      ...folderParams,
+      earliestUpdatedAt: z.string().optional(),
+      latestUpdatedAt: z.string().optional(),
+      maxReturn: z.number().optional(),
+      offset: z.number().optional(),
+      ...fetchAllOptions,
+      ...outputOptions,
+    },
+    async (
+      {
+        folderId,
+        folderPath,
+        folderType,
+        earliestUpdatedAt,
+        latestUpdatedAt,
+        maxReturn = 200,
+        offset = 0,
+        fetchAll = false,
+        maxRecords,
+        fields,
+        format,
+        maxChars,
+      },
+      client
+    ) => {
+      try {
+        const folder = await resolveFolder(client, folderId, folderPath, folderType);
+
+        const fetchPage = (pageOffset: number, pageSize: number) => {
+          const params = new URLSearchParams({
+            maxReturn: pageSize.toString(),
+            offset: pageOffset.toString(),
+          });
+
+          if (folder) {
+            params.append('folder', JSON.stringify(folder));
+          }
+          if (earliestUpdatedAt) {
+            params.append('earliestUpdatedAt', earliestUpdatedAt);
+          }
+          if (latestUpdatedAt) {
+            params.append('latestUpdatedAt', latestUpdatedAt);
+          }
+
+          return client.request(`/asset/v1/staticLists.json?${params.toString()}`, 'GET');
+        };
+
+        const response = await paginateByOffset(fetchPage, {
+          fetchAll,
+          offset,
+          pageSize: maxReturn,
+          maxRecords: resolveMaxRecords(maxRecords),
+        });
+
+        return formatToolResponse(response, { fields, format, maxChars, paging: 'offset' });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Get List by ID
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/getStaticListByIdUsingGET
+  registerTool(
+    server,
+    'lists',
+    'marketo_get_list_by_id',
+    'read',
+    {
+      listId: z.number(),
+      ...outputOptions,
+    },
+    async ({ listId, fields, format, maxChars }, client) => {
+      try {
+        const response = await client.request(`/asset/v1/staticList/${listId}.json`, 'GET');
+
+        return formatToolResponse(response, { fields, format, maxChars });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Get List by Name
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/getStaticListByNameUsingGET
+  registerTool(
+    server,
+    'lists',
+    'marketo_get_list_by_name',
+    'read',
+    {
+      name: z.string(),
+      ...outputOptions,
+    },
+    async ({ name, fields, format, maxChars }, client) => {
+      try {
+        const params = new URLSearchParams({ name });
+        const response = await client.request(
+          `/asset/v1/staticList/byName.json?${params.toString()}`,
+          'GET'
+        );
+
+        return formatToolResponse(response, { fields, format, maxChars });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Get List Leads
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/getLeadsByListIdUsingGET
+  registerTool(
+    server,
+    'lists',
+    'marketo_get_list_leads',
+    'read',
+    {
+      listId: z.number(),
+      fields: z.array(z.string()).optional(),
+      batchSize: z.number().optional(),
+      nextPageToken: z.string().optional(),
+      ...fetchAllOptions,
+      ...formatOptions,
+    },
+    async (
+      {
+        listId,
+        fields,
+        batchSize = 300,
+        nextPageToken,
+        fetchAll = false,
+        maxRecords,
+        format,
+        maxChars,
+      },
+      client
+    ) => {
+      try {
+        const fetchPage = (pageToken: string | undefined, pageSize: number) => {
+          const params = new URLSearchParams({
+            batchSize: pageSize.toString(),
+          });
+
+          if (fields && fields.length > 0) {
+            params.append('fields', fields.join(','));
+          }
+          if (pageToken) {
+            params.append('nextPageToken', pageToken);
+          }
+
+          return client.request(`/rest/v1/lists/${listId}/leads.json?${params.toString()}`, 'GET');
+        };
+
+        const response = await paginateByToken(fetchPage, {
+          fetchAll,
+          nextPageToken,
+          pageSize: batchSize,
+          maxRecords: resolveMaxRecords(maxRecords),
+        });
+
+        return formatToolResponse(response, { format, maxChars, paging: 'token' });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Check List Membership
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/areLeadsMemberOfListUsingGET
+  registerTool(
+    server,
+    'lists',
+    'marketo_check_list_membership',
+    'read',
+    {
+      listId: z.number(),
+      leadIds: z.array(z.number()).min(1),
+    },
+    async ({ listId, leadIds }, client) => {
+      try {
+        const responses = [];
+        for (const batch of chunk(leadIds, LEAD_BATCH_SIZE)) {
+          const params = new URLSearchParams({ id: batch.join(',') });
+          responses.push(
+            await client.request(
+              `/rest/v1/lists/${listId}/leads/ismember.json?${params.toString()}`,
+              'GET'
+            )
+          );
+        }
+
+        return formatToolResponse(mergeBatchResponses(responses));
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Create List
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/createStaticListUsingPOST
+  registerTool(
+    server,
+    'lists',
+    'marketo_create_list',
+    'write',
+    {
+      name: z.string(),
+      description: z.string().optional(),
+      ...folderParams,
+    },
+    async ({ name, description, folderId, folderPath, folderType }, client, { dryRun }) => {
+      try {
+        const folder = await requireFolder(client, folderId, folderPath, folderType);
+        const formData = { name, description, folder: JSON.stringify(folder) };
+        const contentType = 'application/x-www-form-urlencoded';
+
+        if (dryRun) {
+          return formatDryRun(
+            client,
+            client.describeRequest('/asset/v1/staticLists.json', 'POST', formData, contentType),
+            {
+              changes: [
+                `static list "${name}" would be created in ${folder.type.toLowerCase()} ${folder.id}`,
+              ],
+            }
+          );
+        }
+
+        const response = await client.request(
+          '/asset/v1/staticLists.json',
+          'POST',
+          formData,
+          contentType
+        );
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Delete List
+  // https://developer.adobe.com/marketo-apis/api/asset/#operation/deleteStaticListByIdUsingPOST
+  registerTool(
+    server,
+    'lists',
+    'marketo_delete_list',
+    'destructive',
+    {
+      listId: z.number(),
+    },
+    async ({ listId }, client, { dryRun }) => {
+      try {
+        const endpoint = `/asset/v1/staticList/${listId}/delete.json`;
+
+        if (dryRun) {
+          const list = await readEntity(client, `/asset/v1/staticList/${listId}.json`);
+          return formatDryRun(client, client.describeRequest(endpoint, 'POST'), {
+            current: list,
+            changes: list
+              ? [`static list ${listId} ("${list.name}") would be deleted`]
+              : [`list ${listId} was not found`],
+          });
+        }
+
+        const response = await client.request(endpoint, 'POST');
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    },
+    async ({ listId }, client) => {
+      const list = await readEntity(client, `/asset/v1/staticList/${listId}.json`);
+      return { list: list && { id: list.id, name: list.name, computedUrl: list.computedUrl } };
+    }
+  );
+
+  // Tool: Get Lead Lists
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/getListsByLeadIdUsingGET
+  registerTool(
+    server,
+    'lists',
+    'marketo_get_lead_lists',
+    'read',
+    {
+      leadId: z.number(),
+      batchSize: z.number().optional(),
+      nextPageToken: z.string().optional(),
+      ...fetchAllOptions,
+      ...outputOptions,
+    },
+    async (
+      {
+        leadId,
+        batchSize = 100,
+        nextPageToken,
+        fetchAll = false,
+        maxRecords,
+        fields,
+        format,
+        maxChars,
+      },
+      client
+    ) => {
+      try {
+        const fetchPage = (pageToken: string | undefined, pageSize: number) => {
+          const params = new URLSearchParams({
+            batchSize: pageSize.toString(),
+          });
+
+          if (pageToken) {
+            params.append('nextPageToken', pageToken);
+          }
+
+          return client.request(
+            `/rest/v1/leads/${leadId}/listMembership.json?${params.toString()}`,
+            'GET'
+          );
+        };
+
+        const response = await paginateByToken(fetchPage, {
+          fetchAll,
+          nextPageToken,
+          pageSize: batchSize,
+          maxRecords: resolveMaxRecords(maxRecords),
+        });
+
+        return formatToolResponse(response, { fields, format, maxChars, paging: 'token' });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Add Lead to List
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/addLeadsToListUsingPOST
+  registerTool(
+    server,
+    'lists',
+    'marketo_add_lead_to_list',
+    'write',
+    {
+      listId: z.number(),
+      leadIds: z.array(z.number()).min(1),
+    },
+    async ({ listId, leadIds }, client, { dryRun }) => {
+      try {
+        const endpoint = `/rest/v1/lists/${listId}/leads.json`;
+        // Marketo takes at most 300 leads per call, so larger inputs are sent in batches
+        const batches = chunk(leadIds, LEAD_BATCH_SIZE).map((batch) => ({
+          input: batch.map((id) => ({ id })),
+        }));
+
+        if (dryRun) {
+          const list = await readEntity(client, `/rest/v1/lists/${listId}.json`);
+          const requests = batches.map((data) => client.describeRequest(endpoint, 'POST', data));
+          return formatDryRun(client, requests, {
+            current: list,
+            changes: list
+              ? [`${leadIds.length} leads would be added to list ${listId} ("${list.name}")`]
+              : [`list ${listId} was not found`],
+          });
+        }
+
+        return formatToolResponse(await sendBatches(client, endpoint, batches));
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Remove Lead from List
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/removeLeadsFromListUsingPOST
+  registerTool(
+    server,
+    'lists',
+    'marketo_remove_lead_from_list',
+    'destructive',
+    {
+      listId: z.number(),
+      leadIds: z.array(z.number()).min(1),
+    },
+    async ({ listId, leadIds }, client, { dryRun }) => {
+      try {
+        const endpoint = `/rest/v1/lists/${listId}/leads/delete.json`;
+        // Marketo takes at most 300 leads per call, so larger inputs are sent in batches
+        const batches = chunk(leadIds, LEAD_BATCH_SIZE).map((batch) => ({
+          input: batch.map((id) => ({ id })),
+        }));
+
+        if (dryRun) {
+          const list = await readEntity(client, `/rest/v1/lists/${listId}.json`);
+          const requests = batches.map((data) => client.describeRequest(endpoint, 'POST', data));
+          return formatDryRun(client, requests, {
+            current: list,
+            changes: list
+              ? [`${leadIds.length} leads would be removed from list ${listId} ("${list.name}")`]
+              : [`list ${listId} was not found`],
+          });
+        }
+
+        return formatToolResponse(await sendBatches(client, endpoint, batches));
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    },
+    async ({ listId, leadIds }, client) => {
+      const list = await readEntity(client, `/rest/v1/lists/${listId}.json`);
+      return { list: list && { id: list.id, name: list.name }, leadCount: leadIds.length };
+    }
+  );
+}
+
+// Custom object tools
+function registerCustomObjectTools(server: McpServer) {
+  // Tool: Get Custom Object Types
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/listCustomObjectsUsingGET
+  registerTool(
+    server,
+    'customobjects',
+    'marketo_get_custom_object_types',
+    'read',
+    {
+      names: z.array(z.string()).optional(),
+      ...outputOptions,
+    },
+    async ({ names, fields, format, maxChars }, client) => {
+      try {
+        const params = new URLSearchParams();
+        if (names && names.length > 0) {
+          params.append('names', names.join(','));
+        }
+
+        const response = await client.request(
+          `/rest/v1/customobjects.json${params.toString() ? `?${params.toString()}` : ''}`,
+          'GET'
+        );
+
+        return formatToolResponse(response, { fields, format, maxChars });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Describe Custom Object
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/describeUsingGET_1
+  registerTool(
+    server,
+    'customobjects',
+    'marketo_describe_custom_object',
+    'read',
+    {
+      apiName: z.string(),
+      refresh: z.boolean().optional(),
+    },
+    async ({ apiName, refresh = false }, client) => {
+      try {
+        const schema = await getCustomObjectSchema(client, apiName, refresh);
+
+        return formatToolData(schema);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Get Custom Objects
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/getCustomObjectsUsingGET
+  registerTool(
+    server,
+    'customobjects',
+    'marketo_get_custom_objects',
+    'read',
+    {
+      apiName: z.string(),
+      filterType: z.string().optional(),
+      filterValues: z.array(z.union([z.string(), z.number()])).optional(),
+      // Compound dedupe keys, one object of dedupe field values per record
+      keys: z.array(z.record(z.string(), z.any())).optional(),
+      fields: z.array(z.string()).optional(),
+      batchSize: z.number().optional(),
+      nextPageToken: z.string().optional(),
+      ...fetchAllOptions,
+      ...formatOptions,
+    },
+    async (
+      {
+        apiName,
+        filterType,
+        filterValues,
+        keys,
+        fields,
+        batchSize = 300,
+        nextPageToken,
+        fetchAll = false,
+        maxRecords,
+        format,
+        maxChars,
+      },
+      client
+    ) => {
+      try {
+        const schema = await getCustomObjectSchema(client, apiName);
+
+        if (keys && keys.length > 0) {
+          const missing = findMissingKeys(keys, schema.dedupeFields);
+          if (missing.length > 0) {
+            throw new ToolInputError(`Incomplete dedupe keys: ${missing.join('; ')}.`);
+          }
+          const response = await findCustomObjects(client, schema, keys, 'dedupeFields', fields);
+          return formatToolResponse(response, { format, maxChars });
+        }
+
+        if (!filterType || !filterValues || filterValues.length === 0) {
+          throw new ToolInputError('Provide filterType with filterValues, or keys.');
+        }
+        checkFilterType(schema, filterType);
+
+        const response = await searchRecords(
+          client,
+          `/rest/v1/customobjects/${encodeURIComponent(schema.name)}.json`,
+          filterType,
+          filterValues,
+          fields,
+          {
+            fetchAll,
+            nextPageToken,
+            pageSize: batchSize,
+            maxRecords: resolveMaxRecords(maxRecords),
+          }
+        );
+
+        return formatToolResponse(response, { format, maxChars, paging: 'token' });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Create/Update Custom Objects
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/syncCustomObjectsUsingPOST
+  registerTool(
+    server,
+    'customobjects',
+    'marketo_upsert_custom_objects',
+    'write',
+    {
+      apiName: z.string(),
+      input: z.array(z.record(z.string(), z.any())).min(1),
+      action: z.enum(['createOrUpdate', 'createOnly', 'updateOnly']).optional(),
+      dedupeBy: z.enum(['dedupeFields', 'idField']).optional(),
+      validate: z.boolean().optional(),
+    },
+    async (
+      { apiName, input, action = 'createOrUpdate', dedupeBy = 'dedupeFields', validate = true },
+      client,
+      { dryRun }
+    ) => {
+      try {
+        const schema = await getCustomObjectSchema(client, apiName);
+        const keyFields = keyFieldsFor(schema, dedupeBy);
+        const endpoint = `/rest/v1/customobjects/${encodeURIComponent(schema.name)}.json`;
+        const batches = chunk(input, LEAD_BATCH_SIZE).map((batch) => ({
+          action,
+          dedupeBy,
+          input: batch,
+        }));
+
+        const issues = validate
+          ? [
+              ...findMissingKeys(input, keyFields).map((message) => ({
+                problem: 'missing_key',
+                message,
+              })),
+              ...validateRecords(input, schema.fields, keyFields, 'marketo_describe_custom_object'),
+            ]
+          : [];
+
+        if (dryRun) {
+          const known = new Set(schema.fields.map((field) => field.name));
+          const fields = [
+            ...new Set([schema.idField, ...input.flatMap((record) => Object.keys(record))]),
+          ].filter((name) => known.has(name) || name === schema.idField);
+          const existing =
+            findMissingKeys(input, keyFields).length === 0
+              ? await findCustomObjects(client, schema, input, dedupeBy, fields)
+              : undefined;
+          return formatDryRun(
+            client,
+            batches.map((data) => client.describeRequest(endpoint, 'POST', data)),
+            {
+              validation: validate ? issues : undefined,
+              current: existing?.result,
+              changes: existing
+                ? describeCustomObjectChanges(
+                    schema,
+                    input,
+                    existing.result ?? [],
+                    keyFields,
+                    action
+                  )
+                : [`${input.length} ${schema.name} records would be sent with action ${action}`],
+            }
+          );
+        }
+
+        if (issues.length > 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Validation failed, nothing was sent to Marketo:\n${JSON.stringify(issues, null, 2)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        return formatToolResponse(await sendBatches(client, endpoint, batches));
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Delete Custom Objects
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/deleteCustomObjectsUsingPOST
+  registerTool(
+    server,
+    'customobjects',
+    'marketo_delete_custom_objects',
+    'destructive',
+    {
+      apiName: z.string(),
+      // One object of dedupe field values, or of the ID field with deleteBy idField, per record
+      keys: z.array(z.record(z.string(), z.any())).min(1),
+      deleteBy: z.enum(['dedupeFields', 'idField']).optional(),
+    },
+    async ({ apiName, keys, deleteBy = 'dedupeFields' }, client, { dryRun }) => {
+      try {
+        const schema = await getCustomObjectSchema(client, apiName);
+        const keyFields = keyFieldsFor(schema, deleteBy);
+        const missing = findMissingKeys(keys, keyFields);
+        if (missing.length > 0) {
+          throw new ToolInputError(`Incomplete keys: ${missing.join('; ')}.`);
+        }
+
+        const endpoint = `/rest/v1/customobjects/${encodeURIComponent(schema.name)}/delete.json`;
+        const batches = chunk(keys, LEAD_BATCH_SIZE).map((batch) => ({
+          deleteBy,
+          input: batch.map((key) =>
+            Object.fromEntries(keyFields.map((field) => [field, key[field]]))
+          ),
+        }));
+
+        if (dryRun) {
+          const existing = await findCustomObjects(client, schema, keys, deleteBy);
+          const found: any[] = existing.result ?? [];
+          return formatDryRun(
+            client,
+            batches.map((data) => client.describeRequest(endpoint, 'POST', data)),
+            {
+              current: found,
+              changes: [
+                `${found.length} of ${keys.length} ${schema.name} records would be deleted`,
+              ],
+            }
+          );
+        }
+
+        return formatToolResponse(await sendBatches(client, endpoint, batches));
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    },
+    async ({ apiName, keys, deleteBy = 'dedupeFields' }, client) => {
+      const schema = await getCustomObjectSchema(client, apiName);
+      const existing = await findCustomObjects(client, schema, keys, deleteBy);
+      return {
+        customObject: schema.name,
+        recordCount: keys.length,
+        records: existing.result ?? [],
+      };
+    }
+  );
+}
+
+// Bulk extract tools
+function registerBulkExportTools(server: McpServer) {
+  // Tool: Bulk Export Leads
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/createExportLeadsUsingPOST
+  registerTool(
+    server,
+    'bulk-export',
+    'marketo_bulk_export_leads',
+    'write',
+    {
+      fields: z.array(z.string()).min(1),
+      createdAt: dateRangeFilter.optional(),
+      updatedAt: dateRangeFilter.optional(),
+      staticListId: z.number().optional(),
+      smartListId: z.number().optional(),
+      ...bulkExportOptions,
+    },
+    async (
+      {
+        fields,
+        createdAt,
+        updatedAt,
+        staticListId,
+        smartListId,
+        outputPath,
+        timeoutSeconds = BULK_JOB_DEFAULT_WAIT_SECONDS,
+        pollIntervalSeconds = 15,
+        previewRows = 5,
+      },
+      client,
+      { dryRun }
+    ) => {
+      try {
+        const filter = { createdAt, updatedAt, staticListId, smartListId };
+        if (Object.values(filter).every((value) => value === undefined)) {
+          throw new ToolInputError(
+            'At least one filter is required: createdAt, updatedAt, staticListId or smartListId'
+          );
+        }
+
+        return await runBulkExport(
+          client,
+          'leads',
+          { fields, filter },
+          { outputPath, timeoutSeconds, pollIntervalSeconds, previewRows, dryRun }
+        );
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Bulk Export Activities
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/createExportActivitiesUsingPOST
+  registerTool(
+    server,
+    'bulk-export',
+    'marketo_bulk_export_activities',
+    'write',
+    {
+      createdAt: dateRangeFilter,
+      activityTypeIds: activityTypesParam.optional(),
+      fields: z.array(z.string()).optional(),
+      ...bulkExportOptions,
+    },
+    async (
+      {
+        createdAt,
+        activityTypeIds,
+        fields,
+        outputPath,
+        timeoutSeconds = BULK_JOB_DEFAULT_WAIT_SECONDS,
+        pollIntervalSeconds = 15,
+        previewRows = 5,
+      },
+      client,
+      { dryRun }
+    ) => {
+      try {
+        return await runBulkExport(
+          client,
+          'activities',
+          {
+            fields,
+            filter: {
+              createdAt,
+              activityTypeIds: await resolveActivityTypes(client, activityTypeIds),
+            },
+          },
+          { outputPath, timeoutSeconds, pollIntervalSeconds, previewRows, dryRun }
+        );
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Get Bulk Export Status
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/getExportLeadsStatusUsingGET
+  registerTool(
+    server,
+    'bulk-export',
+    'marketo_get_bulk_export_status',
+    'read',
+    {
+      exportType: z.enum(BULK_EXPORT_TYPES),
+      exportId: z.string(),
+    },
+    async ({ exportType, exportId }, client) => {
+      try {
+        const [job, quota] = await Promise.all([
+          getBulkExportJob(client, exportType, exportId),
+          getBulkExportQuota(client),
+        ]);
+
+        return formatToolData({ job, quota });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Download Bulk Export
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/getExportLeadsFileUsingGET
+  registerTool(
+    server,
+    'bulk-export',
+    'marketo_download_bulk_export',
+    'read',
+    {
+      exportType: z.enum(BULK_EXPORT_TYPES),
+      exportId: z.string(),
+      outputPath: z.string().optional(),
+      previewRows: z.number().min(0).max(50).optional(),
+    },
+    async ({ exportType, exportId, outputPath, previewRows = 5 }, client) => {
+      try {
+        const job = await getBulkExportJob(client, exportType, exportId);
+        if (job.status !== 'Completed') {
+          throw new ToolInputError(
+            `Export ${exportId} is ${job.status} and has no file to download`
+          );
+        }
+
+        return await downloadBulkExport(client, exportType, job, outputPath, previewRows);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Cancel Bulk Export
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/cancelExportLeadsUsingPOST
+  registerTool(
+    server,
+    'bulk-export',
+    'marketo_cancel_bulk_export',
+    'write',
+    {
+      exportType: z.enum(BULK_EXPORT_TYPES),
+      exportId: z.string(),
+    },
+    async ({ exportType, exportId }, client, { dryRun }) => {
+      try {
+        const endpoint = `/bulk/v1/${exportType}/export/${exportId}/cancel.json`;
+
+        if (dryRun) {
+          const job = await getBulkExportJob(client, exportType, exportId);
+          return formatDryRun(client, client.describeRequest(endpoint, 'POST'), {
+            current: job,
+            changes: [`export ${exportId} would change from ${job.status} to Cancelled`],
+          });
+        }
+
+        const response = await client.request(endpoint, 'POST');
+
+        return formatToolResponse(response);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Get Bulk Export Quota
+  registerTool(
+    server,
+    'bulk-export',
+    'marketo_get_bulk_export_quota',
+    'read',
+    {},
+    async (_args, client) => {
+      try {
+        const quota = await getBulkExportQuota(client);
+
+        return formatToolData(quota);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+}
+
+// Bulk import tools
+function registerBulkImportTools(server: McpServer) {
+  // Tool: Bulk Import Leads
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/importLeadUsingPOST
+  registerTool(
+    server,
+    'bulk-import',
+    'marketo_bulk_import_leads',
+    'write',
+    {
+      filePath: z.string(),
+      format: z.enum(['csv', 'json']).optional(),
+      columnMapping: z.record(z.string(), z.string()).optional(),
+      lookupField: z.string().optional(),
+      partitionName: z.string().optional(),
+      listId: z.number().optional(),
+      timeoutSeconds: z.number().min(0).max(3600).optional(),
+      pollIntervalSeconds: z.number().min(5).optional(),
+      maxReportRows: z.number().min(0).max(500).optional(),
+    },
+    async (
+      {
+        filePath,
+        format,
+        columnMapping,
+        lookupField,
+        partitionName,
+        listId,
+        timeoutSeconds = BULK_JOB_DEFAULT_WAIT_SECONDS,
+        pollIntervalSeconds = 10,
+        maxReportRows = 50,
+      },
+      client,
+      { dryRun }
+    ) => {
+      try {
+        const sourcePath = resolveImportPath(MARKETO_IMPORT_DIR, filePath);
+        const sourceFormat =
+          format ?? (path.extname(sourcePath).toLowerCase() === '.json' ? 'json' : 'csv');
+        const source = await fs.promises.readFile(sourcePath, 'utf-8');
+        const prepared = prepareImportCsv(source, sourceFormat, columnMapping);
+
+        if (Buffer.byteLength(prepared.csv) > BULK_IMPORT_MAX_BYTES) {
+          throw new ToolInputError(
+            'Import file exceeds the 10 MB bulk import limit. Split it into smaller files.'
+          );
+        }
+
+        const form = new FormData();
+        form.append('format', 'csv');
+        form.append(
+          'file',
+          new Blob([prepared.csv], { type: 'text/csv' }),
+          path.basename(sourcePath, path.extname(sourcePath)) + '.csv'
+        );
+        if (lookupField) {
+          form.append('lookupField', lookupField);
+        }
+        if (partitionName) {
+          form.append('partitionName', partitionName);
+        }
+        if (listId !== undefined) {
+          form.append('listId', listId.toString());
+        }
+
+        if (dryRun) {
+          const fieldNames = new Set(
+            (await getLeadFieldCatalog(client)).map((field) => field.name)
+          );
+          return formatDryRun(
+            client,
+            client.describeRequest('/bulk/v1/leads.json', 'POST', form, 'multipart/form-data'),
+            {
+              validation: {
+                columns: prepared.columns,
+                unknownColumns: prepared.columns.filter((column) => !fieldNames.has(column)),
+              },
+              changes: [`${prepared.rowCount} rows would be imported`],
+            }
+          );
+        }
+
+        const created = await client.request(
+          '/bulk/v1/leads.json',
+          'POST',
+          form,
+          'multipart/form-data'
+        );
+        const batch = await waitForJob(
+          () => getBulkImportBatch(client, created.result[0].batchId),
+          FINISHED_IMPORT_STATUSES,
+          timeoutSeconds,
+          pollIntervalSeconds
+        );
+
+        const result = await buildBulkImportReport(client, batch, maxReportRows);
+        result.content.unshift({
+          type: 'text',
+          text: `Uploaded ${prepared.rowCount} rows with columns: ${prepared.columns.join(', ')}`,
+        });
+        return result;
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+
+  // Tool: Get Bulk Import Status
+  // https://developer.adobe.com/marketo-apis/api/mapi/#operation/getImportLeadStatusUsingGET
+  registerTool(
+    server,
+    'bulk-import',
+    'marketo_get_bulk_import_status',
+    'read',
+    {
+      batchId: z.number(),
+      maxReportRows: z.number().min(0).max(500).optional(),
+    },
+    async ({ batchId, maxReportRows = 50 }, client) => {
+      try {
+        const batch = await getBulkImportBatch(client, batchId);
+        return await buildBulkImportReport(client, batch, maxReportRows);
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+}
+
+// Instance tools
+function registerInstanceTools(server: McpServer) {
+  // Tool: List Instances
+  if (!enableTool('marketo_list_instances', 'instances', 'read')) {
+    return;
+  }
+  server.registerTool(
+    'marketo_list_instances',
+    { outputSchema: toolOutputShape(marketoRecordSchema) },
+    async () => {
+      const instances = listClients().map((client) => ({
+        name: client.name,
+        baseUrl: client.baseUrl,
+        access: client.access,
+        isDefault: client.name === MARKETO_DEFAULT_INSTANCE,
+      }));
+      return formatToolData({ instances });
+    }
+  );
+}
+
+// Cache tools
+function registerCacheTools(server: McpServer) {
+  // Tool: Cache Stats
+  if (!enableTool('marketo_cache_stats', 'cache', 'read')) {
+    return;
+  }
+  server.registerTool(
+    'marketo_cache_stats',
+    {
+      inputSchema: { instance: z.string().optional() },
+      outputSchema: toolOutputShape(marketoRecordSchema),
+    },
+    async ({ instance }) => {
+      try {
+        const clients = instance ? [getClient(instance)] : listClients();
+        const instances = clients.map((client) => ({
+          instance: client.name,
+          ...client.cacheStats(),
+        }));
+        return formatToolData({ instances });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+}
+
+// Audit log tools
+function registerAuditTools(server: McpServer) {
+  // Tool: Get Audit Log
+  if (!auditLog || !enableTool('marketo_get_audit_log', 'audit', 'read')) {
+    return;
+  }
+  server.registerTool(
+    'marketo_get_audit_log',
+    {
+      inputSchema: {
+        tool: z.string().optional(),
+        instance: z.string().optional(),
+        since: z.string().datetime({ offset: true }).optional(),
+        until: z.string().datetime({ offset: true }).optional(),
+        recordId: z.union([z.string(), z.number()]).optional(),
+        success: z.boolean().optional(),
+        limit: z.number().int().min(1).max(500).optional(),
+      },
+      outputSchema: toolOutputShape(marketoRecordSchema),
+    },
+    async ({ tool, instance, since, until, recordId, success, limit = 50 }) => {
+      try {
+        const entries = await auditLog.query({
+          tool,
+          instance,
+          since,
+          until,
+          recordId: recordId === undefined ? undefined : String(recordId),
+          success,
+          limit,
+        });
+        return formatToolData({ entries, count: entries.length });
+      } catch (error: any) {
+        return formatToolError(error);
+      }
+    }
+  );
+}
+
+// Resources: Marketo entities addressable as marketo://{kind}/{id}, registered for each instance
+function registerInstanceResources(server: McpServer, client: MarketoClient) {
+  // The default instance keeps the plain URIs; others are addressed as marketo://<instance>/...
+  const isDefault = client.name === MARKETO_DEFAULT_INSTANCE;
+  const base = isDefault ? 'marketo://' : `marketo://${client.name}/`;
+  const namePrefix = isDefault ? 'marketo' : `marketo-${client.name}`;
+  // Every instance access level allows reads, so only the tool policy leaves resources out
+  const enabled = (tool: string, category: ToolCategory) =>
+    isToolEnabled(toolPolicy, tool, category, 'read');
+
+  for (const type of resourceTypes) {
+    if (!enabled(type.tool, type.category)) {
+      continue;
+    }
+    const template = new ResourceTemplate(`${base}${type.kind}/{id}`, {
+      list: type.listEntities
+        ? async () => ({
+            resources: (await getResourceIndex(client, type)).map((entity) => ({
+              uri: `${base}${type.kind}/${entity.id}`,
+              name: entity.name ?? `${type.kind} ${entity.id}`,
+              description: entity.description || undefined,
+              mimeType: 'application/json',
+            })),
+          })
+        : undefined,
+      complete: type.listEntities
+        ? {
+            // Matches typed text against IDs and names, always completing to an ID
+            id: async (value) => {
+              const term = value.toLowerCase();
+              return (await getResourceIndex(client, type))
+                .filter(
+                  (entity) =>
+                    String(entity.id).startsWith(term) ||
+                    String(entity.name ?? '')
+                      .toLowerCase()
+                      .includes(term)
+                )
+                .slice(0, 100)
+                .map((entity) => String(entity.id));
+            },
+          }
+        : undefined,
+    });
+
+    server.resource(
+      `${namePrefix}-${type.kind}`,
+      template,
+      { description: type.description, mimeType: 'application/json' },
+      async (uri, { id }) => {
+        let entity: any;
+        try {
+          entity = await type.readEntity(client, String(id));
+        } catch (error: any) {
+          throw new Error(sanitizeErrorMessage(error));
+        }
+        if (!entity) {
+          throw new Error(`No ${type.kind} found with ID ${id}.`);
+        }
+
+        return {
+          contents: [
+            { uri: uri.href, mimeType: 'application/json', text: JSON.stringify(entity, null, 2) },
+          ],
+        };
+      }
+    );
+  }
+
+  // Custom object records are addressed by type and dedupe key rather than a single ID
+  if (!enabled('marketo_get_custom_objects', 'customobjects')) {
+    return;
+  }
+  const customObjectTemplate = new ResourceTemplate(`${base}customobject/{apiName}/{key}`, {
+    list: undefined,
+    complete: {
+      apiName: async (value) => {
+        const term = value.toLowerCase();
+        return (await getCustomObjectTypeIndex(client))
+          .map((type) => String(type.name))
+          .filter((name) => name.toLowerCase().includes(term))
+          .slice(0, 100);
+      },
+    },
+  });
+
+  server.resource(
+    `${namePrefix}-customobject`,
+    customObjectTemplate,
+    {
+      description:
+        'A Marketo custom object record; compound dedupe keys list their values in order, separated by commas',
+      mimeType: 'application/json',
+    },
+    async (uri, { apiName, key }) => {
+      let record: any;
+      try {
+        const schema = await getCustomObjectSchema(client, String(apiName));
+        const response = await findCustomObjects(
+          client,
+          schema,
+          [parseResourceKey(schema, decodeURIComponent(String(key)))],
+          'dedupeFields'
+        );
+        record = response.result?.[0];
+      } catch (error: any) {
+        throw new Error(sanitizeErrorMessage(error));
+      }
+      if (!record) {
+        throw new Error(`No ${apiName} found with key ${key}.`);
+      }
+
+      return {
+        contents: [
+          { uri: uri.href, mimeType: 'application/json', text: JSON.stringify(record, null, 2) },
+        ],
+      };
+    }
+  );
+}
+
+/**
+ * Registers resource templates for every instance, leaving out the entity types whose read
+ * tools the policy disables
+ */
+function registerResources(server: McpServer) {
+  for (const client of listClients()) {
+    registerInstanceResources(server, client);
+  }
+}
+
+/**
+ * Creates an MCP server with every Marketo tool and resource registered
+ */
+function createServer(): McpServer {
+  const server = new McpServer({
+    name: 'MarketoAPI',
+    version: '1.0.0',
+  });
+
+  registerFolderTools(server);
+  registerFormTools(server);
+  registerSmartListTools(server);
+  registerChannelTools(server);
+  registerEmailTools(server);
+  registerProgramTools(server);
+  registerCampaignTools(server);
+  registerLeadTools(server);
+  registerActivityTools(server);
+  registerListTools(server);
+  registerCustomObjectTools(server);
+  registerBulkExportTools(server);
+  registerBulkImportTools(server);
+  registerInstanceTools(server);
+  registerCacheTools(server);
+  registerAuditTools(server);
+  registerResources(server);
+  warnUnknownPolicyEntries();
+
+  return server;
+}
+
+export { createServer };
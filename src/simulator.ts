@@ -0,0 +1,2484 @@
+import axios, {
+  AxiosAdapter,
+  AxiosError,
+  AxiosHeaders,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { MARKETO_SIMULATOR, MARKETO_SIMULATOR_FIXTURES } from './constants.js';
+import { parseCsv, toCsv } from './csv.js';
+import { LeadFieldIssue, buildFieldCatalog, validateRecords } from './leadSchema.js';
+import {
+  SimulatedActivity,
+  SimulatedCampaign,
+  SimulatedChannel,
+  SimulatedCustomObject,
+  SimulatedCustomObjectType,
+  SimulatedEmail,
+  SimulatedEmailSection,
+  SimulatedFolder,
+  SimulatedForm,
+  SimulatedFormItem,
+  SimulatedLead,
+  SimulatedList,
+  SimulatedProgram,
+  SimulatedSmartList,
+  SimulatorFault,
+  SimulatorFixtures,
+  loadSimulatorFixtures,
+} from './simulatorFixtures.js';
+
+// An in-process fake Marketo instance. The request layer and token manager send their requests
+// here instead of over the network, so every tool can run offline against seeded fixtures.
+
+/**
+ * Error a simulated endpoint answers with, as an envelope with success: false and HTTP 200
+ */
+class SimulatedError extends Error {
+  readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'SimulatedError';
+    this.code = code;
+  }
+}
+
+// Form parameters arrive as strings and JSON bodies as sent; each route declares what it reads
+type SimulatedBody = Record<string, unknown>;
+
+interface SimulatedRequest<Body = SimulatedBody> {
+  method: string;
+  // Endpoint path from the API version on, such as /rest/v1/leads.json
+  path: string;
+  query: URLSearchParams;
+  body: Body;
+}
+
+// Envelope fields a route answers with, besides success and requestId
+interface SimulatedEnvelope {
+  result?: unknown[];
+  warnings?: string[];
+  moreResult?: boolean;
+  nextPageToken?: string;
+}
+
+interface SimulatedReply {
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+// File endpoints answer with the file's text instead of an envelope
+type RouteResult = SimulatedEnvelope | string;
+
+type RouteHandler<Body = SimulatedBody> = (
+  request: SimulatedRequest<Body>,
+  params: string[]
+) => RouteResult | Promise<RouteResult>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handle: RouteHandler;
+}
+
+// A bulk export job, with the request that created it and, once complete, its file
+interface ExportJob {
+  type: string;
+  request: ExportRequest;
+  exportId: string;
+  format: string;
+  status: string;
+  createdAt: string;
+  queuedAt?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  numberOfRecords?: number;
+  fileSize?: number;
+  // When an enqueued job completes, in milliseconds since the epoch
+  finishAt?: number;
+  file?: string;
+}
+
+interface ExportRequest {
+  fields?: string[];
+  filter?: ExportFilter;
+  format?: string;
+  columnHeaderNames?: Record<string, string>;
+}
+
+interface ExportFilter {
+  createdAt?: { startAt: string; endAt: string };
+  updatedAt?: { startAt: string; endAt: string };
+  staticListId?: number;
+  smartListId?: number;
+  activityTypeIds?: number[];
+}
+
+// A bulk import batch, with the CSV reports of the rows that failed or had warnings
+interface ImportBatch {
+  batchId: number;
+  importId: string;
+  status: string;
+  numOfLeadsProcessed: number;
+  numOfRowsFailed: number;
+  numOfRowsWithWarning: number;
+  message: string;
+  failures: string;
+  warnings: string;
+}
+
+// Outcome of one record of a batch call, as the result of lead and custom object endpoints
+interface RecordOutcome {
+  id?: number;
+  seq?: number;
+  marketoGUID?: unknown;
+  status: string;
+  reasons?: { code: string; message: string }[];
+}
+
+// Position in the activity feed a paging token holds: the last activity's date and ID
+interface ActivityCursor {
+  time: number;
+  id: number;
+}
+
+// Folder reference a request sends, such as {"id":12,"type":"Folder"}
+
+interface FolderParam {
+  id: number | string;
+  type?: string;
+}
+
+// Where the form rearrange endpoint places an item, and the fields of a fieldset
+interface FormPosition {
+  fieldName: string;
+  rowNumber: number;
+  columnNumber: number;
+  fieldList?: FormPosition[];
+}
+
+// Bodies of the routes that read theirs
+interface LeadUpsertBody {
+  input?: Record<string, unknown>[];
+  lookupField?: string;
+  action?: string;
+}
+
+interface LeadIdsBody {
+  input?: { id: number }[];
+}
+
+// Creating or changing an asset; folder and parent are JSON text such as {"id":12,"type":"Folder"}
+
+interface AssetBody {
+  name?: string;
+  description?: string;
+  type?: string;
+  folder?: unknown;
+  parent?: unknown;
+}
+
+// Creating or cloning a form also takes its settings, such as language or theme
+interface FormBody extends AssetBody {
+  [setting: string]: unknown;
+}
+
+interface FormFieldBody {
+  fieldId?: string;
+  [setting: string]: unknown;
+}
+
+interface SubmitButtonBody {
+  buttonPosition?: string;
+  buttonStyle?: string;
+  label?: string;
+  waitingLabel?: string;
+}
+
+interface EmailSectionBody {
+  type?: string;
+  value?: string;
+  textValue?: string;
+}
+
+interface CampaignBody {
+  input?: { leads?: { id: number }[]; runAt?: string };
+}
+
+interface CustomObjectBody {
+  filterType?: string;
+  fields?: string[];
+  input?: Record<string, unknown>[];
+  action?: string;
+  dedupeBy?: string;
+  deleteBy?: string;
+}
+
+interface ImportBody {
+  format?: string;
+  file?: unknown;
+  listId?: unknown;
+  lookupField?: string;
+}
+
+// Messages for error codes raised by the simulator itself or injected as faults
+const ERROR_MESSAGES: Record<string, string> = {
+  '600': 'Access token not specified',
+  '601': 'Access token invalid',
+  '602': 'Access token expired',
+  '604': 'Request timed out',
+  '606': 'Max rate limit exceeded',
+  '607': 'Daily quota reached',
+  '608': 'API temporarily unavailable',
+  '611': 'System error',
+  '615': 'Concurrent access limit reached',
+  '1004': 'Lead not found',
+  '1013': 'Object not found',
+};
+
+const NO_ASSETS_WARNING = 'No assets found for the given search criteria.';
+// Largest page of asset endpoints, and largest batch or input of REST endpoints
+const MAX_ASSET_PAGE = 200;
+const MAX_BATCH_SIZE = 300;
+// Fields lead endpoints return when the request doesn't name any
+const DEFAULT_LEAD_FIELDS = ['id', 'firstName', 'lastName', 'email', 'updatedAt', 'createdAt'];
+// Export jobs Marketo allows in the queue at once
+const MAX_QUEUED_EXPORTS = 10;
+// Longest createdAt or updatedAt range a bulk export filter may span
+const MAX_EXPORT_RANGE_DAYS = 31;
+const ACTIVITY_EXPORT_FIELDS = [
+  'marketoGUID',
+  'leadId',
+  'activityDate',
+  'activityTypeId',
+  'campaignId',
+  'primaryAttributeValueId',
+  'primaryAttributeValue',
+  'attributes',
+];
+// Form settings the create and clone form endpoints accept
+const FORM_SETTING_KEYS = [
+  'description',
+  'language',
+  'locale',
+  'progressiveProfiling',
+  'labelPosition',
+  'fontFamily',
+  'fontSize',
+  'knownVisitor',
+  'theme',
+];
+
+// Marketo timestamps have second precision
+function timestamp(ms: number = Date.now()): string {
+  return new Date(ms).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+function nextId<T extends object>(records: T[], key: keyof T = 'id' as keyof T): number {
+  return records.reduce((max, record) => Math.max(max, Number(record[key]) || 0), 0) + 1;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return String(a ?? '').toLowerCase() === String(b ?? '').toLowerCase();
+}
+
+function isBlank(value: unknown): value is undefined | null | '' {
+  return value === undefined || value === null || value === '';
+}
+
+function listParam(query: URLSearchParams, name: string): string[] {
+  return (query.get(name) ?? '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+function intParam(query: URLSearchParams, name: string, fallback: number, max: number): number {
+  const raw = query.get(name);
+  if (raw === null) {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < (name === 'offset' ? 0 : 1) || value > max) {
+    throw new SimulatedError('1003', `Invalid value for ${name}: ${raw}`);
+  }
+  return value;
+}
+
+// Parses a parameter sent as JSON text; the caller names the shape it expects
+function jsonParam<T>(value: unknown, name: string): T {
+  if (typeof value !== 'string') {
+    return value as T;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new SimulatedError('1003', `Invalid JSON for ${name}`);
+  }
+}
+
+function required<T>(value: T | null | undefined, name: string): T {
+  if (isBlank(value)) {
+    throw new SimulatedError('1003', `${name} cannot be blank`);
+  }
+  return value;
+}
+
+// Form parameters arrive as strings, with numbers, booleans and objects JSON-encoded
+function formValue(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function pickFields(record: object, fields: string[]): Record<string, unknown> {
+  const values = record as Record<string, unknown>;
+  return Object.fromEntries(fields.map((field) => [field, values[field] ?? null]));
+}
+
+// A copy of the record without the given keys, such as internal state kept off API responses
+function omitFields<T extends object, K extends keyof T>(record: T, keys: K[]): Omit<T, K> {
+  return Object.fromEntries(
+    Object.entries(record).filter(([key]) => !keys.includes(key as K))
+  ) as Omit<T, K>;
+}
+
+function skipped(
+  code: string,
+  message: string,
+  extra: Omit<RecordOutcome, 'status' | 'reasons'> = {}
+): RecordOutcome {
+  return { ...extra, status: 'skipped', reasons: [{ code, message }] };
+}
+
+function describeIssue(issue: LeadFieldIssue): { code: string; message: string } {
+  switch (issue.problem) {
+    case 'unknown':
+      return { code: '1006', message: `Field '${issue.field}' not found` };
+    case 'read_only':
+      return { code: '1003', message: `Field '${issue.field}' is not updateable` };
+    case 'too_long':
+      return { code: '1003', message: `Value for field '${issue.field}' is too long` };
+    default:
+      return { code: '1003', message: `Invalid value for field '${issue.field}'` };
+  }
+}
+
+function encodePageToken(position: object): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+function decodePageToken<T>(token: string): T {
+  try {
+    return JSON.parse(Buffer.from(token, 'base64url').toString('utf-8'));
+  } catch {
+    throw new SimulatedError('1003', 'Invalid nextPageToken');
+  }
+}
+
+/**
+ * Returns one maxReturn/offset page of assets, or the warning Marketo gives when there are none
+ */
+function assetPage(
+  records: unknown[],
+  query: URLSearchParams,
+  defaultMaxReturn: number = 20
+): SimulatedEnvelope {
+  const maxReturn = intParam(query, 'maxReturn', defaultMaxReturn, MAX_ASSET_PAGE);
+  const offset = intParam(query, 'offset', 0, Number.MAX_SAFE_INTEGER);
+  const page = records.slice(offset, offset + maxReturn);
+  return page.length > 0 ? { result: page } : { warnings: [NO_ASSETS_WARNING] };
+}
+
+/**
+ * Returns one batchSize/nextPageToken page, with moreResult and a token while records remain
+ */
+function tokenPage(records: unknown[], query: URLSearchParams): SimulatedEnvelope {
+  const batchSize = intParam(query, 'batchSize', MAX_BATCH_SIZE, MAX_BATCH_SIZE);
+  const token = query.get('nextPageToken');
+  const offset = token ? Number(decodePageToken<{ offset?: number }>(token).offset) || 0 : 0;
+  const page = records.slice(offset, offset + batchSize);
+  const moreResult = offset + page.length < records.length;
+  return {
+    result: page,
+    moreResult,
+    ...(moreResult ? { nextPageToken: encodePageToken({ offset: offset + page.length }) } : {}),
+  };
+}
+
+function singleAsset(record: unknown): SimulatedEnvelope {
+  return record ? { result: [record] } : { warnings: [NO_ASSETS_WARNING] };
+}
+
+function matchesFolder(
+  record: { folder?: { type: string; value: number } },
+  folder: FolderParam | null
+): boolean {
+  return (
+    !folder ||
+    (record.folder?.value === Number(folder.id) &&
+      (!folder.type || record.folder?.type === folder.type))
+  );
+}
+
+function updatedWithin(record: { updatedAt?: string }, query: URLSearchParams): boolean {
+  const updatedAt = Date.parse(record.updatedAt ?? '');
+  const earliest = query.get('earliestUpdatedAt');
+  const latest = query.get('latestUpdatedAt');
+  return (
+    (!earliest || updatedAt >= Date.parse(earliest)) && (!latest || updatedAt <= Date.parse(latest))
+  );
+}
+
+// Checks a bulk export date filter, which must be a range of at most 31 days
+function exportRange(
+  filter: ExportFilter | undefined,
+  name: 'createdAt' | 'updatedAt'
+): { start: number; end: number } | undefined {
+  const range = filter?.[name];
+  if (!range) {
+    return undefined;
+  }
+  const start = Date.parse(range.startAt);
+  const end = Date.parse(range.endAt);
+  if (Number.isNaN(start) || Number.isNaN(end) || end < start) {
+    throw new SimulatedError('1003', `Invalid ${name} filter`);
+  }
+  if (end - start > MAX_EXPORT_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+    throw new SimulatedError('1003', `${name} filter cannot span more than 31 days`);
+  }
+  return { start, end };
+}
+
+function inRange(value: string, range?: { start: number; end: number }): boolean {
+  const time = Date.parse(value ?? '');
+  return !range || (time >= range.start && time <= range.end);
+}
+
+async function parseBody(data: unknown, contentType: string): Promise<SimulatedBody> {
+  if (data instanceof FormData) {
+    return Object.fromEntries(data.entries());
+  }
+  if (typeof data !== 'string' || data === '') {
+    return {};
+  }
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(data));
+  }
+  try {
+    return JSON.parse(data);
+  } catch {
+    throw new SimulatedError('609', 'Invalid JSON');
+  }
+}
+
+/**
+ * One simulated Marketo instance: its records, access tokens, limits and API endpoints
+ */
+class MarketoSimulator {
+  private fixtures: SimulatorFixtures;
+  private faults: SimulatorFault[];
+  private routes: Route[] = [];
+  private tokens = new Map<string, { clientId: string; expiresAt: number }>();
+  private callTimes: number[] = [];
+  private dailyCalls = { day: '', count: 0 };
+  private requestCount = 0;
+
+  private leads: SimulatedLead[];
+  private activities: SimulatedActivity[];
+  private lists: SimulatedList[];
+  // Lead IDs in each static list
+  private listMembers = new Map<number, Set<number>>();
+  private folders: SimulatedFolder[];
+  private forms: SimulatedForm[];
+  private formFields = new Map<number, SimulatedFormItem[]>();
+  private smartLists: SimulatedSmartList[];
+  private channels: SimulatedChannel[];
+  private emails: SimulatedEmail[];
+  private emailContent = new Map<number, SimulatedEmailSection[]>();
+  // Approved forms and emails edited since their approval, keyed like "form/3001"
+  private drafts = new Set<string>();
+  private programs: SimulatedProgram[];
+  private campaigns: SimulatedCampaign[];
+  private customObjects: Record<string, SimulatedCustomObject[]>;
+  private exportJobs: ExportJob[] = [];
+  private importBatches: ImportBatch[] = [];
+
+  constructor(fixtures: SimulatorFixtures) {
+    this.fixtures = fixtures;
+    this.faults = fixtures.faults.map((fault) => ({ ...fault }));
+    this.leads = fixtures.leads;
+    this.activities = fixtures.activities;
+    this.lists = fixtures.lists.map(({ leadIds, ...list }) => {
+      this.listMembers.set(list.id, new Set(leadIds ?? []));
+      return list;
+    });
+    this.folders = fixtures.folders;
+    this.forms = fixtures.forms.map(({ fields, ...form }) => {
+      this.formFields.set(form.id, fields ?? []);
+      return form;
+    });
+    this.smartLists = fixtures.smartLists;
+    this.channels = fixtures.channels;
+    this.emails = fixtures.emails.map(({ content, ...email }) => {
+      this.emailContent.set(email.id, content ?? []);
+      return email;
+    });
+    this.programs = fixtures.programs;
+    this.campaigns = fixtures.campaigns;
+    this.customObjects = fixtures.customObjects;
+
+    this.registerLeadRoutes();
+    this.registerActivityRoutes();
+    this.registerListRoutes();
+    this.registerFolderRoutes();
+    this.registerFormRoutes();
+    this.registerAssetRoutes();
+    this.registerCampaignRoutes();
+    this.registerCustomObjectRoutes();
+    this.registerBulkRoutes();
+  }
+
+  /**
+   * Answers one HTTP request the way Marketo would
+   */
+  async handle(
+    method: string,
+    url: URL,
+    authorization: string,
+    contentType: string,
+    data: unknown
+  ): Promise<SimulatedReply> {
+    if (url.pathname.endsWith('/oauth/token')) {
+      return this.issueToken(url.searchParams);
+    }
+
+    const start = url.pathname.search(/\/(rest|asset|bulk)\/v\d+\//);
+    const path = start >= 0 ? url.pathname.slice(start) : url.pathname;
+    const query = url.searchParams;
+
+    try {
+      const fault = this.takeFault(method, `${path}${url.search}`);
+      if (fault?.httpStatus) {
+        return {
+          status: fault.httpStatus,
+          contentType: 'text/plain',
+          body: fault.message ?? 'Simulated failure',
+        };
+      }
+      if (fault) {
+        const code = fault.code ?? '611';
+        throw new SimulatedError(
+          code,
+          fault.message ?? ERROR_MESSAGES[code] ?? 'Simulated failure'
+        );
+      }
+
+      this.authenticate(authorization, query);
+      this.countCall();
+
+      // Long queries are sent as POST with _method=GET, their parameters in the body
+      const request: SimulatedRequest = {
+        method: query.get('_method') ?? method,
+        path,
+        query,
+        body: await parseBody(data, contentType),
+      };
+      const route = this.routes.find(
+        (candidate) => candidate.method === request.method && candidate.pattern.test(path)
+      );
+      if (!route) {
+        throw new SimulatedError('610', 'Requested resource not found');
+      }
+
+      const params = path.match(route.pattern)!.slice(1).map(decodeURIComponent);
+      const result = await route.handle(request, params);
+      // File endpoints answer with CSV rather than an envelope
+      if (typeof result === 'string') {
+        return { status: 200, contentType: 'text/csv', body: result };
+      }
+      return this.reply({ success: true, ...result });
+    } catch (error) {
+      if (!(error instanceof SimulatedError)) {
+        throw error;
+      }
+      return this.reply({
+        success: false,
+        errors: [{ code: error.code, message: error.message }],
+      });
+    }
+  }
+
+  private reply(envelope: Record<string, unknown>): SimulatedReply {
+    this.requestCount++;
+    const requestId = `${this.requestCount.toString(16)}#${Date.now().toString(16)}`;
+    return {
+      status: 200,
+      contentType: 'application/json;charset=UTF-8',
+      body: JSON.stringify({ requestId, ...envelope }),
+    };
+  }
+
+  private route<Body = SimulatedBody>(method: string, pattern: RegExp, handle: RouteHandler<Body>) {
+    this.routes.push({ method, pattern, handle: handle as RouteHandler });
+  }
+
+  // Identity endpoint: reissues the client's current token with its remaining lifetime, as
+  // Marketo does, and a new token once that has expired
+  private issueToken(query: URLSearchParams): SimulatedReply {
+    const json = (status: number, body: unknown) => ({
+      status,
+      contentType: 'application/json;charset=UTF-8',
+      body: JSON.stringify(body),
+    });
+
+    if (query.get('grant_type') !== 'client_credentials') {
+      return json(400, {
+        error: 'unsupported_grant_type',
+        error_description: 'Invalid grant type',
+      });
+    }
+    const clientId = query.get('client_id') ?? '';
+    const { credentials } = this.fixtures;
+    if (
+      !clientId ||
+      (credentials &&
+        (clientId !== credentials.clientId ||
+          query.get('client_secret') !== credentials.clientSecret))
+    ) {
+      return json(401, { error: 'unauthorized', error_description: 'Bad client credentials' });
+    }
+
+    const now = Date.now();
+    let current = [...this.tokens.entries()].find(
+      ([, token]) => token.clientId === clientId && token.expiresAt > now
+    );
+    if (!current) {
+      const token = `${crypto.randomUUID()}:sim`;
+      const issued = { clientId, expiresAt: now + this.fixtures.limits.tokenTtlSeconds * 1000 };
+      this.tokens.set(token, issued);
+      current = [token, issued];
+    }
+    return json(200, {
+      access_token: current[0],
+      token_type: 'bearer',
+      expires_in: Math.max(0, Math.floor((current[1].expiresAt - now) / 1000)),
+      scope: clientId,
+    });
+  }
+
+  private authenticate(authorization: string, query: URLSearchParams) {
+    const token = authorization.replace(/^Bearer\s+/i, '') || query.get('access_token');
+    if (!token) {
+      throw new SimulatedError('600', ERROR_MESSAGES['600']);
+    }
+    const issued = this.tokens.get(token);
+    if (!issued) {
+      throw new SimulatedError('601', ERROR_MESSAGES['601']);
+    }
+    if (issued.expiresAt <= Date.now()) {
+      throw new SimulatedError('602', ERROR_MESSAGES['602']);
+    }
+  }
+
+  // Applies the sliding-window rate limit and the daily quota
+  private countCall() {
+    const { rateLimit, rateWindowSeconds, dailyQuota } = this.fixtures.limits;
+    const now = Date.now();
+    this.callTimes = this.callTimes.filter((time) => time > now - rateWindowSeconds * 1000);
+    if (this.callTimes.length >= rateLimit) {
+      throw new SimulatedError(
+        '606',
+        `Max rate limit '${rateLimit}' exceeded with in '${rateWindowSeconds}' secs`
+      );
+    }
+
+    const day = timestamp(now).slice(0, 10);
+    if (this.dailyCalls.day !== day) {
+      this.dailyCalls = { day, count: 0 };
+    }
+    if (this.dailyCalls.count >= dailyQuota) {
+      throw new SimulatedError('607', ERROR_MESSAGES['607']);
+    }
+    this.callTimes.push(now);
+    this.dailyCalls.count++;
+  }
+
+  private takeFault(method: string, endpoint: string): SimulatorFault | undefined {
+    const fault = this.faults.find(
+      (candidate) =>
+        (candidate.times === undefined || candidate.times > 0) &&
+        (!candidate.method || candidate.method.toUpperCase() === method) &&
+        new RegExp(candidate.path).test(endpoint)
+    );
+    if (fault?.times !== undefined) {
+      fault.times--;
+    }
+    return fault;
+  }
+
+  // Leads
+
+  private leadFieldCatalog() {
+    return buildFieldCatalog({ result: [{ fields: this.fixtures.leadFields }] });
+  }
+
+  private requestedLeadFields(fields: string[]): string[] {
+    if (fields.length === 0) {
+      return DEFAULT_LEAD_FIELDS;
+    }
+    const known = new Set(this.fixtures.leadFields.map((field) => field.name));
+    const unknown = fields.find((field) => !known.has(field));
+    if (unknown) {
+      throw new SimulatedError('1006', `Field '${unknown}' not found`);
+    }
+    return fields.includes('id') ? fields : ['id', ...fields];
+  }
+
+  private findLead(id: unknown): SimulatedLead | undefined {
+    return this.leads.find((lead) => lead.id === Number(id));
+  }
+
+  private addActivity(
+    leadId: number,
+    activityTypeId: number,
+    primary: { id?: number | string; value: string },
+    attributes: { name: string; value: unknown }[]
+  ) {
+    const id = nextId(this.activities);
+    this.activities.push({
+      id,
+      marketoGUID: String(id),
+      leadId,
+      activityDate: timestamp(),
+      activityTypeId,
+      primaryAttributeValueId: primary.id ?? null,
+      primaryAttributeValue: primary.value,
+      attributes,
+    });
+  }
+
+  // Creates or updates one lead, returning its entry in the upsert result
+  private upsertLead(
+    record: Record<string, unknown>,
+    lookupField: string,
+    action: string,
+    issues: LeadFieldIssue[]
+  ): RecordOutcome {
+    if (issues.length > 0) {
+      return { status: 'skipped', reasons: issues.map(describeIssue) };
+    }
+    const key = record[lookupField];
+    if (isBlank(key) && action !== 'createDuplicate') {
+      return skipped('1003', `Value for lookup field '${lookupField}' not specified`);
+    }
+
+    // Marketo updates the most recently updated of several matching leads
+    const existing =
+      action === 'createDuplicate'
+        ? undefined
+        : this.leads
+            .filter((lead) => sameValue(lead[lookupField], key))
+            .sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt))[0];
+    const now = timestamp();
+
+    if (existing) {
+      if (action === 'createOnly') {
+        return skipped('1005', 'Lead already exists', { id: existing.id });
+      }
+      for (const [field, value] of Object.entries(record)) {
+        if (field === 'id' || value === undefined || existing[field] === value) {
+          continue;
+        }
+        const index = this.fixtures.leadFields.findIndex((candidate) => candidate.name === field);
+        this.addActivity(existing.id, 13, { id: index + 1, value: field }, [
+          { name: 'New Value', value },
+          { name: 'Old Value', value: existing[field] ?? null },
+          { name: 'Reason', value: 'Web service API' },
+        ]);
+        existing[field] = value;
+      }
+      existing.updatedAt = now;
+      return { id: existing.id, status: 'updated' };
+    }
+
+    if (action === 'updateOnly' || lookupField === 'id') {
+      return skipped('1004', 'Lead not found');
+    }
+    const lead = {
+      ...Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined)),
+      id: nextId(this.leads),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.leads.push(lead);
+    this.addActivity(lead.id, 12, { id: lead.id, value: String(lead.id) }, [
+      { name: 'Source Type', value: 'Web service API' },
+    ]);
+    return { id: lead.id, status: 'created' };
+  }
+
+  private registerLeadRoutes() {
+    this.route('GET', /^\/rest\/v1\/leads\/describe2\.json$/, () => ({
+      result: [
+        {
+          name: 'API Lead',
+          searchableFields: [['email'], ['id']],
+          fields: this.fixtures.leadFields.map((field) => ({
+            ...field,
+            updateable: field.updateable !== false,
+          })),
+        },
+      ],
+    }));
+
+    // The tools look leads up by ID or by email address through the same path
+    this.route('GET', /^\/rest\/v1\/lead\/([^/]+)\.json$/, (request, [key]) => {
+      const fields = this.requestedLeadFields(listParam(request.query, 'fields'));
+      const lead = /^\d+$/.test(key)
+        ? this.findLead(key)
+        : this.leads.find((candidate) => sameValue(candidate.email, key));
+      return { result: lead ? [pickFields(lead, fields)] : [] };
+    });
+
+    this.route('GET', /^\/rest\/v1\/leads\.json$/, (request) => {
+      const filterType = required(request.query.get('filterType'), 'filterType');
+      const values = listParam(request.query, 'filterValues');
+      if (values.length === 0 || values.length > MAX_BATCH_SIZE) {
+        throw new SimulatedError('1003', 'filterValues must list between 1 and 300 values');
+      }
+      if (!this.fixtures.leadFields.some((field) => field.name === filterType)) {
+        throw new SimulatedError('1003', `Invalid filterType '${filterType}'`);
+      }
+      const fields = this.requestedLeadFields(listParam(request.query, 'fields'));
+      const matches = this.leads.filter((lead) =>
+        values.some((value) => sameValue(lead[filterType], value))
+      );
+      return tokenPage(
+        matches.map((lead) => pickFields(lead, fields)),
+        request.query
+      );
+    });
+
+    this.route<LeadUpsertBody>('POST', /^\/rest\/v1\/leads\.json$/, (request) => {
+      const { input, lookupField = 'email', action = 'createOrUpdate' } = request.body;
+      if (!Array.isArray(input) || input.length === 0 || input.length > MAX_BATCH_SIZE) {
+        throw new SimulatedError('1003', 'input must list between 1 and 300 records');
+      }
+      if (!['createOrUpdate', 'createOnly', 'updateOnly', 'createDuplicate'].includes(action)) {
+        throw new SimulatedError('1003', `Invalid action '${action}'`);
+      }
+      const issues = validateRecords(input, this.leadFieldCatalog(), [lookupField], '');
+      return {
+        result: input.map((record: Record<string, unknown>, index: number) =>
+          this.upsertLead(
+            record,
+            lookupField,
+            action,
+            issues.filter((issue) => issue.record === index)
+          )
+        ),
+      };
+    });
+
+    this.route('POST', /^\/rest\/v1\/leads\/(\d+)\/delete\.json$/, (_request, [id]) => {
+      const lead = this.findLead(id);
+      if (!lead) {
+        return { result: [skipped('1004', 'Lead not found', { id: Number(id) })] };
+      }
+      this.leads.splice(this.leads.indexOf(lead), 1);
+      this.listMembers.forEach((members) => members.delete(lead.id));
+      return { result: [{ id: lead.id, status: 'deleted' }] };
+    });
+
+    // Losing leads are deleted; the winner takes their list memberships and activities, and their
+    // values for fields it has empty
+    this.route('POST', /^\/rest\/v1\/leads\/(\d+)\/merge\.json$/, (request, [id]) => {
+      const winner = this.findLead(id);
+      if (!winner) {
+        throw new SimulatedError('1004', `Lead '${id}' not found`);
+      }
+      const loserIds = [
+        ...listParam(request.query, 'leadIds'),
+        ...listParam(request.query, 'leadId'),
+      ].map(Number);
+      if (loserIds.length === 0) {
+        throw new SimulatedError('1003', 'leadIds cannot be blank');
+      }
+      if (loserIds.length > 3) {
+        throw new SimulatedError('1003', 'leadIds cannot list more than 3 leads');
+      }
+      const losers = loserIds.map((loserId) => {
+        const loser = this.findLead(loserId);
+        if (!loser || loser === winner) {
+          throw new SimulatedError('1004', `Lead '${loserId}' not found`);
+        }
+        return loser;
+      });
+
+      for (const loser of losers) {
+        for (const [field, value] of Object.entries(loser)) {
+          if (isBlank(winner[field]) && !isBlank(value)) {
+            winner[field] = value;
+          }
+        }
+        this.listMembers.forEach((members) => {
+          if (members.delete(loser.id)) {
+            members.add(winner.id);
+          }
+        });
+        this.activities
+          .filter((activity) => activity.leadId === loser.id)
+          .forEach((activity) => (activity.leadId = winner.id));
+        this.leads.splice(this.leads.indexOf(loser), 1);
+      }
+      winner.updatedAt = timestamp();
+      return {};
+    });
+
+    this.route('GET', /^\/rest\/v1\/leads\/(\d+)\/listMembership\.json$/, (request, [id]) => {
+      if (!this.findLead(id)) {
+        throw new SimulatedError('1004', `Lead '${id}' not found`);
+      }
+      const lists = this.lists.filter((list) => this.listMembers.get(list.id)?.has(Number(id)));
+      return tokenPage(lists, request.query);
+    });
+  }
+
+  // Activities
+
+  // Activities in the order Marketo pages through them: by date, then ID
+  private activitiesAfter(cursor: ActivityCursor): SimulatedActivity[] {
+    return this.activities
+      .map((activity) => ({ activity, time: Date.parse(activity.activityDate) }))
+      .filter(
+        ({ activity, time }) =>
+          time > cursor.time || (time === cursor.time && activity.id > cursor.id)
+      )
+      .sort((a, b) => a.time - b.time || a.activity.id - b.activity.id)
+      .map(({ activity }) => activity);
+  }
+
+  /**
+   * Returns one page of activities after the paging token. Activity endpoints always return a
+   * token, so a later call can pick up activities added since.
+   */
+  private activityPage(
+    request: SimulatedRequest,
+    matches: (activity: SimulatedActivity) => boolean
+  ): { result: SimulatedActivity[]; moreResult: boolean; nextPageToken: string } {
+    const batchSize = intParam(request.query, 'batchSize', MAX_BATCH_SIZE, MAX_BATCH_SIZE);
+    const token = request.query.get('nextPageToken');
+    const cursor = token ? decodePageToken<ActivityCursor>(token) : { time: 0, id: 0 };
+    if (typeof cursor.time !== 'number' || typeof cursor.id !== 'number') {
+      throw new SimulatedError('1003', 'Invalid nextPageToken');
+    }
+
+    const remaining = this.activitiesAfter(cursor).filter(matches);
+    const page = remaining.slice(0, batchSize);
+    const last = page[page.length - 1];
+    const next = last ? { time: Date.parse(last.activityDate), id: last.id } : cursor;
+    return {
+      result: page,
+      moreResult: remaining.length > page.length,
+      nextPageToken: encodePageToken(next),
+    };
+  }
+
+  private activityTypeFilter(query: URLSearchParams): (activity: SimulatedActivity) => boolean {
+    const typeIds = listParam(query, 'activityTypeIds').map(Number);
+    if (typeIds.length > 10) {
+      throw new SimulatedError('1003', 'activityTypeIds cannot list more than 10 types');
+    }
+    return (activity) => typeIds.length === 0 || typeIds.includes(activity.activityTypeId);
+  }
+
+  private registerActivityRoutes() {
+    this.route('GET', /^\/rest\/v1\/activities\/types\.json$/, () => ({
+      result: this.fixtures.activityTypes,
+    }));
+
+    this.route('GET', /^\/rest\/v1\/activities\/pagingtoken\.json$/, (request) => {
+      const since = Date.parse(required(request.query.get('sinceDatetime'), 'sinceDatetime'));
+      if (Number.isNaN(since)) {
+        throw new SimulatedError('1003', 'Invalid sinceDatetime');
+      }
+      // Activities at the exact start time are included
+      return { nextPageToken: encodePageToken({ time: since - 1, id: Number.MAX_SAFE_INTEGER }) };
+    });
+
+    this.route('GET', /^\/rest\/v1\/activities\.json$/, (request) => {
+      const leadIds = listParam(request.query, 'leadIds').map(Number);
+      if (leadIds.length > 30) {
+        throw new SimulatedError('1003', 'leadIds cannot list more than 30 leads');
+      }
+      const byType = this.activityTypeFilter(request.query);
+      return this.activityPage(
+        request,
+        (activity) =>
+          byType(activity) && (leadIds.length === 0 || leadIds.includes(activity.leadId))
+      );
+    });
+
+    this.route('GET', /^\/rest\/v1\/activities\/lead\/(\d+)\.json$/, (request, [id]) => {
+      const byType = this.activityTypeFilter(request.query);
+      return this.activityPage(
+        request,
+        (activity) => activity.leadId === Number(id) && byType(activity)
+      );
+    });
+
+    // Data value changes, with the changed field and its old and new values
+    this.route('GET', /^\/rest\/v1\/activities\/lead\/(\d+)\/changes\.json$/, (request, [id]) => {
+      const fields = listParam(request.query, 'fields');
+      const page = this.activityPage(
+        request,
+        (activity) =>
+          activity.leadId === Number(id) &&
+          activity.activityTypeId === 13 &&
+          (fields.length === 0 || fields.includes(activity.primaryAttributeValue))
+      );
+      const attribute = (activity: SimulatedActivity, name: string) =>
+        activity.attributes?.find((item) => item.name === name)?.value ?? null;
+      const result = page.result.map((activity) => ({
+        ...activity,
+        fields: [
+          {
+            id: activity.primaryAttributeValueId,
+            name: activity.primaryAttributeValue,
+            newValue: attribute(activity, 'New Value'),
+            oldValue: attribute(activity, 'Old Value'),
+          },
+        ],
+      }));
+      return { ...page, result };
+    });
+  }
+
+  // Static lists
+
+  private requireList(id: unknown): SimulatedList {
+    const list = this.lists.find((candidate) => candidate.id === Number(id));
+    if (!list) {
+      throw new SimulatedError('1013', 'Static list not found');
+    }
+    return list;
+  }
+
+  private registerListRoutes() {
+    this.route('GET', /^\/rest\/v1\/lists\.json$/, (request) => {
+      const filters = (['id', 'name', 'programName', 'workspaceName'] as const).map((field) => ({
+        field,
+        values: listParam(request.query, field),
+      }));
+      const lists = this.lists.filter((list) =>
+        filters.every(
+          ({ field, values }) =>
+            values.length === 0 || values.some((value) => sameValue(list[field], value))
+        )
+      );
+      return tokenPage(lists, request.query);
+    });
+
+    this.route('GET', /^\/rest\/v1\/lists\/(\d+)\.json$/, (_request, [id]) => {
+      const list = this.lists.find((candidate) => candidate.id === Number(id));
+      return { result: list ? [list] : [] };
+    });
+
+    this.route('GET', /^\/rest\/v1\/lists\/(\d+)\/leads\.json$/, (request, [id]) => {
+      const list = this.requireList(id);
+      const fields = this.requestedLeadFields(listParam(request.query, 'fields'));
+      const members = this.listMembers.get(list.id)!;
+      const leads = this.leads
+        .filter((lead) => members.has(lead.id))
+        .sort((a, b) => a.id - b.id)
+        .map((lead) => pickFields(lead, fields));
+      return tokenPage(leads, request.query);
+    });
+
+    this.route<LeadIdsBody>('POST', /^\/rest\/v1\/lists\/(\d+)\/leads\.json$/, (request, [id]) => {
+      const list = this.requireList(id);
+      const members = this.listMembers.get(list.id)!;
+      const result = this.leadInput(request.body).map((leadId) => {
+        if (!this.findLead(leadId)) {
+          return skipped('1004', 'Lead not found', { id: leadId });
+        }
+        if (!members.has(leadId)) {
+          members.add(leadId);
+          this.addActivity(leadId, 24, { id: list.id, value: list.name }, [
+            { name: 'Source', value: 'Web service API' },
+          ]);
+        }
+        return { id: leadId, status: 'added' };
+      });
+      list.updatedAt = timestamp();
+      return { result };
+    });
+
+    this.route<LeadIdsBody>(
+      'POST',
+      /^\/rest\/v1\/lists\/(\d+)\/leads\/delete\.json$/,
+      (request, [id]) => {
+        const list = this.requireList(id);
+        const members = this.listMembers.get(list.id)!;
+        const result = this.leadInput(request.body).map((leadId) => {
+          if (!this.findLead(leadId)) {
+            return skipped('1004', 'Lead not found', { id: leadId });
+          }
+          if (!members.delete(leadId)) {
+            return skipped('1015', 'Lead not in list', { id: leadId });
+          }
+          return { id: leadId, status: 'removed' };
+        });
+        list.updatedAt = timestamp();
+        return { result };
+      }
+    );
+
+    this.route('GET', /^\/rest\/v1\/lists\/(\d+)\/leads\/ismember\.json$/, (request, [id]) => {
+      const members = this.listMembers.get(this.requireList(id).id)!;
+      const ids = listParam(request.query, 'id').map(Number);
+      if (ids.length === 0 || ids.length > MAX_BATCH_SIZE) {
+        throw new SimulatedError('1003', 'id must list between 1 and 300 leads');
+      }
+      return {
+        result: ids.map((leadId) => {
+          if (!this.findLead(leadId)) {
+            return skipped('1004', 'Lead not found', { id: leadId });
+          }
+          return { id: leadId, status: members.has(leadId) ? 'memberof' : 'notmemberof' };
+        }),
+      };
+    });
+
+    this.route('GET', /^\/asset\/v1\/staticLists\.json$/, (request) => {
+      const folder = request.query.get('folder');
+      const lists = this.lists.filter(
+        (list) =>
+          matchesFolder(list, folder ? jsonParam(folder, 'folder') : null) &&
+          updatedWithin(list, request.query)
+      );
+      return assetPage(lists, request.query);
+    });
+
+    this.route('GET', /^\/asset\/v1\/staticList\/(\d+)\.json$/, (_request, [id]) =>
+      singleAsset(this.lists.find((list) => list.id === Number(id)))
+    );
+
+    this.route('GET', /^\/asset\/v1\/staticList\/byName\.json$/, (request) => {
+      const name = required(request.query.get('name'), 'name');
+      return singleAsset(this.lists.find((list) => list.name === name));
+    });
+
+    this.route<AssetBody>('POST', /^\/asset\/v1\/staticLists\.json$/, (request) => {
+      const name = required(request.body.name, 'name');
+      const folder = this.requireFolder(request.body.folder);
+      if (this.lists.some((list) => sameValue(list.name, name))) {
+        throw new SimulatedError('709', `Static list name '${name}' is already in use`);
+      }
+      const id = nextId(this.lists);
+      const now = timestamp();
+      const list = {
+        id,
+        name,
+        description: request.body.description ?? null,
+        programName: folder.folderId.type === 'Program' ? folder.name : null,
+        workspaceName: folder.workspace ?? 'Default',
+        folder: this.folderRef(folder),
+        computedUrl: `https://app-sim.marketo.com/#ST${id}A1`,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.lists.push(list);
+      this.listMembers.set(id, new Set());
+      return { result: [list] };
+    });
+
+    this.route('POST', /^\/asset\/v1\/staticList\/(\d+)\/delete\.json$/, (_request, [id]) => {
+      const list = this.lists.find((candidate) => candidate.id === Number(id));
+      if (!list) {
+        throw new SimulatedError('702', `Static list ${id} not found`);
+      }
+      this.lists.splice(this.lists.indexOf(list), 1);
+      this.listMembers.delete(list.id);
+      return { result: [{ id: list.id }] };
+    });
+  }
+
+  // Lead IDs from an input of { id } objects, as the list membership endpoints take them
+  private leadInput(body: LeadIdsBody): number[] {
+    const input = body.input;
+    if (!Array.isArray(input) || input.length === 0 || input.length > MAX_BATCH_SIZE) {
+      throw new SimulatedError('1003', 'input must list between 1 and 300 leads');
+    }
+    return input.map((item) => Number(item?.id));
+  }
+
+  // Folders
+
+  private findFolder(ref: FolderParam | undefined): SimulatedFolder | undefined {
+    return this.folders.find(
+      (folder) =>
+        folder.folderId.id === Number(ref?.id) && folder.folderId.type === (ref?.type ?? 'Folder')
+    );
+  }
+
+  private requireFolder(value: unknown, name: string = 'folder'): SimulatedFolder {
+    const ref = jsonParam<FolderParam>(required(value, name), name);
+    const folder = this.findFolder(ref);
+    if (!folder) {
+      throw new SimulatedError('702', `${ref?.type ?? 'Folder'} ${ref?.id} not found`);
+    }
+    return folder;
+  }
+
+  private folderRef(folder: SimulatedFolder) {
+    return { type: folder.folderId.type, value: folder.folderId.id, folderName: folder.name };
+  }
+
+  private registerFolderRoutes() {
+    const depth = (folder: SimulatedFolder) => folder.path.split('/').filter(Boolean).length;
+
+    this.route('GET', /^\/asset\/v1\/folders\.json$/, (request) => {
+      const maxDepth = intParam(request.query, 'maxDepth', 2, 100);
+      const workSpace = request.query.get('workSpace');
+      const rootParam = request.query.get('root');
+      const root = rootParam ? this.findFolder(jsonParam(rootParam, 'root')) : undefined;
+      if (rootParam && !root) {
+        return { warnings: [NO_ASSETS_WARNING] };
+      }
+
+      const folders = this.folders.filter(
+        (folder) =>
+          (!workSpace || folder.workspace === workSpace) &&
+          (root
+            ? (folder === root || folder.path.startsWith(`${root.path}/`)) &&
+              depth(folder) - depth(root) <= maxDepth
+            : depth(folder) <= maxDepth)
+      );
+      return assetPage(folders, request.query);
+    });
+
+    this.route('GET', /^\/asset\/v1\/folder\/byName\.json$/, (request) => {
+      const name = required(request.query.get('name'), 'name');
+      const type = request.query.get('type');
+      const workSpace = request.query.get('workSpace');
+      const folders = this.folders.filter(
+        (folder) =>
+          folder.name === name &&
+          (!type || folder.folderId.type === type) &&
+          (!workSpace || folder.workspace === workSpace)
+      );
+      return folders.length > 0 ? { result: folders } : { warnings: [NO_ASSETS_WARNING] };
+    });
+
+    this.route<AssetBody>('POST', /^\/asset\/v1\/folders\.json$/, (request) => {
+      const name = required(request.body.name, 'name');
+      const parent = this.requireFolder(request.body.parent, 'parent');
+      const path = `${parent.path}/${name}`;
+      if (this.folders.some((folder) => folder.path === path)) {
+        throw new SimulatedError('709', `Folder '${name}' already exists in ${parent.path}`);
+      }
+      const id = nextId(this.folders);
+      const now = timestamp();
+      const folder = {
+        id,
+        name,
+        description: request.body.description ?? null,
+        folderId: { id, type: 'Folder' },
+        folderType: parent.folderType === 'Program' ? 'Marketing Folder' : parent.folderType,
+        parent: parent.folderId,
+        path,
+        isArchive: false,
+        isSystem: false,
+        workspace: parent.workspace,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.folders.push(folder);
+      return { result: [folder] };
+    });
+  }
+
+  // Forms
+
+  private findForm(id: unknown): SimulatedForm | undefined {
+    return this.forms.find((form) => form.id === Number(id));
+  }
+
+  // Returns a form about to change; changes to an approved form make a draft
+  private editForm(id: unknown): SimulatedForm {
+    const form = this.findForm(id);
+    if (!form) {
+      throw new SimulatedError('702', `Form ${id} not found`);
+    }
+    if (form.status === 'approved') {
+      this.drafts.add(`form/${form.id}`);
+    }
+    form.updatedAt = timestamp();
+    return form;
+  }
+
+  // Every item on a form, including the fields inside fieldsets
+  private formItems(formId: number): SimulatedFormItem[] {
+    const items = this.formFields.get(formId) ?? [];
+    return items.flatMap((item) => [item, ...(item.fields ?? [])]);
+  }
+
+  private findFormItem(formId: number, itemId: string): SimulatedFormItem {
+    const item = this.formItems(formId).find((candidate) => candidate.id === itemId);
+    if (!item) {
+      throw new SimulatedError('702', `Field '${itemId}' not found on form ${formId}`);
+    }
+    return item;
+  }
+
+  private addFormItem(
+    formId: number,
+    item: { id: string; dataType: string; [setting: string]: unknown }
+  ): SimulatedFormItem {
+    const items = this.formFields.get(formId) ?? [];
+    const rowNumber = items.reduce((max, field) => Math.max(max, field.rowNumber + 1), 0);
+    const added = { ...item, rowNumber, columnNumber: 0 };
+    this.formFields.set(formId, [...items, added]);
+    return added;
+  }
+
+  private formSettings(body: FormBody): Record<string, unknown> {
+    return Object.fromEntries(
+      FORM_SETTING_KEYS.filter((key) => body[key] !== undefined).map((key) => [
+        key,
+        formValue(body[key]),
+      ])
+    );
+  }
+
+  private createForm(
+    name: string,
+    folder: SimulatedFolder,
+    settings: Record<string, unknown>,
+    fields: SimulatedFormItem[]
+  ) {
+    if (this.forms.some((form) => sameValue(form.name, name))) {
+      throw new SimulatedError('709', `Form name '${name}' is already in use`);
+    }
+    const id = nextId(this.forms);
+    const now = timestamp();
+    const form = {
+      id,
+      name,
+      description: null,
+      status: 'draft',
+      url: `https://app-sim.marketo.com/#FO${id}A1`,
+      folder: this.folderRef(folder),
+      language: 'English',
+      locale: 'en_US',
+      progressiveProfiling: false,
+      labelPosition: 'above',
+      fontFamily: 'Helvetica',
+      fontSize: '13px',
+      knownVisitor: { type: 'form', template: null },
+      theme: 'simple',
+      buttonLocation: 120,
+      buttonStyle: 'simple',
+      buttonLabel: 'Submit',
+      waitingLabel: 'Please wait...',
+      thankYouList: [],
+      ...settings,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.forms.push(form);
+    this.formFields.set(id, fields);
+    return form;
+  }
+
+  private registerFormRoutes() {
+    this.route('GET', /^\/asset\/v1\/forms\.json$/, (request) => {
+      const status = request.query.get('status');
+      const folder = request.query.get('folder');
+      const forms = this.forms.filter(
+        (form) =>
+          (!status || form.status === status) &&
+          matchesFolder(form, folder ? jsonParam(folder, 'folder') : null)
+      );
+      return assetPage(forms, request.query);
+    });
+
+    this.route('GET', /^\/asset\/v1\/form\/(\d+)\.json$/, (_request, [id]) =>
+      singleAsset(this.findForm(id))
+    );
+
+    this.route('GET', /^\/asset\/v1\/form\/(\d+)\/fields\.json$/, (_request, [id]) => {
+      const form = this.findForm(id);
+      if (!form) {
+        throw new SimulatedError('702', `Form ${id} not found`);
+      }
+      return { result: this.formFields.get(form.id) ?? [] };
+    });
+
+    // New forms start with the email field
+    this.route<FormBody>('POST', /^\/asset\/v1\/forms\.json$/, (request) => {
+      const name = required(request.body.name, 'name');
+      const folder = this.requireFolder(request.body.folder);
+      const email = {
+        id: 'Email',
+        label: 'Email Address:',
+        dataType: 'email',
+        required: true,
+        rowNumber: 0,
+        columnNumber: 0,
+      };
+      return { result: [this.createForm(name, folder, this.formSettings(request.body), [email])] };
+    });
+
+    this.route<FormBody>('POST', /^\/asset\/v1\/form\/(\d+)\/clone\.json$/, (request, [id]) => {
+      const source = this.findForm(id);
+      if (!source) {
+        throw new SimulatedError('702', `Form ${id} not found`);
+      }
+      const name = required(request.body.name, 'name');
+      const folder = this.requireFolder(request.body.folder);
+      const settings = Object.fromEntries(
+        Object.entries(source).filter(
+          ([key]) =>
+            !['id', 'name', 'status', 'url', 'folder', 'createdAt', 'updatedAt'].includes(key)
+        )
+      );
+      const form = this.createForm(
+        name,
+        folder,
+        { ...settings, ...this.formSettings(request.body) },
+        structuredClone(this.formFields.get(source.id) ?? [])
+      );
+      return { result: [form] };
+    });
+
+    this.route('POST', /^\/asset\/v1\/form\/(\d+)\/approve\.json$/, (_request, [id]) => {
+      const form = this.findForm(id);
+      if (!form) {
+        throw new SimulatedError('702', `Form ${id} not found`);
+      }
+      if (form.status === 'approved' && !this.drafts.has(`form/${form.id}`)) {
+        throw new SimulatedError('709', `Form ${id} has no draft to approve`);
+      }
+      form.status = 'approved';
+      form.updatedAt = timestamp();
+      this.drafts.delete(`form/${form.id}`);
+      return { result: [form] };
+    });
+
+    this.route<FormFieldBody>(
+      'POST',
+      /^\/asset\/v1\/form\/(\d+)\/fields\.json$/,
+      (request, [id]) => {
+        const form = this.editForm(id);
+        const fieldId = required(request.body.fieldId, 'fieldId');
+        // Form field IDs are the SOAP names of lead fields, such as FirstName for firstName
+        const leadField = this.fixtures.leadFields.find((field) => sameValue(field.name, fieldId));
+        if (!leadField) {
+          throw new SimulatedError('702', `Field '${fieldId}' not found`);
+        }
+        if (this.formItems(form.id).some((item) => item.id === fieldId)) {
+          throw new SimulatedError('709', `Field '${fieldId}' is already on form ${id}`);
+        }
+        const settings = omitFields(request.body, ['fieldId']);
+        const field = this.addFormItem(form.id, {
+          id: fieldId,
+          label: `${leadField.displayName}:`,
+          dataType: leadField.dataType,
+          required: false,
+          ...Object.fromEntries(
+            Object.entries(settings).map(([key, value]) => [key, formValue(value)])
+          ),
+        });
+        return { result: [{ id: field.id }] };
+      }
+    );
+
+    this.route(
+      'POST',
+      /^\/asset\/v1\/form\/(\d+)\/field\/([^/]+)\.json$/,
+      (request, [id, fieldId]) => {
+        const form = this.editForm(id);
+        const field = this.findFormItem(form.id, fieldId);
+        for (const [key, value] of Object.entries(request.body)) {
+          field[key] = formValue(value);
+        }
+        return { result: [{ id: field.id }] };
+      }
+    );
+
+    this.route(
+      'POST',
+      /^\/asset\/v1\/form\/(\d+)\/field\/([^/]+)\/visibility\.json$/,
+      (request, [id, fieldId]) => {
+        const form = this.editForm(id);
+        const field = this.findFormItem(form.id, fieldId);
+        field.visibilityRules = jsonParam(
+          required(request.body.visibilityRule, 'visibilityRule'),
+          'visibilityRule'
+        );
+        return { result: [{ id: field.id }] };
+      }
+    );
+
+    this.route('POST', /^\/asset\/v1\/form\/(\d+)\/richText\.json$/, (request, [id]) => {
+      const form = this.editForm(id);
+      const item = this.addFormItem(form.id, {
+        id: `HtmlText_${form.id}_${this.formItems(form.id).length + 1}`,
+        dataType: 'htmltext',
+        text: required(request.body.text, 'text'),
+      });
+      return { result: [{ id: item.id }] };
+    });
+
+    this.route('POST', /^\/asset\/v1\/form\/(\d+)\/fieldSet\.json$/, (request, [id]) => {
+      const form = this.editForm(id);
+      const item = this.addFormItem(form.id, {
+        id: `fieldset_${form.id}_${this.formItems(form.id).length + 1}`,
+        dataType: 'fieldset',
+        label: required(request.body.label, 'label'),
+        fields: [],
+      });
+      return { result: [{ id: item.id }] };
+    });
+
+    // Positions every item; fields listed under a fieldset move into it
+    this.route('POST', /^\/asset\/v1\/form\/(\d+)\/reArrange\.json$/, (request, [id]) => {
+      const form = this.editForm(id);
+      const positions = jsonParam<FormPosition[]>(
+        required(request.body.positions, 'positions'),
+        'positions'
+      );
+      if (!Array.isArray(positions)) {
+        throw new SimulatedError('1003', 'positions must be an array');
+      }
+      const items = new Map(this.formItems(form.id).map((item) => [item.id, item]));
+      const place = (position: FormPosition) => {
+        const item = items.get(position.fieldName);
+        if (!item) {
+          throw new SimulatedError('702', `Field '${position.fieldName}' not found on form ${id}`);
+        }
+        item.rowNumber = position.rowNumber;
+        item.columnNumber = position.columnNumber;
+        return item;
+      };
+
+      const nested = new Set<SimulatedFormItem>();
+      const top = positions.map((position) => {
+        const item = place(position);
+        if (item.dataType === 'fieldset') {
+          item.fields = (position.fieldList ?? []).map((child) => {
+            const field = place(child);
+            nested.add(field);
+            return field;
+          });
+        }
+        return item;
+      });
+      const unplaced = [...items.values()].filter(
+        (item) => !top.includes(item) && !nested.has(item)
+      );
+      this.formFields.set(
+        form.id,
+        [...top, ...unplaced].filter((item) => !nested.has(item))
+      );
+      return { result: [{ id: form.id }] };
+    });
+
+    this.route<SubmitButtonBody>(
+      'POST',
+      /^\/asset\/v1\/form\/(\d+)\/submitButton\.json$/,
+      (request, [id]) => {
+        const form = this.editForm(id);
+        const { buttonPosition, buttonStyle, label, waitingLabel } = request.body;
+        if (buttonPosition !== undefined) {
+          form.buttonLocation = Number(buttonPosition);
+        }
+        form.buttonStyle = buttonStyle ?? form.buttonStyle;
+        form.buttonLabel = label ?? form.buttonLabel;
+        form.waitingLabel = waitingLabel ?? form.waitingLabel;
+        return { result: [form] };
+      }
+    );
+
+    this.route('POST', /^\/asset\/v1\/form\/(\d+)\/thankYouPage\.json$/, (request, [id]) => {
+      const form = this.editForm(id);
+      const thankYouList = jsonParam(required(request.body.thankyou, 'thankyou'), 'thankyou');
+      if (!Array.isArray(thankYouList)) {
+        throw new SimulatedError('1003', 'thankyou must be an array');
+      }
+      form.thankYouList = thankYouList;
+      return { result: [form] };
+    });
+  }
+
+  // Smart lists, channels, emails and programs
+
+  private findEmail(id: unknown): SimulatedEmail {
+    const email = this.emails.find((candidate) => candidate.id === Number(id));
+    if (!email) {
+      throw new SimulatedError('702', `Email ${id} not found`);
+    }
+    return email;
+  }
+
+  private findChannel(id: unknown): SimulatedChannel {
+    const channel = this.channels.find((candidate) => candidate.id === Number(id));
+    if (!channel) {
+      throw new SimulatedError('702', `Channel ${id} not found`);
+    }
+    return channel;
+  }
+
+  private registerAssetRoutes() {
+    this.route('GET', /^\/asset\/v1\/smartLists\.json$/, (request) => {
+      const folder = request.query.get('folder');
+      const smartLists = this.smartLists.filter(
+        (smartList) =>
+          matchesFolder(smartList, folder ? jsonParam(folder, 'folder') : null) &&
+          updatedWithin(smartList, request.query)
+      );
+      return assetPage(smartLists, request.query);
+    });
+
+    this.route('GET', /^\/asset\/v1\/smartList\/(\d+)\.json$/, (_request, [id]) =>
+      singleAsset(this.smartLists.find((smartList) => smartList.id === Number(id)))
+    );
+
+    this.route('GET', /^\/asset\/v1\/channels\.json$/, (request) =>
+      assetPage(this.channels, request.query)
+    );
+
+    this.route('GET', /^\/asset\/v1\/channel\/(\d+)\.json$/, (_request, [id]) =>
+      singleAsset(this.channels.find((channel) => channel.id === Number(id)))
+    );
+
+    this.route<AssetBody>('POST', /^\/asset\/v1\/channels\.json$/, (request) => {
+      const name = required(request.body.name, 'name');
+      const type = required(request.body.type, 'type');
+      if (this.channels.some((channel) => sameValue(channel.name, name))) {
+        throw new SimulatedError('709', `Channel name '${name}' is already in use`);
+      }
+      const now = timestamp();
+      const channel = {
+        id: nextId(this.channels),
+        name,
+        description: request.body.description ?? null,
+        applicableProgramType: type,
+        progressionStatuses: [
+          { name: 'Not in Program', step: 0, success: false, hidden: false },
+          { name: 'Member', step: 10, success: false, hidden: false },
+          { name: 'Success', step: 20, success: true, hidden: false },
+        ],
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.channels.push(channel);
+      return { result: [channel] };
+    });
+
+    this.route<AssetBody>('POST', /^\/asset\/v1\/channel\/(\d+)\.json$/, (request, [id]) => {
+      const channel = this.findChannel(id);
+      const { name, description, type } = request.body;
+      if (name !== undefined) {
+        channel.name = name;
+      }
+      if (description !== undefined) {
+        channel.description = description;
+      }
+      if (type !== undefined) {
+        channel.applicableProgramType = type;
+      }
+      channel.updatedAt = timestamp();
+      return { result: [channel] };
+    });
+
+    this.route('POST', /^\/asset\/v1\/channel\/(\d+)\/delete\.json$/, (_request, [id]) => {
+      const channel = this.findChannel(id);
+      const program = this.programs.find((candidate) => candidate.channel === channel.name);
+      if (program) {
+        throw new SimulatedError(
+          '709',
+          `Channel '${channel.name}' is used by program '${program.name}'`
+        );
+      }
+      this.channels.splice(this.channels.indexOf(channel), 1);
+      return { result: [{ id: channel.id }] };
+    });
+
+    this.route('GET', /^\/asset\/v1\/emails\.json$/, (request) => {
+      const status = request.query.get('status');
+      const folder = request.query.get('folder');
+      const emails = this.emails.filter(
+        (email) =>
+          (!status || email.status === status) &&
+          matchesFolder(email, folder ? jsonParam(folder, 'folder') : null) &&
+          updatedWithin(email, request.query)
+      );
+      return assetPage(emails, request.query);
+    });
+
+    this.route('GET', /^\/asset\/v1\/email\/(\d+)\.json$/, (_request, [id]) =>
+      singleAsset(this.emails.find((email) => email.id === Number(id)))
+    );
+
+    this.route('GET', /^\/asset\/v1\/email\/(\d+)\/content\.json$/, (_request, [id]) => ({
+      result: this.emailContent.get(this.findEmail(id).id) ?? [],
+    }));
+
+    this.route<EmailSectionBody>(
+      'POST',
+      /^\/asset\/v1\/email\/(\d+)\/content\/([^/]+)\.json$/,
+      (request, [id, htmlId]) => {
+        const email = this.findEmail(id);
+        const section = (this.emailContent.get(email.id) ?? []).find(
+          (candidate) => candidate.htmlId === htmlId
+        );
+        if (!section) {
+          throw new SimulatedError('702', `Email ${id} has no section '${htmlId}'`);
+        }
+        if (section.isLocked) {
+          throw new SimulatedError('709', `Section '${htmlId}' is locked`);
+        }
+        section.contentType = request.body.type ?? section.contentType;
+        section.value = required(request.body.value, 'value');
+        if (request.body.textValue !== undefined) {
+          section.textValue = request.body.textValue;
+        }
+        if (email.status === 'approved') {
+          this.drafts.add(`email/${email.id}`);
+        }
+        email.updatedAt = timestamp();
+        return { result: [{ id: email.id }] };
+      }
+    );
+
+    this.route('POST', /^\/asset\/v1\/email\/(\d+)\/sendSample\.json$/, (request, [id]) => {
+      const email = this.findEmail(id);
+      const emailAddress = required(request.body.emailAddress, 'emailAddress');
+      if (!String(emailAddress).includes('@')) {
+        throw new SimulatedError('1003', `Invalid email address '${emailAddress}'`);
+      }
+      if (request.body.leadId !== undefined && !this.findLead(request.body.leadId)) {
+        throw new SimulatedError('1004', `Lead '${request.body.leadId}' not found`);
+      }
+      return { result: [{ id: email.id }] };
+    });
+
+    this.route('POST', /^\/asset\/v1\/email\/(\d+)\/approveDraft\.json$/, (_request, [id]) => {
+      const email = this.findEmail(id);
+      if (email.status === 'approved' && !this.drafts.has(`email/${email.id}`)) {
+        throw new SimulatedError('709', `Email ${id} has no draft to approve`);
+      }
+      email.status = 'approved';
+      email.updatedAt = timestamp();
+      this.drafts.delete(`email/${email.id}`);
+      return { result: [{ id: email.id }] };
+    });
+
+    this.route('POST', /^\/asset\/v1\/email\/(\d+)\/unapprove\.json$/, (_request, [id]) => {
+      const email = this.findEmail(id);
+      if (email.status !== 'approved') {
+        throw new SimulatedError('709', `Email ${id} is not approved`);
+      }
+      email.status = 'draft';
+      email.updatedAt = timestamp();
+      return { result: [{ id: email.id }] };
+    });
+
+    this.route('GET', /^\/asset\/v1\/programs\.json$/, (request) => {
+      const status = request.query.get('status');
+      const filterType = request.query.get('filterType');
+      const values = listParam(request.query, 'filterValues');
+      const filterValue = (program: SimulatedProgram) => {
+        switch (filterType) {
+          case 'id':
+          case 'programId':
+            return program.id;
+          case 'folderId':
+            return program.folder?.value;
+          case 'workspace':
+            return program.workspace;
+          default:
+            throw new SimulatedError('1003', `Invalid filterType '${filterType}'`);
+        }
+      };
+      const programs = this.programs.filter(
+        (program) =>
+          (!status || program.status === status) &&
+          (!filterType || values.some((value) => sameValue(filterValue(program), value))) &&
+          updatedWithin(program, request.query)
+      );
+      return assetPage(programs, request.query);
+    });
+
+    this.route('GET', /^\/asset\/v1\/program\/(\d+)\.json$/, (_request, [id]) =>
+      singleAsset(this.programs.find((program) => program.id === Number(id)))
+    );
+
+    // Tags and costs are only included when asked for
+    this.route('GET', /^\/asset\/v1\/program\/byName\.json$/, (request) => {
+      const name = required(request.query.get('name'), 'name');
+      const program = this.programs.find((candidate) => candidate.name === name);
+      if (!program) {
+        return { warnings: [NO_ASSETS_WARNING] };
+      }
+      const { tags, costs, ...rest } = program;
+      return {
+        result: [
+          {
+            ...rest,
+            ...(request.query.get('includeTags') === 'true' ? { tags } : {}),
+            ...(request.query.get('includeCosts') === 'true' ? { costs } : {}),
+          },
+        ],
+      };
+    });
+
+    this.route('GET', /^\/asset\/v1\/program\/byTag\.json$/, (request) => {
+      const tagType = required(request.query.get('tagType'), 'tagType');
+      const tagValue = required(request.query.get('tagValue'), 'tagValue');
+      const programs = this.programs.filter((program) =>
+        (program.tags ?? []).some((tag) => tag.tagType === tagType && tag.tagValue === tagValue)
+      );
+      return assetPage(programs, request.query);
+    });
+
+    // A cloned program gets a program folder of its own, like any program
+    this.route<AssetBody>('POST', /^\/asset\/v1\/program\/(\d+)\/clone\.json$/, (request, [id]) => {
+      const source = this.programs.find((program) => program.id === Number(id));
+      if (!source) {
+        throw new SimulatedError('702', `Program ${id} not found`);
+      }
+      const name = required(request.body.name, 'name');
+      const parent = this.requireFolder(request.body.folder);
+      if (this.programs.some((program) => sameValue(program.name, name))) {
+        throw new SimulatedError('709', `Program name '${name}' is already in use`);
+      }
+
+      const programId = Math.max(nextId(this.programs), nextId(this.folders));
+      const now = timestamp();
+      const program = {
+        ...structuredClone(source),
+        id: programId,
+        name,
+        description: request.body.description ?? source.description,
+        status: source.type === 'Default' ? 'unlocked' : 'off',
+        url: `https://app-sim.marketo.com/#PG${programId}A1`,
+        folder: this.folderRef(parent),
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.programs.push(program);
+      this.folders.push({
+        id: programId,
+        name,
+        description: program.description,
+        folderId: { id: programId, type: 'Program' },
+        folderType: 'Program',
+        parent: parent.folderId,
+        path: `${parent.path}/${name}`,
+        isArchive: false,
+        isSystem: false,
+        workspace: parent.workspace,
+        createdAt: now,
+        updatedAt: now,
+      });
+      return { result: [program] };
+    });
+  }
+
+  // Smart campaigns
+
+  private findCampaign(id: unknown): SimulatedCampaign {
+    const campaign = this.campaigns.find((candidate) => candidate.id === Number(id));
+    if (!campaign) {
+      throw new SimulatedError('1013', `Campaign ${id} not found`);
+    }
+    return campaign;
+  }
+
+  private registerCampaignRoutes() {
+    this.route('GET', /^\/asset\/v1\/smartCampaigns\.json$/, (request) => {
+      const folder = request.query.get('folder');
+      const isActive = request.query.get('isActive');
+      const campaigns = this.campaigns.filter(
+        (campaign) =>
+          matchesFolder(campaign, folder ? jsonParam(folder, 'folder') : null) &&
+          (isActive === null || String(campaign.isActive) === isActive) &&
+          updatedWithin(campaign, request.query)
+      );
+      return assetPage(campaigns, request.query);
+    });
+
+    this.route('GET', /^\/rest\/v1\/campaigns\/(\d+)\.json$/, (_request, [id]) => {
+      const campaign = this.campaigns.find((candidate) => candidate.id === Number(id));
+      return { result: campaign ? [campaign] : [] };
+    });
+
+    this.route<CampaignBody>(
+      'POST',
+      /^\/rest\/v1\/campaigns\/(\d+)\/trigger\.json$/,
+      (request, [id]) => {
+        const campaign = this.findCampaign(id);
+        if (!campaign.isTriggerable) {
+          throw new SimulatedError('1003', `Campaign ${id} has no 'Campaign is Requested' trigger`);
+        }
+        if (!campaign.isActive) {
+          throw new SimulatedError('1003', `Campaign ${id} is not active`);
+        }
+        const leads = request.body?.input?.leads;
+        if (!Array.isArray(leads) || leads.length === 0 || leads.length > 100) {
+          throw new SimulatedError('1003', 'input.leads must list between 1 and 100 leads');
+        }
+        const missing = leads.find((lead) => !this.findLead(lead?.id));
+        if (missing) {
+          throw new SimulatedError('1004', `Lead '${missing.id}' not found`);
+        }
+        return { result: [{ id: campaign.id }] };
+      }
+    );
+
+    this.route<CampaignBody>(
+      'POST',
+      /^\/rest\/v1\/campaigns\/(\d+)\/schedule\.json$/,
+      (request, [id]) => {
+        const campaign = this.findCampaign(id);
+        if (campaign.type !== 'batch') {
+          throw new SimulatedError('1003', `Campaign ${id} is not a batch campaign`);
+        }
+        const runAt = request.body?.input?.runAt;
+        if (runAt !== undefined && !(Date.parse(runAt) > Date.now())) {
+          throw new SimulatedError('1003', 'runAt must be a future date');
+        }
+        return { result: [{ id: campaign.id }] };
+      }
+    );
+  }
+
+  // Custom objects
+
+  private customObjectType(name: string): SimulatedCustomObjectType {
+    const type = this.fixtures.customObjectTypes.find((candidate) => candidate.name === name);
+    if (!type) {
+      throw new SimulatedError('1003', `Custom object '${name}' not found`);
+    }
+    return type;
+  }
+
+  private customObjectFields(type: SimulatedCustomObjectType, requested: string[]): string[] {
+    if (requested.length === 0) {
+      return [type.idField, ...type.dedupeFields, 'updatedAt', 'createdAt'];
+    }
+    const known = new Set(type.fields.map((field) => field.name));
+    const unknown = requested.find((field) => !known.has(field));
+    if (unknown) {
+      throw new SimulatedError('1006', `Field '${unknown}' not found`);
+    }
+    return requested;
+  }
+
+  // Fields a custom object query can filter on, resolving the dedupeFields and idField aliases
+  private customObjectFilterFields(type: SimulatedCustomObjectType, filterType: string): string[] {
+    if (filterType === 'dedupeFields') {
+      return type.dedupeFields;
+    }
+    if (filterType === 'idField') {
+      return [type.idField];
+    }
+    const searchable = [
+      type.idField,
+      ...type.relationships.map((relationship) => relationship.field),
+      ...type.searchableFields.filter((fields: string[]) => fields.length === 1).flat(),
+      ...(type.dedupeFields.length === 1 ? type.dedupeFields : []),
+    ];
+    if (!searchable.includes(filterType)) {
+      throw new SimulatedError('1003', `Invalid filterType '${filterType}'`);
+    }
+    return [filterType];
+  }
+
+  private registerCustomObjectRoutes() {
+    this.route('GET', /^\/rest\/v1\/customobjects\.json$/, (request) => {
+      const names = listParam(request.query, 'names');
+      return {
+        result: this.fixtures.customObjectTypes
+          .filter((type) => names.length === 0 || names.includes(type.name))
+          .map(({ fields: _fields, ...type }) => type),
+      };
+    });
+
+    this.route(
+      'GET',
+      /^\/rest\/v1\/customobjects\/([^/]+)\/describe\.json$/,
+      (_request, [name]) => {
+        const type = this.customObjectType(name);
+        return {
+          result: [
+            {
+              ...type,
+              fields: type.fields.map((field) => ({
+                ...field,
+                updateable: field.updateable !== false,
+              })),
+            },
+          ],
+        };
+      }
+    );
+
+    // Filter values come in the query, or as key objects in the body of a POST with _method=GET
+    this.route<CustomObjectBody>(
+      'GET',
+      /^\/rest\/v1\/customobjects\/([^/]+)\.json$/,
+      (request, [name]) => {
+        const type = this.customObjectType(name);
+        const records = this.customObjects[type.name] ?? [];
+        const filterType = required(
+          request.body.filterType ?? request.query.get('filterType'),
+          'filterType'
+        );
+        const filterFields = this.customObjectFilterFields(type, filterType);
+        const fields = this.customObjectFields(
+          type,
+          Array.isArray(request.body.fields)
+            ? request.body.fields
+            : listParam(request.query, 'fields')
+        );
+
+        let keys: Record<string, unknown>[];
+        if (Array.isArray(request.body.input)) {
+          keys = request.body.input;
+        } else {
+          if (filterFields.length !== 1) {
+            throw new SimulatedError('1003', 'Compound keys must be sent as input in a POST body');
+          }
+          keys = listParam(request.query, 'filterValues').map((value) => ({
+            [filterFields[0]]: value,
+          }));
+        }
+        if (keys.length === 0 || keys.length > MAX_BATCH_SIZE) {
+          throw new SimulatedError('1003', 'Between 1 and 300 filter values are required');
+        }
+
+        const matches = records.filter((record) =>
+          keys.some((key) => filterFields.every((field) => sameValue(record[field], key[field])))
+        );
+        return tokenPage(
+          matches.map((record, seq) => ({ seq, ...pickFields(record, fields) })),
+          request.query
+        );
+      }
+    );
+
+    this.route<CustomObjectBody>(
+      'POST',
+      /^\/rest\/v1\/customobjects\/([^/]+)\.json$/,
+      (request, [name]) => {
+        const type = this.customObjectType(name);
+        const records = (this.customObjects[type.name] ??= []);
+        const { input, action = 'createOrUpdate', dedupeBy = 'dedupeFields' } = request.body;
+        if (!Array.isArray(input) || input.length === 0 || input.length > MAX_BATCH_SIZE) {
+          throw new SimulatedError('1003', 'input must list between 1 and 300 records');
+        }
+        const keyFields = dedupeBy === 'idField' ? [type.idField] : type.dedupeFields;
+        const issues = validateRecords(input, buildFieldCatalog({ result: [type] }), keyFields, '');
+
+        const result = input.map((record: Record<string, unknown>, seq: number) => {
+          const recordIssues = issues.filter((issue) => issue.record === seq);
+          if (recordIssues.length > 0) {
+            return { seq, status: 'skipped', reasons: recordIssues.map(describeIssue) };
+          }
+          const missing = keyFields.find((field: string) => isBlank(record[field]));
+          if (missing) {
+            return skipped('1003', `Value for required field '${missing}' not specified`, { seq });
+          }
+
+          const existing = records.find((candidate) =>
+            keyFields.every((field: string) => sameValue(candidate[field], record[field]))
+          );
+          const now = timestamp();
+          if (existing) {
+            if (action === 'createOnly') {
+              return skipped('1005', 'Object already exists', {
+                seq,
+                marketoGUID: existing.marketoGUID,
+              });
+            }
+            Object.assign(existing, record, { updatedAt: now });
+            return { seq, marketoGUID: existing.marketoGUID, status: 'updated' };
+          }
+          if (action === 'updateOnly' || dedupeBy === 'idField') {
+            return skipped('1013', 'Object not found', { seq });
+          }
+          const created = {
+            ...record,
+            marketoGUID: crypto.randomUUID(),
+            createdAt: now,
+            updatedAt: now,
+          };
+          records.push(created);
+          return { seq, marketoGUID: created.marketoGUID, status: 'created' };
+        });
+        return { result };
+      }
+    );
+
+    this.route<CustomObjectBody>(
+      'POST',
+      /^\/rest\/v1\/customobjects\/([^/]+)\/delete\.json$/,
+      (request, [name]) => {
+        const type = this.customObjectType(name);
+        const records = this.customObjects[type.name] ?? [];
+        const { input, deleteBy = 'dedupeFields' } = request.body;
+        if (!Array.isArray(input) || input.length === 0 || input.length > MAX_BATCH_SIZE) {
+          throw new SimulatedError('1003', 'input must list between 1 and 300 records');
+        }
+        const keyFields = deleteBy === 'idField' ? [type.idField] : type.dedupeFields;
+
+        const result = input.map((key: Record<string, unknown>, seq: number) => {
+          const record = records.find((candidate) =>
+            keyFields.every((field: string) => sameValue(candidate[field], key[field]))
+          );
+          if (!record) {
+            return skipped('1013', 'Object not found', { seq });
+          }
+          records.splice(records.indexOf(record), 1);
+          return { seq, marketoGUID: record.marketoGUID, status: 'deleted' };
+        });
+        return { result };
+      }
+    );
+  }
+
+  // Bulk export and import
+
+  private findExportJob(type: string, exportId: string): ExportJob {
+    const job = this.exportJobs.find(
+      (candidate) => candidate.type === type && candidate.exportId === exportId
+    );
+    if (!job) {
+      throw new SimulatedError('1003', `Export job ${exportId} not found`);
+    }
+    return job;
+  }
+
+  // Moves an enqueued job along by the time passed, building its file once it completes
+  private exportJobView(job: ExportJob): Omit<ExportJob, 'type' | 'request' | 'file' | 'finishAt'> {
+    const now = Date.now();
+    const { finishAt } = job;
+    if (
+      (job.status === 'Queued' || job.status === 'Processing') &&
+      finishAt !== undefined &&
+      now >= finishAt
+    ) {
+      job.file = this.buildExportFile(job);
+      Object.assign(job, {
+        status: 'Completed',
+        startedAt: job.startedAt ?? timestamp(finishAt),
+        finishedAt: timestamp(finishAt),
+        numberOfRecords: parseCsv(job.file).length - 1,
+        fileSize: Buffer.byteLength(job.file),
+      });
+    } else if (job.status === 'Queued') {
+      Object.assign(job, { status: 'Processing', startedAt: timestamp(now) });
+    }
+    return omitFields(job, ['type', 'request', 'file', 'finishAt']);
+  }
+
+  private buildExportFile(job: ExportJob): string {
+    const { fields, filter = {}, columnHeaderNames = {} } = job.request;
+    if (job.type === 'leads') {
+      const created = exportRange(filter, 'createdAt');
+      const updated = exportRange(filter, 'updatedAt');
+      const members = filter.staticListId && this.listMembers.get(Number(filter.staticListId));
+      const leads = this.leads.filter(
+        (lead) =>
+          inRange(lead.createdAt, created) &&
+          inRange(lead.updatedAt, updated) &&
+          (!members || members.has(lead.id))
+      );
+      const columns = fields ?? [];
+      return toCsv([
+        columns.map((field) => columnHeaderNames[field] ?? field),
+        ...leads.map((lead) => columns.map((field) => lead[field])),
+      ]);
+    }
+
+    const columns: string[] = fields ?? ACTIVITY_EXPORT_FIELDS;
+    const created = exportRange(filter, 'createdAt');
+    const typeIds: number[] = filter.activityTypeIds ?? [];
+    const activities = this.activities.filter(
+      (activity) =>
+        inRange(activity.activityDate, created) &&
+        (typeIds.length === 0 || typeIds.includes(activity.activityTypeId))
+    );
+    return toCsv([
+      columns.map((field) => columnHeaderNames[field] ?? field),
+      ...activities.map((activity) => {
+        const values = pickFields(activity, columns);
+        return columns.map((field) =>
+          field === 'attributes'
+            ? Object.fromEntries((activity.attributes ?? []).map((item) => [item.name, item.value]))
+            : values[field]
+        );
+      }),
+    ]);
+  }
+
+  private findImportBatch(id: unknown): ImportBatch {
+    const batch = this.importBatches.find((candidate) => candidate.batchId === Number(id));
+    if (!batch) {
+      throw new SimulatedError('1003', `Import batch ${id} not found`);
+    }
+    return batch;
+  }
+
+  /**
+   * Imports leads from an uploaded CSV file straight away, recording the rows that failed and
+   * the values dropped from unknown columns for the failures and warnings files
+   */
+  private async importLeads(body: ImportBody): Promise<SimulatedEnvelope> {
+    if (body.format !== 'csv' || !(body.file instanceof Blob)) {
+      throw new SimulatedError('1003', 'A CSV file is required');
+    }
+    const list = body.listId !== undefined ? this.requireList(body.listId) : undefined;
+    const lookupField = body.lookupField ?? 'email';
+    const [header, ...rows] = parseCsv(await body.file.text());
+    if (!header || rows.length === 0) {
+      throw new SimulatedError('1003', 'Import file has no data rows');
+    }
+    const known = new Set(this.fixtures.leadFields.map((field) => field.name));
+    if (!header.some((column) => known.has(column))) {
+      throw new SimulatedError('1003', 'Import file has no known lead field columns');
+    }
+
+    const failures: unknown[][] = [];
+    const warnings: unknown[][] = [];
+    let processed = 0;
+    for (const row of rows) {
+      const record = Object.fromEntries(
+        header
+          .map((column, index) => [column, row[index]])
+          .filter(([column, value]) => known.has(column) && !isBlank(value))
+      );
+      const result = this.upsertLead(
+        record,
+        lookupField,
+        'createOrUpdate',
+        validateRecords([record], this.leadFieldCatalog(), [lookupField], '')
+      );
+      if (result.status === 'skipped') {
+        failures.push([...row, (result.reasons ?? []).map((reason) => reason.message).join('; ')]);
+        continue;
+      }
+      processed++;
+      if (list && result.id !== undefined) {
+        this.listMembers.get(list.id)!.add(result.id);
+      }
+      const dropped = header.filter((column, index) => !known.has(column) && !isBlank(row[index]));
+      if (dropped.length > 0) {
+        warnings.push([...row, `Unknown fields ignored: ${dropped.join(', ')}`]);
+      }
+    }
+
+    const batchId = nextId(this.importBatches, 'batchId');
+    this.importBatches.push({
+      batchId,
+      importId: String(batchId),
+      status: 'Queued',
+      numOfLeadsProcessed: processed,
+      numOfRowsFailed: failures.length,
+      numOfRowsWithWarning: warnings.length,
+      message: `Import completed with ${failures.length} failed and ${warnings.length} warning rows`,
+      failures: toCsv([[...header, 'Import Failure Reason'], ...failures]),
+      warnings: toCsv([[...header, 'Import Warning Reason'], ...warnings]),
+    });
+    return { result: [{ batchId, importId: String(batchId), status: 'Queued' }] };
+  }
+
+  private registerBulkRoutes() {
+    this.route<ExportRequest>(
+      'POST',
+      /^\/bulk\/v1\/(leads|activities)\/export\/create\.json$/,
+      (request, [type]) => {
+        const { fields, filter, format = 'CSV' } = request.body;
+        if (format !== 'CSV') {
+          throw new SimulatedError('1003', `Unsupported format '${format}'`);
+        }
+        if (type === 'leads' && (!Array.isArray(fields) || fields.length === 0)) {
+          throw new SimulatedError('1003', 'fields cannot be blank');
+        }
+        if (!filter || Object.values(filter).every((value) => value === undefined)) {
+          throw new SimulatedError('1003', 'filter cannot be blank');
+        }
+        if (type === 'activities' && !filter.createdAt) {
+          throw new SimulatedError('1003', 'createdAt filter is required');
+        }
+        exportRange(filter, 'createdAt');
+        exportRange(filter, 'updatedAt');
+
+        const job = {
+          type,
+          request: request.body,
+          exportId: crypto.randomUUID(),
+          format,
+          status: 'Created',
+          createdAt: timestamp(),
+        };
+        this.exportJobs.push(job);
+        return { result: [this.exportJobView(job)] };
+      }
+    );
+
+    this.route(
+      'POST',
+      /^\/bulk\/v1\/(leads|activities)\/export\/([^/]+)\/enqueue\.json$/,
+      (_request, [type, exportId]) => {
+        const job = this.findExportJob(type, exportId);
+        if (job.status !== 'Created') {
+          throw new SimulatedError('1029', `Export job ${exportId} is already ${job.status}`);
+        }
+        const queued = this.exportJobs.filter((candidate) => candidate.status === 'Queued');
+        if (queued.length >= MAX_QUEUED_EXPORTS) {
+          throw new SimulatedError('1029', `Too many jobs (${MAX_QUEUED_EXPORTS}) in queue`);
+        }
+        Object.assign(job, {
+          status: 'Queued',
+          queuedAt: timestamp(),
+          finishAt: Date.now() + this.fixtures.limits.bulkJobSeconds * 1000,
+        });
+        return { result: [{ ...this.exportJobView(job), status: 'Queued' }] };
+      }
+    );
+
+    this.route(
+      'GET',
+      /^\/bulk\/v1\/(leads|activities)\/export\/([^/]+)\/status\.json$/,
+      (_request, [type, exportId]) => ({
+        result: [this.exportJobView(this.findExportJob(type, exportId))],
+      })
+    );
+
+    this.route(
+      'POST',
+      /^\/bulk\/v1\/(leads|activities)\/export\/([^/]+)\/cancel\.json$/,
+      (_request, [type, exportId]) => {
+        const job = this.findExportJob(type, exportId);
+        const view = this.exportJobView(job);
+        if (!['Created', 'Queued', 'Processing'].includes(view.status)) {
+          throw new SimulatedError('1029', `Export job ${exportId} is already ${view.status}`);
+        }
+        job.status = 'Cancelled';
+        return { result: [this.exportJobView(job)] };
+      }
+    );
+
+    this.route(
+      'GET',
+      /^\/bulk\/v1\/(leads|activities)\/export\/([^/]+)\/file\.json$/,
+      (_request, [type, exportId]) => {
+        const job = this.findExportJob(type, exportId);
+        if (this.exportJobView(job).status !== 'Completed') {
+          throw new SimulatedError('1003', `Export job ${exportId} has not completed`);
+        }
+        return job.file ?? '';
+      }
+    );
+
+    this.route('GET', /^\/bulk\/v1\/(leads|activities)\/export\.json$/, (request, [type]) => {
+      const statuses = listParam(request.query, 'status');
+      const jobs = this.exportJobs
+        .filter((job) => job.type === type)
+        .map((job) => this.exportJobView(job))
+        .filter((job) => statuses.length === 0 || statuses.includes(job.status));
+      return tokenPage(jobs, request.query);
+    });
+
+    this.route<ImportBody>('POST', /^\/bulk\/v1\/leads\.json$/, (request) =>
+      this.importLeads(request.body)
+    );
+
+    // Imports run when uploaded, so a batch reports complete from its first status check
+    this.route('GET', /^\/bulk\/v1\/leads\/batch\/(\d+)\.json$/, (_request, [id]) => {
+      const batch = this.findImportBatch(id);
+      batch.status = 'Complete';
+      return { result: [omitFields(batch, ['failures', 'warnings'])] };
+    });
+
+    this.route(
+      'GET',
+      /^\/bulk\/v1\/leads\/batch\/(\d+)\/(failures|warnings)\.json$/,
+      (_request, [id, report]) => this.findImportBatch(id)[report as 'failures' | 'warnings']
+    );
+  }
+}
+
+/**
+ * Creates an axios adapter that answers requests from simulated instances, one per host, each
+ * seeded with its own copy of the fixtures
+ */
+function createSimulatorAdapter(fixtures: SimulatorFixtures): AxiosAdapter {
+  const instances = new Map<string, MarketoSimulator>();
+
+  return async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const url = new URL(axios.getUri(config));
+    let simulator = instances.get(url.host);
+    if (!simulator) {
+      simulator = new MarketoSimulator(structuredClone(fixtures));
+      instances.set(url.host, simulator);
+    }
+
+    const headers = AxiosHeaders.from(config.headers);
+    const reply = await simulator.handle(
+      (config.method ?? 'get').toUpperCase(),
+      url,
+      String(headers.get('Authorization') ?? ''),
+      String(headers.getContentType() ?? ''),
+      config.data
+    );
+
+    const response: AxiosResponse = {
+      data: config.responseType === 'stream' ? Readable.from([reply.body]) : reply.body,
+      status: reply.status,
+      statusText: reply.status === 200 ? 'OK' : 'Error',
+      headers: new AxiosHeaders({ 'content-type': reply.contentType }),
+      config,
+      request: {},
+    };
+    if (config.validateStatus && !config.validateStatus(reply.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${reply.status}`,
+        reply.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        response.request,
+        response
+      );
+    }
+    return response;
+  };
+}
+
+// Adapter the request layer and token manager pass to axios; undefined sends requests to Marketo
+const simulatorAdapter: AxiosAdapter | undefined = MARKETO_SIMULATOR
+  ? createSimulatorAdapter(loadSimulatorFixtures(MARKETO_SIMULATOR_FIXTURES))
+  : undefined;
+
+if (simulatorAdapter) {
+  console.error(
+    `Simulator mode: requests are answered by a fake Marketo seeded from ${MARKETO_SIMULATOR_FIXTURES || 'the built-in fixtures'}`
+  );
+}
+
+export { MarketoSimulator, SimulatedError, createSimulatorAdapter, simulatorAdapter };
@@ -0,0 +1,957 @@
+import fs from 'fs';
+
+// Limits the simulator enforces the way Marketo does, so throttling and expiry can be exercised
+interface SimulatorLimits {
+  tokenTtlSeconds: number;
+  // Calls allowed per window before error 606
+  rateLimit: number;
+  rateWindowSeconds: number;
+  // Calls allowed per day before error 607
+  dailyQuota: number;
+  // How long a bulk export job takes to complete once enqueued
+  bulkJobSeconds: number;
+}
+
+// An error returned for matching requests, for testing how tools handle failures
+interface SimulatorFault {
+  // Matched against the endpoint, such as "/rest/v1/leads.json", as a regular expression
+  path: string;
+  method?: string;
+  // Marketo error code, returned with HTTP 200 and success: false
+  code?: string;
+  message?: string;
+  // HTTP status returned instead of an error envelope, such as 503
+  httpStatus?: number;
+  // Requests the fault applies to before it stops; every matching request when unset
+  times?: number;
+}
+
+// Where an asset sits, as asset endpoints return it
+interface SimulatedFolderRef {
+  type: string;
+  value: number;
+  folderName: string;
+}
+
+// A field of the lead or a custom object schema
+interface SimulatedField {
+  name: string;
+  displayName: string;
+  dataType: string;
+  length?: number;
+  updateable?: boolean;
+}
+
+// Leads have whichever fields the lead schema defines
+interface SimulatedLead {
+  id: number;
+  createdAt: string;
+  updatedAt: string;
+  [field: string]: unknown;
+}
+
+interface SimulatedActivityType {
+  id: number;
+  name: string;
+  description: string;
+  primaryAttribute: { name: string; dataType: string };
+  attributes: { name: string; dataType: string }[];
+}
+
+interface SimulatedActivity {
+  id: number;
+  marketoGUID?: string;
+  leadId: number;
+  activityDate: string;
+  activityTypeId: number;
+  campaignId?: number;
+  primaryAttributeValueId: number | string | null;
+  primaryAttributeValue: string;
+  attributes: { name: string; value: unknown }[];
+}
+
+interface SimulatedList {
+  id: number;
+  name: string;
+  description: string | null;
+  programName: string | null;
+  workspaceName: string;
+  folder: SimulatedFolderRef;
+  computedUrl: string;
+  createdAt: string;
+  updatedAt: string;
+  // Lead IDs in the list
+  leadIds?: number[];
+}
+
+interface SimulatedFolder {
+  id: number;
+  name: string;
+  description: string | null;
+  folderId: { id: number; type: string };
+  folderType: string;
+  parent: { id: number; type: string } | null;
+  // Names from the root down, such as "/Marketing Activities/Events"
+  path: string;
+  isArchive: boolean;
+  isSystem: boolean;
+  workspace: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A field, rich text or fieldset on a form, with whatever settings it was given
+interface SimulatedFormItem {
+  id: string;
+  dataType: string;
+  rowNumber: number;
+  columnNumber: number;
+  // Fields inside a fieldset
+  fields?: SimulatedFormItem[];
+  [setting: string]: unknown;
+}
+
+interface SimulatedForm {
+  id: number;
+  name: string;
+  description: string | null;
+  status: string;
+  url: string;
+  folder: SimulatedFolderRef;
+  language: string;
+  locale: string;
+  progressiveProfiling: boolean;
+  labelPosition: string;
+  fontFamily: string;
+  fontSize: string;
+  knownVisitor?: { type: string; template: string | null };
+  theme: string;
+  buttonLocation: number;
+  buttonStyle: string;
+  buttonLabel: string;
+  waitingLabel: string;
+  thankYouList: unknown[];
+  createdAt: string;
+  updatedAt: string;
+  fields?: SimulatedFormItem[];
+}
+
+interface SimulatedSmartList {
+  id: number;
+  name: string;
+  description: string;
+  url: string;
+  folder: SimulatedFolderRef;
+  workspace: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface SimulatedChannel {
+  id: number;
+  name: string;
+  description?: string | null;
+  applicableProgramType: string;
+  progressionStatuses: { name: string; step: number; success: boolean; hidden: boolean }[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface SimulatedEmailSection {
+  htmlId: string;
+  contentType: string;
+  value: string;
+  textValue?: string;
+  isLocked: boolean;
+}
+
+interface SimulatedEmail {
+  id: number;
+  name: string;
+  description: string;
+  subject: { type: string; value: string };
+  fromName: { type: string; value: string };
+  fromEmail: { type: string; value: string };
+  status: string;
+  url: string;
+  folder: SimulatedFolderRef;
+  workspace: string;
+  createdAt: string;
+  updatedAt: string;
+  // Editable sections of the email
+  content?: SimulatedEmailSection[];
+}
+
+interface SimulatedProgram {
+  id: number;
+  name: string;
+  description: string;
+  type: string;
+  channel: string;
+  status: string;
+  url: string;
+  folder: SimulatedFolderRef;
+  workspace: string;
+  tags?: { tagType: string; tagValue: string }[];
+  costs?: { startDate: string; cost: number; note?: string }[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface SimulatedCampaign {
+  id: number;
+  name: string;
+  description: string;
+  type: string;
+  isTriggerable: boolean;
+  isActive: boolean;
+  programId: number;
+  programName: string;
+  workspaceName: string;
+  folder: SimulatedFolderRef;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface SimulatedCustomObjectType {
+  name: string;
+  displayName: string;
+  description: string;
+  idField: string;
+  dedupeFields: string[];
+  searchableFields: string[][];
+  relationships: { field: string; type: string; relatedTo: { name: string; field: string } }[];
+  createdAt: string;
+  updatedAt: string;
+  fields: SimulatedField[];
+}
+
+// Custom object records have whichever fields their type defines
+type SimulatedCustomObject = Record<string, unknown>;
+
+/**
+ * Seed data for the simulated instance. Records have the fields Marketo returns, plus the
+ * memberships and sub-records the simulator keeps beside them: leadIds on lists, fields on forms
+ * and content on emails.
+ */
+interface SimulatorFixtures {
+  // Client ID and secret the identity endpoint accepts; any credentials are accepted when unset
+  credentials?: { clientId: string; clientSecret: string };
+  limits: SimulatorLimits;
+  faults: SimulatorFault[];
+  leadFields: SimulatedField[];
+  leads: SimulatedLead[];
+  activityTypes: SimulatedActivityType[];
+  activities: SimulatedActivity[];
+  lists: SimulatedList[];
+  folders: SimulatedFolder[];
+  forms: SimulatedForm[];
+  smartLists: SimulatedSmartList[];
+  channels: SimulatedChannel[];
+  emails: SimulatedEmail[];
+  programs: SimulatedProgram[];
+  campaigns: SimulatedCampaign[];
+  customObjectTypes: SimulatedCustomObjectType[];
+  // Records of each custom object type, keyed by API name
+  customObjects: Record<string, SimulatedCustomObject[]>;
+}
+
+const folderRef = (id: number, folderName: string, type: string = 'Folder') => ({
+  type,
+  value: id,
+  folderName,
+});
+
+const DEFAULT_SIMULATOR_FIXTURES: SimulatorFixtures = {
+  limits: {
+    tokenTtlSeconds: 3600,
+    rateLimit: 100,
+    rateWindowSeconds: 20,
+    dailyQuota: 50000,
+    bulkJobSeconds: 0,
+  },
+  faults: [],
+  leadFields: [
+    { name: 'id', displayName: 'Id', dataType: 'integer', updateable: false },
+    { name: 'email', displayName: 'Email Address', dataType: 'email', length: 255 },
+    { name: 'firstName', displayName: 'First Name', dataType: 'string', length: 255 },
+    { name: 'lastName', displayName: 'Last Name', dataType: 'string', length: 255 },
+    { name: 'company', displayName: 'Company Name', dataType: 'string', length: 255 },
+    { name: 'title', displayName: 'Job Title', dataType: 'string', length: 255 },
+    { name: 'phone', displayName: 'Phone Number', dataType: 'phone', length: 255 },
+    { name: 'city', displayName: 'City', dataType: 'string', length: 255 },
+    { name: 'state', displayName: 'State', dataType: 'string', length: 255 },
+    { name: 'country', displayName: 'Country', dataType: 'string', length: 255 },
+    { name: 'website', displayName: 'Website', dataType: 'url', length: 255 },
+    { name: 'leadScore', displayName: 'Lead Score', dataType: 'integer' },
+    { name: 'unsubscribed', displayName: 'Unsubscribed', dataType: 'boolean' },
+    { name: 'createdAt', displayName: 'Created At', dataType: 'datetime', updateable: false },
+    { name: 'updatedAt', displayName: 'Updated At', dataType: 'datetime', updateable: false },
+  ],
+  leads: [
+    {
+      id: 1001,
+      email: 'ada.lovelace@example.com',
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      company: 'Analytical Engines',
+      title: 'Head of Research',
+      city: 'London',
+      country: 'United Kingdom',
+      leadScore: 80,
+      createdAt: '2026-01-05T09:00:00Z',
+      updatedAt: '2026-03-02T10:15:00Z',
+    },
+    {
+      id: 1002,
+      email: 'ADA.LOVELACE@example.com',
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      company: 'Analytical Engines Ltd',
+      title: 'Researcher',
+      leadScore: 20,
+      createdAt: '2026-02-11T14:30:00Z',
+      updatedAt: '2026-02-11T14:30:00Z',
+    },
+    {
+      id: 1003,
+      email: 'grace.hopper@example.org',
+      firstName: 'Grace',
+      lastName: 'Hopper',
+      company: 'Compiler Co',
+      title: 'CTO',
+      phone: '+1 555 0100',
+      country: 'United States',
+      leadScore: 65,
+      createdAt: '2026-01-20T16:00:00Z',
+      updatedAt: '2026-04-01T08:00:00Z',
+    },
+    {
+      id: 1004,
+      email: 'g.hopper@compiler.example',
+      firstName: 'Grace',
+      lastName: 'Hopper',
+      company: 'Compiler Co.',
+      createdAt: '2026-03-15T11:45:00Z',
+      updatedAt: '2026-03-15T11:45:00Z',
+    },
+    {
+      id: 1005,
+      email: 'alan.turing@example.net',
+      firstName: 'Alan',
+      lastName: 'Turing',
+      company: 'Bletchley Labs',
+      title: 'Mathematician',
+      leadScore: 45,
+      createdAt: '2026-02-01T12:00:00Z',
+      updatedAt: '2026-02-20T17:30:00Z',
+    },
+    {
+      id: 1006,
+      email: 'katherine.johnson@example.com',
+      firstName: 'Katherine',
+      lastName: 'Johnson',
+      company: 'Orbital Research',
+      title: 'Analyst',
+      unsubscribed: true,
+      createdAt: '2026-02-14T09:20:00Z',
+      updatedAt: '2026-02-14T09:20:00Z',
+    },
+  ],
+  activityTypes: [
+    {
+      id: 1,
+      name: 'Visit Webpage',
+      description: 'User visits a web page',
+      primaryAttribute: { name: 'Webpage ID', dataType: 'integer' },
+      attributes: [{ name: 'Webpage URL', dataType: 'string' }],
+    },
+    {
+      id: 2,
+      name: 'Fill Out Form',
+      description: 'User fills out and submits a form',
+      primaryAttribute: { name: 'Webform ID', dataType: 'integer' },
+      attributes: [{ name: 'Form Fields', dataType: 'text' }],
+    },
+    {
+      id: 6,
+      name: 'Send Email',
+      description: 'Send a Marketo email to a person',
+      primaryAttribute: { name: 'Mailing ID', dataType: 'integer' },
+      attributes: [{ name: 'Campaign Run ID', dataType: 'integer' }],
+    },
+    {
+      id: 10,
+      name: 'Open Email',
+      description: 'User opens a Marketo email',
+      primaryAttribute: { name: 'Mailing ID', dataType: 'integer' },
+      attributes: [{ name: 'Device', dataType: 'string' }],
+    },
+    {
+      id: 11,
+      name: 'Click Email',
+      description: 'User clicks a link in a Marketo email',
+      primaryAttribute: { name: 'Mailing ID', dataType: 'integer' },
+      attributes: [{ name: 'Link', dataType: 'string' }],
+    },
+    {
+      id: 12,
+      name: 'New Lead',
+      description: 'New person',
+      primaryAttribute: { name: 'Lead ID', dataType: 'integer' },
+      attributes: [{ name: 'Source Type', dataType: 'string' }],
+    },
+    {
+      id: 13,
+      name: 'Change Data Value',
+      description: 'Changed attribute value for a person',
+      primaryAttribute: { name: 'Attribute Name', dataType: 'integer' },
+      attributes: [
+        { name: 'New Value', dataType: 'string' },
+        { name: 'Old Value', dataType: 'string' },
+        { name: 'Reason', dataType: 'string' },
+      ],
+    },
+    {
+      id: 24,
+      name: 'Add to List',
+      description: 'Person added to a list',
+      primaryAttribute: { name: 'List ID', dataType: 'integer' },
+      attributes: [{ name: 'Source', dataType: 'string' }],
+    },
+  ],
+  activities: [
+    {
+      id: 500001,
+      leadId: 1001,
+      activityDate: '2026-03-01T09:00:00Z',
+      activityTypeId: 6,
+      primaryAttributeValueId: 2001,
+      primaryAttributeValue: 'Spring Newsletter',
+      attributes: [{ name: 'Campaign Run ID', value: 7 }],
+    },
+    {
+      id: 500002,
+      leadId: 1001,
+      activityDate: '2026-03-01T10:30:00Z',
+      activityTypeId: 10,
+      primaryAttributeValueId: 2001,
+      primaryAttributeValue: 'Spring Newsletter',
+      attributes: [{ name: 'Device', value: 'Mobile' }],
+    },
+    {
+      id: 500003,
+      leadId: 1001,
+      activityDate: '2026-03-01T10:31:00Z',
+      activityTypeId: 11,
+      primaryAttributeValueId: 2001,
+      primaryAttributeValue: 'Spring Newsletter',
+      attributes: [{ name: 'Link', value: 'https://www.example.com/webinar' }],
+    },
+    {
+      id: 500004,
+      leadId: 1001,
+      activityDate: '2026-03-02T10:15:00Z',
+      activityTypeId: 2,
+      primaryAttributeValueId: 3001,
+      primaryAttributeValue: 'Webinar Registration',
+      attributes: [{ name: 'Form Fields', value: 'Email, FirstName, LastName' }],
+    },
+    {
+      id: 500005,
+      leadId: 1003,
+      activityDate: '2026-04-01T08:00:00Z',
+      activityTypeId: 13,
+      primaryAttributeValueId: 48,
+      primaryAttributeValue: 'title',
+      attributes: [
+        { name: 'New Value', value: 'CTO' },
+        { name: 'Old Value', value: 'VP Engineering' },
+        { name: 'Reason', value: 'Web service API' },
+      ],
+    },
+    {
+      id: 500006,
+      leadId: 1005,
+      activityDate: '2026-02-20T17:30:00Z',
+      activityTypeId: 1,
+      primaryAttributeValueId: 9,
+      primaryAttributeValue: 'www.example.com/pricing',
+      attributes: [{ name: 'Webpage URL', value: '/pricing' }],
+    },
+  ],
+  lists: [
+    {
+      id: 4001,
+      name: 'Webinar Invitees',
+      description: 'Everyone invited to the spring webinar',
+      programName: 'Spring Webinar 2026',
+      workspaceName: 'Default',
+      folder: folderRef(1101, 'Spring Webinar 2026', 'Program'),
+      computedUrl: 'https://app-sim.marketo.com/#ST4001A1',
+      createdAt: '2026-02-01T08:00:00Z',
+      updatedAt: '2026-03-01T08:00:00Z',
+      leadIds: [1001, 1003, 1005],
+    },
+    {
+      id: 4002,
+      name: 'Newsletter Subscribers',
+      description: 'Monthly newsletter audience',
+      programName: 'Newsletters',
+      workspaceName: 'Default',
+      folder: folderRef(1102, 'Newsletters', 'Program'),
+      computedUrl: 'https://app-sim.marketo.com/#ST4002A1',
+      createdAt: '2026-01-10T08:00:00Z',
+      updatedAt: '2026-01-10T08:00:00Z',
+      leadIds: [1001, 1002, 1006],
+    },
+  ],
+  folders: [
+    {
+      id: 11,
+      name: 'Marketing Activities',
+      description: 'Programs and campaigns',
+      folderId: { id: 11, type: 'Folder' },
+      folderType: 'Marketing Folder',
+      parent: null,
+      path: '/Marketing Activities',
+      isArchive: false,
+      isSystem: true,
+      workspace: 'Default',
+      createdAt: '2025-06-01T00:00:00Z',
+      updatedAt: '2025-06-01T00:00:00Z',
+    },
+    {
+      id: 12,
+      name: 'Events',
+      description: 'Event programs',
+      folderId: { id: 12, type: 'Folder' },
+      folderType: 'Marketing Folder',
+      parent: { id: 11, type: 'Folder' },
+      path: '/Marketing Activities/Events',
+      isArchive: false,
+      isSystem: false,
+      workspace: 'Default',
+      createdAt: '2025-06-01T00:00:00Z',
+      updatedAt: '2025-06-01T00:00:00Z',
+    },
+    {
+      id: 1101,
+      name: 'Spring Webinar 2026',
+      description: 'Product webinar',
+      folderId: { id: 1101, type: 'Program' },
+      folderType: 'Program',
+      parent: { id: 12, type: 'Folder' },
+      path: '/Marketing Activities/Events/Spring Webinar 2026',
+      isArchive: false,
+      isSystem: false,
+      workspace: 'Default',
+      createdAt: '2026-02-01T08:00:00Z',
+      updatedAt: '2026-02-01T08:00:00Z',
+    },
+    {
+      id: 1102,
+      name: 'Newsletters',
+      description: 'Monthly newsletters',
+      folderId: { id: 1102, type: 'Program' },
+      folderType: 'Program',
+      parent: { id: 11, type: 'Folder' },
+      path: '/Marketing Activities/Newsletters',
+      isArchive: false,
+      isSystem: false,
+      workspace: 'Default',
+      createdAt: '2026-01-10T08:00:00Z',
+      updatedAt: '2026-01-10T08:00:00Z',
+    },
+    {
+      id: 21,
+      name: 'Design Studio',
+      description: 'Global assets',
+      folderId: { id: 21, type: 'Folder' },
+      folderType: 'Design Studio Folder',
+      parent: null,
+      path: '/Design Studio',
+      isArchive: false,
+      isSystem: true,
+      workspace: 'Default',
+      createdAt: '2025-06-01T00:00:00Z',
+      updatedAt: '2025-06-01T00:00:00Z',
+    },
+    {
+      id: 22,
+      name: 'Forms',
+      description: 'Shared forms',
+      folderId: { id: 22, type: 'Folder' },
+      folderType: 'Design Studio Folder',
+      parent: { id: 21, type: 'Folder' },
+      path: '/Design Studio/Forms',
+      isArchive: false,
+      isSystem: false,
+      workspace: 'Default',
+      createdAt: '2025-06-01T00:00:00Z',
+      updatedAt: '2025-06-01T00:00:00Z',
+    },
+  ],
+  forms: [
+    {
+      id: 3001,
+      name: 'Webinar Registration',
+      description: 'Registration form for webinars',
+      status: 'approved',
+      url: 'https://app-sim.marketo.com/#FO3001A1',
+      folder: folderRef(1101, 'Spring Webinar 2026', 'Program'),
+      language: 'English',
+      locale: 'en_US',
+      progressiveProfiling: false,
+      labelPosition: 'above',
+      fontFamily: 'Helvetica',
+      fontSize: '13px',
+      knownVisitor: { type: 'form', template: null },
+      theme: 'simple',
+      buttonLocation: 120,
+      buttonStyle: 'simple',
+      buttonLabel: 'Register',
+      waitingLabel: 'Please wait...',
+      thankYouList: [{ default: true, followupType: 'none', followupValue: null }],
+      createdAt: '2026-02-01T08:30:00Z',
+      updatedAt: '2026-02-03T12:00:00Z',
+      fields: [
+        {
+          id: 'Email',
+          label: 'Email Address:',
+          dataType: 'email',
+          required: true,
+          rowNumber: 0,
+          columnNumber: 0,
+          validationMessage: 'Must be valid email.',
+        },
+        {
+          id: 'FirstName',
+          label: 'First Name:',
+          dataType: 'string',
+          required: false,
+          rowNumber: 1,
+          columnNumber: 0,
+        },
+        {
+          id: 'LastName',
+          label: 'Last Name:',
+          dataType: 'string',
+          required: false,
+          rowNumber: 2,
+          columnNumber: 0,
+        },
+      ],
+    },
+    {
+      id: 3002,
+      name: 'Contact Us',
+      description: 'Website contact form',
+      status: 'draft',
+      url: 'https://app-sim.marketo.com/#FO3002A1',
+      folder: folderRef(22, 'Forms'),
+      language: 'English',
+      locale: 'en_US',
+      progressiveProfiling: false,
+      labelPosition: 'left',
+      fontFamily: 'Helvetica',
+      fontSize: '13px',
+      theme: 'simple',
+      buttonLocation: 120,
+      buttonStyle: 'simple',
+      buttonLabel: 'Submit',
+      waitingLabel: 'Please wait...',
+      thankYouList: [],
+      createdAt: '2026-01-12T10:00:00Z',
+      updatedAt: '2026-01-12T10:00:00Z',
+      fields: [
+        {
+          id: 'Email',
+          label: 'Email Address:',
+          dataType: 'email',
+          required: true,
+          rowNumber: 0,
+          columnNumber: 0,
+        },
+      ],
+    },
+  ],
+  smartLists: [
+    {
+      id: 5001,
+      name: 'Engaged Researchers',
+      description: 'Opened an email in the last 30 days',
+      url: 'https://app-sim.marketo.com/#SL5001A1',
+      folder: folderRef(12, 'Events'),
+      workspace: 'Default',
+      createdAt: '2026-02-05T08:00:00Z',
+      updatedAt: '2026-03-05T08:00:00Z',
+    },
+    {
+      id: 5002,
+      name: 'Unsubscribed',
+      description: 'People who unsubscribed',
+      url: 'https://app-sim.marketo.com/#SL5002A1',
+      folder: folderRef(11, 'Marketing Activities'),
+      workspace: 'Default',
+      createdAt: '2026-01-02T08:00:00Z',
+      updatedAt: '2026-01-02T08:00:00Z',
+    },
+  ],
+  channels: [
+    {
+      id: 1,
+      name: 'Webinar',
+      applicableProgramType: 'event',
+      progressionStatuses: [
+        { name: 'Not in Program', step: 0, success: false, hidden: false },
+        { name: 'Registered', step: 10, success: false, hidden: false },
+        { name: 'Attended', step: 20, success: true, hidden: false },
+      ],
+      createdAt: '2025-06-01T00:00:00Z',
+      updatedAt: '2025-06-01T00:00:00Z',
+    },
+    {
+      id: 2,
+      name: 'Email Blast',
+      applicableProgramType: 'program',
+      progressionStatuses: [
+        { name: 'Not in Program', step: 0, success: false, hidden: false },
+        { name: 'Member', step: 10, success: false, hidden: false },
+        { name: 'Engaged', step: 20, success: true, hidden: false },
+      ],
+      createdAt: '2025-06-01T00:00:00Z',
+      updatedAt: '2025-06-01T00:00:00Z',
+    },
+    {
+      id: 3,
+      name: 'Content',
+      applicableProgramType: 'program',
+      progressionStatuses: [
+        { name: 'Not in Program', step: 0, success: false, hidden: false },
+        { name: 'Engaged', step: 10, success: true, hidden: false },
+      ],
+      createdAt: '2025-06-01T00:00:00Z',
+      updatedAt: '2025-06-01T00:00:00Z',
+    },
+  ],
+  emails: [
+    {
+      id: 2001,
+      name: 'Spring Newsletter',
+      description: 'March newsletter',
+      subject: { type: 'Text', value: 'What is new this spring' },
+      fromName: { type: 'Text', value: 'Simulated Marketing' },
+      fromEmail: { type: 'Text', value: 'news@example.com' },
+      status: 'approved',
+      url: 'https://app-sim.marketo.com/#EM2001A1',
+      folder: folderRef(1102, 'Newsletters', 'Program'),
+      workspace: 'Default',
+      createdAt: '2026-02-20T08:00:00Z',
+      updatedAt: '2026-02-28T08:00:00Z',
+      content: [
+        {
+          htmlId: 'headline',
+          contentType: 'Text',
+          value: '<h1>Spring is here</h1>',
+          isLocked: false,
+        },
+        {
+          htmlId: 'body',
+          contentType: 'Text',
+          value: '<p>Join our webinar.</p>',
+          isLocked: false,
+        },
+        {
+          htmlId: 'footer',
+          contentType: 'Snippet',
+          value: 'Legal footer',
+          isLocked: true,
+        },
+      ],
+    },
+    {
+      id: 2002,
+      name: 'Webinar Invitation',
+      description: 'Invitation to the spring webinar',
+      subject: { type: 'Text', value: 'You are invited' },
+      fromName: { type: 'Text', value: 'Simulated Events' },
+      fromEmail: { type: 'Text', value: 'events@example.com' },
+      status: 'draft',
+      url: 'https://app-sim.marketo.com/#EM2002A1',
+      folder: folderRef(1101, 'Spring Webinar 2026', 'Program'),
+      workspace: 'Default',
+      createdAt: '2026-02-02T08:00:00Z',
+      updatedAt: '2026-02-04T08:00:00Z',
+      content: [
+        {
+          htmlId: 'body',
+          contentType: 'Text',
+          value: '<p>Save your seat.</p>',
+          isLocked: false,
+        },
+      ],
+    },
+  ],
+  programs: [
+    {
+      id: 1101,
+      name: 'Spring Webinar 2026',
+      description: 'Product webinar',
+      type: 'Event',
+      channel: 'Webinar',
+      status: 'on',
+      url: 'https://app-sim.marketo.com/#ME1101A1',
+      folder: folderRef(12, 'Events'),
+      workspace: 'Default',
+      tags: [{ tagType: 'Region', tagValue: 'EMEA' }],
+      costs: [{ startDate: '2026-03-01', cost: 1500, note: 'Platform fee' }],
+      createdAt: '2026-02-01T08:00:00Z',
+      updatedAt: '2026-02-01T08:00:00Z',
+    },
+    {
+      id: 1102,
+      name: 'Newsletters',
+      description: 'Monthly newsletters',
+      type: 'Default',
+      channel: 'Email Blast',
+      status: 'unlocked',
+      url: 'https://app-sim.marketo.com/#PG1102A1',
+      folder: folderRef(11, 'Marketing Activities'),
+      workspace: 'Default',
+      tags: [{ tagType: 'Region', tagValue: 'Global' }],
+      costs: [],
+      createdAt: '2026-01-10T08:00:00Z',
+      updatedAt: '2026-01-10T08:00:00Z',
+    },
+  ],
+  campaigns: [
+    {
+      id: 7,
+      name: 'Send Newsletter',
+      description: 'Batch send of the monthly newsletter',
+      type: 'batch',
+      isTriggerable: false,
+      isActive: false,
+      programId: 1102,
+      programName: 'Newsletters',
+      workspaceName: 'Default',
+      folder: folderRef(1102, 'Newsletters', 'Program'),
+      createdAt: '2026-01-10T08:00:00Z',
+      updatedAt: '2026-02-28T08:00:00Z',
+    },
+    {
+      id: 8,
+      name: 'Send Webinar Confirmation',
+      description: 'Requested campaign that confirms a registration',
+      type: 'trigger',
+      isTriggerable: true,
+      isActive: true,
+      programId: 1101,
+      programName: 'Spring Webinar 2026',
+      workspaceName: 'Default',
+      folder: folderRef(1101, 'Spring Webinar 2026', 'Program'),
+      createdAt: '2026-02-01T08:00:00Z',
+      updatedAt: '2026-02-01T08:00:00Z',
+    },
+  ],
+  customObjectTypes: [
+    {
+      name: 'car_c',
+      displayName: 'Car',
+      description: 'Cars owned by people',
+      idField: 'marketoGUID',
+      dedupeFields: ['vin'],
+      searchableFields: [['vin'], ['marketoGUID'], ['customerId']],
+      relationships: [
+        { field: 'customerId', type: 'child', relatedTo: { name: 'Lead', field: 'id' } },
+      ],
+      createdAt: '2025-11-01T00:00:00Z',
+      updatedAt: '2025-11-01T00:00:00Z',
+      fields: [
+        { name: 'marketoGUID', displayName: 'Marketo GUID', dataType: 'string', updateable: false },
+        { name: 'vin', displayName: 'VIN', dataType: 'string', length: 17 },
+        { name: 'make', displayName: 'Make', dataType: 'string', length: 255 },
+        { name: 'model', displayName: 'Model', dataType: 'string', length: 255 },
+        { name: 'year', displayName: 'Year', dataType: 'integer' },
+        { name: 'customerId', displayName: 'Customer', dataType: 'integer' },
+        { name: 'createdAt', displayName: 'Created At', dataType: 'datetime', updateable: false },
+        { name: 'updatedAt', displayName: 'Updated At', dataType: 'datetime', updateable: false },
+      ],
+    },
+  ],
+  customObjects: {
+    car_c: [
+      {
+        marketoGUID: 'a1b2c3d4-0000-4000-8000-000000000001',
+        vin: '1HGCM82633A004352',
+        make: 'Honda',
+        model: 'Accord',
+        year: 2023,
+        customerId: 1001,
+        createdAt: '2026-01-15T09:00:00Z',
+        updatedAt: '2026-01-15T09:00:00Z',
+      },
+      {
+        marketoGUID: 'a1b2c3d4-0000-4000-8000-000000000002',
+        vin: '5YJ3E1EA7KF317000',
+        make: 'Tesla',
+        model: 'Model 3',
+        year: 2021,
+        customerId: 1003,
+        createdAt: '2026-02-10T09:00:00Z',
+        updatedAt: '2026-02-10T09:00:00Z',
+      },
+    ],
+  },
+};
+
+/**
+ * Loads simulator fixtures, starting from the built-in seed. A fixtures file is a JSON object
+ * whose keys replace the matching collections of the seed, such as leads or forms; limits are
+ * merged setting by setting.
+ */
+function loadSimulatorFixtures(filePath?: string): SimulatorFixtures {
+  const seed = structuredClone(DEFAULT_SIMULATOR_FIXTURES);
+  if (!filePath) {
+    return seed;
+  }
+
+  let overrides: Partial<SimulatorFixtures>;
+  try {
+    overrides = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read simulator fixtures from ${filePath}: ${reason}`);
+  }
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    throw new Error(`Simulator fixtures in ${filePath} must be a JSON object`);
+  }
+
+  const unknown = Object.keys(overrides).filter((key) => !(key in seed) && key !== 'credentials');
+  if (unknown.length > 0) {
+    throw new Error(`Unknown keys in simulator fixtures ${filePath}: ${unknown.join(', ')}`);
+  }
+  return { ...seed, ...overrides, limits: { ...seed.limits, ...overrides.limits } };
+}
+
+export { DEFAULT_SIMULATOR_FIXTURES, loadSimulatorFixtures };
+export type {
+  SimulatorFixtures,
+  SimulatorLimits,
+  SimulatorFault,
+  SimulatedActivity,
+  SimulatedCampaign,
+  SimulatedChannel,
+  SimulatedCustomObject,
+  SimulatedCustomObjectType,
+  SimulatedEmail,
+  SimulatedEmailSection,
+  SimulatedFolder,
+  SimulatedForm,
+  SimulatedFormItem,
+  SimulatedLead,
+  SimulatedList,
+  SimulatedProgram,
+  SimulatedSmartList,
+};
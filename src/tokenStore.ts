@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+interface StoredToken {
+  accessToken: string;
+  // When Marketo stops accepting the token, in milliseconds since the epoch
+  expiresAt: number;
+}
+
+// Salt for deriving the encryption key from MARKETO_TOKEN_STORE_KEY; every process must use
+// the same one to read the others' tokens
+const KEY_SALT = 'marketo-mcp-token-store';
+
+/**
+ * Access tokens kept on disk so server processes using the same API user share one token
+ * instead of each fetching their own. Each file holds one token, encrypted with AES-256-GCM.
+ */
+class TokenStore {
+  private dir: string;
+  private key: Buffer;
+
+  constructor(dir: string, secret: string) {
+    this.dir = path.resolve(dir);
+    this.key = crypto.scryptSync(secret, KEY_SALT, 32);
+  }
+
+  /**
+   * Returns the stored token for an identity URL and client ID, or undefined when there is none
+   * or it can't be decrypted, as when it was written with another key
+   */
+  async read(id: string): Promise<StoredToken | undefined> {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.fileFor(id), 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    try {
+      const { iv, tag, data } = JSON.parse(text);
+      const decipher = crypto.createDecipheriv('aes-256-gcm', this.key, Buffer.from(iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(tag, 'base64'));
+      const plain = Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]);
+      const token = JSON.parse(plain.toString('utf-8'));
+      return typeof token.accessToken === 'string' && typeof token.expiresAt === 'number'
+        ? token
+        : undefined;
+    } catch {
+      console.error(`Ignoring unreadable stored token ${this.fileFor(id)}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores a token, replacing the file in one step so other processes never read half of it
+   */
+  async write(id: string, token: StoredToken): Promise<void> {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(token), 'utf-8'), cipher.final()]);
+    const text = JSON.stringify({
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    });
+
+    await fs.promises.mkdir(this.dir, { recursive: true, mode: 0o700 });
+    const file = this.fileFor(id);
+    const temp = `${file}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    await fs.promises.writeFile(temp, text, { mode: 0o600 });
+    await fs.promises.rename(temp, file);
+  }
+
+  /**
+   * Deletes the stored token if it is still the given one, so a token Marketo rejected isn't
+   * picked up again while a newer one written by another process is kept
+   */
+  async remove(id: string, accessToken: string): Promise<void> {
+    const stored = await this.read(id);
+    if (stored?.accessToken === accessToken) {
+      await fs.promises.rm(this.fileFor(id), { force: true });
+    }
+  }
+
+  // File names are hashed so they don't reveal the instance or client ID
+  private fileFor(id: string): string {
+    const name = crypto.createHash('sha256').update(id).digest('hex').slice(0, 32);
+    return path.join(this.dir, `${name}.token`);
+  }
+}
+
+export { TokenStore };
+export type { StoredToken };
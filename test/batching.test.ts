@@ -0,0 +1,159 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TestServer, resultText, startServer } from './helpers.js';
+
+// Lead IDs past the 300 Marketo takes per call, so the tools split them into batches
+function leadIds(count: number): number[] {
+  return Array.from({ length: count }, (_, index) => 1001 + index);
+}
+
+describe('batched calls', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer({ MARKETO_REQUIRE_CONFIRMATION: 'false' });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  test('marketo_add_lead_to_list merges 650 IDs sent in three batches', async () => {
+    const result = await server.call('marketo_add_lead_to_list', {
+      listId: 4002,
+      leadIds: leadIds(650),
+    });
+
+    assert.ok(!result.isError, resultText(result));
+    assert.equal(result.structuredContent?.batches, 3);
+    assert.equal((result.structuredContent?.records as unknown[]).length, 650);
+    assert.equal((result.structuredContent?.requestIds as unknown[]).length, 3);
+  });
+
+  test('marketo_check_list_membership merges 301 IDs sent in two batches', async () => {
+    const result = await server.call('marketo_check_list_membership', {
+      listId: 4001,
+      leadIds: leadIds(301),
+    });
+
+    assert.ok(!result.isError, resultText(result));
+    assert.equal(result.structuredContent?.batches, 2);
+  });
+
+  test('marketo_search_leads merges 301 filter values sent in two batches', async () => {
+    const result = await server.call('marketo_search_leads', {
+      filterType: 'id',
+      filterValues: leadIds(301),
+    });
+
+    assert.ok(!result.isError, resultText(result));
+    assert.equal(result.structuredContent?.batches, 2);
+  });
+});
+
+describe('batched writes that fail part way', () => {
+  let server: TestServer;
+
+  before(async () => {
+    // The daily quota runs out after the first batch
+    server = await startServer(
+      { MARKETO_REQUIRE_CONFIRMATION: 'false' },
+      { limits: { dailyQuota: 1 } }
+    );
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  test('marketo_add_lead_to_list reports the batches applied and the leads not sent', async () => {
+    const result = await server.call('marketo_add_lead_to_list', {
+      listId: 4002,
+      leadIds: leadIds(650),
+    });
+
+    assert.ok(!result.isError, resultText(result));
+    assert.equal(result.structuredContent?.failedBatch, 2);
+    assert.equal((result.structuredContent?.records as unknown[]).length, 300);
+    assert.equal((result.structuredContent?.unprocessedInput as unknown[]).length, 350);
+    assert.match(resultText(result), /Batch 2 failed/);
+  });
+});
+
+describe('batched custom object writes that fail part way', () => {
+  let server: TestServer;
+
+  before(async () => {
+    // The daily quota covers the type description and the first batch
+    server = await startServer(
+      { MARKETO_REQUIRE_CONFIRMATION: 'false' },
+      { limits: { dailyQuota: 2 } }
+    );
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  test('marketo_upsert_custom_objects reports the batches applied and the records not sent', async () => {
+    const input = Array.from({ length: 301 }, (_, index) => ({
+      vin: String(index).padStart(17, '0'),
+      make: 'Volvo',
+    }));
+    const result = await server.call('marketo_upsert_custom_objects', { apiName: 'car_c', input });
+
+    assert.ok(!result.isError, resultText(result));
+    assert.equal(result.structuredContent?.failedBatch, 2);
+    assert.equal((result.structuredContent?.records as unknown[]).length, 300);
+    assert.deepEqual(result.structuredContent?.unprocessedInput, [input[300]]);
+  });
+});
+
+describe('batched searches', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  test('marketo_search_leads shares maxRecords across batches and reports truncation', async () => {
+    // Leads 1001 to 1003 fall in the first batch and 1004 to 1006 in the second
+    const filterValues = [
+      1001,
+      1002,
+      1003,
+      ...leadIds(297).map((id) => id + 1000),
+      1004,
+      1005,
+      1006,
+    ];
+    const result = await server.call('marketo_search_leads', {
+      filterType: 'id',
+      filterValues,
+      fetchAll: true,
+      maxRecords: 4,
+    });
+
+    assert.ok(!result.isError, resultText(result));
+    assert.equal((result.structuredContent?.records as unknown[]).length, 4);
+    assert.equal(result.structuredContent?.truncated, true);
+  });
+
+  test('marketo_find_duplicate_leads reports a search cut short in a later batch', async () => {
+    const filterValues = [1001, ...leadIds(299).map((id) => id + 1000), 1002, 1003];
+    const result = await server.call('marketo_find_duplicate_leads', {
+      filterType: 'id',
+      filterValues,
+      maxRecords: 2,
+    });
+
+    assert.ok(!result.isError, resultText(result));
+    const summary = result.structuredContent?.data as { leadsChecked: number; truncated: boolean };
+    assert.equal(summary.leadsChecked, 2);
+    assert.equal(summary.truncated, true);
+  });
+});
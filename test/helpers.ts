@@ -0,0 +1,85 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+// The compiled server; npm test builds it before running the tests
+const SERVER_PATH = fileURLToPath(new URL('../build/index.js', import.meta.url));
+
+interface TestServer {
+  client: Client;
+  // Scratch directory holding the server's audit log, exports and imports
+  dir: string;
+  exportDir: string;
+  importDir: string;
+  call(name: string, args?: Record<string, unknown>): Promise<CallToolResult>;
+  close(): Promise<void>;
+}
+
+/**
+ * Starts the server in simulator mode over stdio and connects an MCP client to it. Like real
+ * clients, it lists the tools first and then checks every result against its output schema.
+ * Fixtures given are merged over the simulator's built-in ones.
+ */
+async function startServer(
+  env: Record<string, string> = {},
+  fixtures?: Record<string, unknown>
+): Promise<TestServer> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'marketo-mcp-test-'));
+  const exportDir = path.join(dir, 'exports');
+  const importDir = path.join(dir, 'imports');
+  fs.mkdirSync(importDir);
+  if (fixtures) {
+    fs.writeFileSync(path.join(dir, 'fixtures.json'), JSON.stringify(fixtures));
+  }
+
+  // Settings from the developer's shell must not point the tests at a real instance
+  const inherited = Object.entries(process.env).filter(
+    (entry): entry is [string, string] => entry[1] !== undefined && !entry[0].startsWith('MARKETO_')
+  );
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [SERVER_PATH],
+    cwd: dir,
+    env: {
+      ...Object.fromEntries(inherited),
+      MARKETO_SIMULATOR: 'true',
+      MARKETO_AUDIT_LOG: path.join(dir, 'audit.jsonl'),
+      MARKETO_EXPORT_DIR: exportDir,
+      MARKETO_IMPORT_DIR: importDir,
+      ...(fixtures ? { MARKETO_SIMULATOR_FIXTURES: path.join(dir, 'fixtures.json') } : {}),
+      ...env,
+    },
+    stderr: 'ignore',
+  });
+  const client = new Client({ name: 'marketo-mcp-test', version: '1.0.0' });
+  await client.connect(transport);
+  // The client only checks results against output schemas it has seen listed
+  await client.listTools();
+
+  return {
+    client,
+    dir,
+    exportDir,
+    importDir,
+    call: async (name, args = {}) =>
+      (await client.callTool({ name, arguments: args })) as CallToolResult,
+    close: async () => {
+      await client.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Returns the text of a tool result, for assertion messages
+ */
+function resultText(result: CallToolResult): string {
+  return result.content.map((item) => (item.type === 'text' ? item.text : '')).join('\n');
+}
+
+export { startServer, resultText };
+export type { TestServer };
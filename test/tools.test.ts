@@ -0,0 +1,413 @@
+import fs from 'fs';
+import path from 'path';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { TestServer, resultText, startServer } from './helpers.js';
+
+// Every tool the server lists, and the ones the tests below have run
+let listed: string[] = [];
+const called = new Set<string>();
+
+let server: TestServer;
+
+/**
+ * Runs a tool and checks that it succeeded. Tools that ask for confirmation are called again
+ * with the token they hand back, the way an agent would after showing the preview.
+ */
+async function run(
+  name: string,
+  args: Record<string, unknown> = {},
+  target: TestServer = server
+): Promise<CallToolResult> {
+  called.add(name);
+  let result = await target.call(name, args);
+  const token = data(result)?.confirmationToken;
+  if (typeof token === 'string') {
+    result = await target.call(name, { ...args, confirmationToken: token });
+  }
+  assert.ok(!result.isError, `${name}: ${resultText(result)}`);
+  return result;
+}
+
+type Fields = Record<string, unknown>;
+
+// The data field tools use for results that aren't record lists
+function data(result: CallToolResult): Fields | undefined {
+  return result.structuredContent?.data as Fields | undefined;
+}
+
+function records(result: CallToolResult): Fields[] {
+  return (result.structuredContent?.records ?? []) as Fields[];
+}
+
+before(async () => {
+  server = await startServer();
+  listed = (await server.client.listTools()).tools.map((tool) => tool.name);
+});
+
+after(async () => {
+  await server.close();
+});
+
+describe('folders', () => {
+  test('lists, finds and resolves folders', async () => {
+    assert.ok(records(await run('marketo_get_folders')).length > 0);
+    assert.equal(records(await run('marketo_get_folder_by_name', { name: 'Events' }))[0]?.id, 12);
+    const resolved = data(
+      await run('marketo_resolve_folder_path', { folderPath: 'Marketing Activities/Events' })
+    );
+    assert.equal(resolved?.id, 12);
+  });
+
+  test('creates a folder that can be resolved by path right away', async () => {
+    await run('marketo_create_folder', { name: 'Test Folder', folderId: 11 });
+    const resolved = data(
+      await run('marketo_resolve_folder_path', { folderPath: 'Marketing Activities/Test Folder' })
+    );
+    assert.equal(resolved?.name, 'Test Folder');
+  });
+});
+
+describe('forms', () => {
+  test('reads forms and their fields', async () => {
+    assert.ok(records(await run('marketo_get_forms')).length > 0);
+    assert.equal(records(await run('marketo_get_form_by_id', { formId: 3001 }))[0]?.id, 3001);
+    const fields = records(await run('marketo_get_form_fields', { formId: 3001 }));
+    assert.deepEqual(
+      fields.map((field) => field.id),
+      ['Email', 'FirstName', 'LastName']
+    );
+  });
+
+  test('edits a draft form and approves it', async () => {
+    await run('marketo_add_form_field', { formId: 3002, fieldId: 'Company' });
+    await run('marketo_update_form_field', { formId: 3002, fieldId: 'Company', label: 'Company' });
+    await run('marketo_add_form_rich_text', { formId: 3002, text: '<p>Tell us more</p>' });
+    await run('marketo_add_form_fieldset', { formId: 3002, label: 'About you' });
+    await run('marketo_update_form_submit_button', { formId: 3002, label: 'Send' });
+    await run('marketo_update_form_thank_you', {
+      formId: 3002,
+      thankYouList: [{ followupType: 'url', followupValue: 'https://example.com', default: true }],
+    });
+    await run('marketo_approve_form', { formId: 3002 });
+  });
+
+  test('clones a form', async () => {
+    await run('marketo_clone_form', { formId: 3001, name: 'Contact Us Copy', folderId: 22 });
+  });
+
+  test('exports a form and imports the file from the import directory', async () => {
+    await run('marketo_export_form', { formId: 3001, outputPath: 'contact-us.json' });
+    fs.mkdirSync(path.join(server.importDir, 'forms'));
+    fs.copyFileSync(
+      path.join(server.exportDir, 'contact-us.json'),
+      path.join(server.importDir, 'forms', 'contact-us.json')
+    );
+    await run('marketo_import_form', {
+      filePath: 'forms/contact-us.json',
+      name: 'Contact Us Imported',
+      folderId: 22,
+    });
+  });
+
+  test('refuses to import a form from outside the import directory', async () => {
+    const result = await server.call('marketo_import_form', {
+      filePath: path.join(server.dir, 'audit.jsonl'),
+      folderId: 22,
+    });
+    assert.ok(result.isError);
+  });
+});
+
+describe('smart lists', () => {
+  test('lists and reads smart lists', async () => {
+    assert.ok(records(await run('marketo_get_smart_lists')).length > 0);
+    assert.equal(
+      records(await run('marketo_get_smart_list_by_id', { smartListId: 5001 }))[0]?.id,
+      5001
+    );
+  });
+
+  test('cuts smart lists down to a small budget and points to offset paging', async () => {
+    const text = resultText(await run('marketo_get_smart_lists', { maxChars: 100 }));
+    assert.match(text, /Showing the first [1-9]\d* of/);
+    assert.match(text, /next record is at this call's offset plus/);
+  });
+});
+
+describe('channels', () => {
+  test('creates, reads, updates and deletes a channel', async () => {
+    assert.ok(records(await run('marketo_get_channels')).length > 0);
+    assert.equal(records(await run('marketo_get_channel_by_id', { channelId: 1 }))[0]?.id, 1);
+    const created = records(
+      await run('marketo_create_channel', { name: 'Podcast', type: 'Content' })
+    );
+    const channelId = created[0]?.id;
+    assert.equal(typeof channelId, 'number');
+    await run('marketo_update_channel', { channelId, description: 'Audio content' });
+    await run('marketo_delete_channel', { channelId });
+  });
+});
+
+describe('emails', () => {
+  test('reads emails and their content', async () => {
+    assert.ok(records(await run('marketo_get_emails')).length > 0);
+    assert.equal(records(await run('marketo_get_email_by_id', { emailId: 2001 }))[0]?.id, 2001);
+    const sections = records(await run('marketo_get_email_content', { emailId: 2001 }));
+    assert.ok(sections.some((section) => section.htmlId === 'headline'));
+  });
+
+  test('edits, approves, samples and unapproves an email', async () => {
+    await run('marketo_update_email_content_section', {
+      emailId: 2002,
+      htmlId: 'body',
+      value: '<p>Updated body</p>',
+    });
+    await run('marketo_approve_email', { emailId: 2002 });
+    await run('marketo_send_email_sample', { emailId: 2002, emailAddress: 'qa@example.com' });
+    await run('marketo_unapprove_email', { emailId: 2002 });
+  });
+});
+
+describe('programs', () => {
+  test('finds programs by ID, name and tag', async () => {
+    assert.ok(records(await run('marketo_get_programs')).length > 0);
+    assert.equal(records(await run('marketo_get_program_by_id', { programId: 1101 }))[0]?.id, 1101);
+    const name = records(await run('marketo_get_program_by_id', { programId: 1101 }))[0]?.name;
+    assert.equal(records(await run('marketo_get_program_by_name', { name }))[0]?.id, 1101);
+    const tagged = records(
+      await run('marketo_get_programs_by_tag', { tagType: 'Region', tagValue: 'EMEA' })
+    );
+    assert.deepEqual(
+      tagged.map((program) => program.id),
+      [1101]
+    );
+  });
+
+  test('clones a program', async () => {
+    await run('marketo_clone_program', { programId: 1101, name: 'Event Copy', folderId: 12 });
+  });
+});
+
+describe('campaigns', () => {
+  test('lists, triggers and schedules campaigns', async () => {
+    assert.ok(records(await run('marketo_get_smart_campaigns')).length > 0);
+    await run('marketo_trigger_campaign', { campaignId: 8, leadIds: [1001] });
+    await run('marketo_schedule_campaign', { campaignId: 7 });
+  });
+
+  test('logs My Token values as they were sent', async () => {
+    const tokens = [{ name: '{{my.Offer}}', value: 'Free trial' }];
+    await run('marketo_trigger_campaign', { campaignId: 8, leadIds: [1002], tokens });
+    const entries = data(
+      await run('marketo_get_audit_log', { tool: 'marketo_trigger_campaign', limit: 1 })
+    )?.entries as { arguments: Fields }[];
+    assert.deepEqual(entries[0]?.arguments.tokens, tokens);
+  });
+});
+
+describe('leads', () => {
+  test('reads leads by ID, email and filter', async () => {
+    assert.equal(records(await run('marketo_get_lead_by_id', { leadId: 1001 }))[0]?.id, 1001);
+    assert.equal(
+      records(await run('marketo_get_lead_by_email', { email: 'alan.turing@example.net' }))[0]?.id,
+      1005
+    );
+    const found = records(
+      await run('marketo_search_leads', { filterType: 'id', filterValues: [1001, 1002] })
+    );
+    assert.equal(found.length, 2);
+    await run('marketo_describe_leads');
+  });
+
+  test('finds duplicate leads by email', async () => {
+    await run('marketo_find_duplicate_leads', { filterType: 'id', filterValues: [1001, 1002] });
+  });
+
+  test('refuses an empty string for an integer field', async () => {
+    const result = await server.call('marketo_create_or_update_lead', {
+      input: [{ email: 'dorothy.vaughan@example.com', customFields: { leadScore: '' } }],
+    });
+    assert.ok(result.isError, resultText(result));
+    assert.match(resultText(result), /leadScore/);
+  });
+
+  test('creates, merges and deletes leads', async () => {
+    const created = records(
+      await run('marketo_create_or_update_lead', {
+        input: [{ email: 'mary.jackson@example.com', firstName: 'Mary' }],
+      })
+    );
+    const leadId = created[0]?.id;
+    assert.equal(typeof leadId, 'number');
+    await run('marketo_merge_leads', { leadIds: [1001, 1002] });
+    await run('marketo_delete_lead', { leadId });
+  });
+});
+
+describe('activities', () => {
+  test('reads activity types, activities and changes', async () => {
+    assert.ok((data(await run('marketo_get_activity_types'))?.types as Fields[]).length > 0);
+    await run('marketo_get_lead_activities', { leadId: 1003 });
+    await run('marketo_get_lead_changes', { leadId: 1003 });
+  });
+
+  test('cuts activities down to a small budget and points to token paging', async () => {
+    const text = resultText(
+      await run('marketo_get_lead_activities', { leadId: 1003, maxChars: 100 })
+    );
+    assert.match(text, /Showing the first [1-9]\d* of/);
+    assert.match(text, /batchSize; nextPageToken/);
+  });
+});
+
+describe('lists', () => {
+  test('reads lists and their members', async () => {
+    assert.ok(records(await run('marketo_get_lists')).length > 0);
+    assert.equal(records(await run('marketo_get_list_by_id', { listId: 4001 }))[0]?.id, 4001);
+    const name = records(await run('marketo_get_list_by_id', { listId: 4001 }))[0]?.name;
+    assert.equal(records(await run('marketo_get_list_by_name', { name }))[0]?.id, 4001);
+    assert.deepEqual(
+      records(await run('marketo_get_list_leads', { listId: 4001 })).map((lead) => lead.id),
+      [1001, 1003, 1005]
+    );
+    const membership = records(
+      await run('marketo_check_list_membership', { listId: 4001, leadIds: [1003, 1004] })
+    );
+    assert.equal(membership.length, 2);
+    assert.ok(
+      records(await run('marketo_get_lead_lists', { leadId: 1003 })).some(
+        (list) => list.id === 4001
+      )
+    );
+  });
+
+  test('creates a list, changes its members and deletes it', async () => {
+    const created = records(await run('marketo_create_list', { name: 'Test List', folderId: 11 }));
+    const listId = created[0]?.id;
+    assert.equal(typeof listId, 'number');
+    await run('marketo_add_lead_to_list', { listId, leadIds: [1003, 1004] });
+    await run('marketo_remove_lead_from_list', { listId, leadIds: [1004] });
+    assert.deepEqual(
+      records(await run('marketo_get_list_leads', { listId })).map((lead) => lead.id),
+      [1003]
+    );
+    await run('marketo_delete_list', { listId });
+  });
+});
+
+describe('custom objects', () => {
+  test('describes and reads custom objects', async () => {
+    assert.ok(records(await run('marketo_get_custom_object_types')).length > 0);
+    await run('marketo_describe_custom_object', { apiName: 'car_c' });
+    const cars = records(
+      await run('marketo_get_custom_objects', {
+        apiName: 'car_c',
+        filterType: 'vin',
+        filterValues: ['1HGCM82633A004352'],
+        fields: ['vin', 'make'],
+      })
+    );
+    assert.equal(cars[0]?.make, 'Honda');
+  });
+
+  test('upserts and deletes custom objects', async () => {
+    await run('marketo_upsert_custom_objects', {
+      apiName: 'car_c',
+      input: [{ vin: 'WBA3A5C51CF256651', make: 'BMW' }],
+    });
+    await run('marketo_delete_custom_objects', {
+      apiName: 'car_c',
+      keys: [{ vin: 'WBA3A5C51CF256651' }],
+    });
+  });
+});
+
+describe('bulk export', () => {
+  const createdAt = { startAt: '2020-01-01T00:00:00Z', endAt: '2020-01-31T00:00:00Z' };
+
+  test('exports leads and downloads the file again', async () => {
+    const exported = data(
+      await run('marketo_bulk_export_leads', { fields: ['id', 'email'], staticListId: 4001 })
+    );
+    assert.equal(exported?.status, 'Completed');
+    const exportId = exported?.exportId;
+    await run('marketo_get_bulk_export_status', { exportType: 'leads', exportId });
+    const downloaded = data(
+      await run('marketo_download_bulk_export', { exportType: 'leads', exportId })
+    );
+    assert.ok(fs.existsSync(downloaded?.filePath as string));
+  });
+
+  test('exports activities and reports the quota', async () => {
+    await run('marketo_bulk_export_activities', { createdAt });
+    await run('marketo_get_bulk_export_quota');
+  });
+});
+
+describe('bulk export cancellation', () => {
+  // Jobs that take an hour, so one is still queued when the test cancels it
+  let slow: TestServer;
+
+  before(async () => {
+    slow = await startServer({}, { limits: { bulkJobSeconds: 3600 } });
+  });
+
+  after(async () => {
+    await slow.close();
+  });
+
+  test('cancels a queued export', async () => {
+    const queued = data(
+      await run(
+        'marketo_bulk_export_leads',
+        { fields: ['id'], staticListId: 4001, timeoutSeconds: 0 },
+        slow
+      )
+    );
+    const exportId = (queued?.job as Fields).exportId;
+    assert.notEqual((queued?.job as Fields).status, 'Completed');
+    await run('marketo_cancel_bulk_export', { exportType: 'leads', exportId }, slow);
+    const status = data(
+      await run('marketo_get_bulk_export_status', { exportType: 'leads', exportId }, slow)
+    );
+    assert.equal((status?.job as Fields).status, 'Cancelled');
+  });
+});
+
+describe('bulk import', () => {
+  test('imports leads from the import directory', async () => {
+    fs.writeFileSync(
+      path.join(server.importDir, 'leads.csv'),
+      'email,firstName\nmargaret.hamilton@example.com,Margaret\n'
+    );
+    const imported = data(await run('marketo_bulk_import_leads', { filePath: 'leads.csv' }));
+    const batchId = (imported?.batch as Fields).batchId;
+    assert.equal(typeof batchId, 'number');
+    await run('marketo_get_bulk_import_status', { batchId });
+  });
+
+  test('refuses to import leads from outside the import directory', async () => {
+    const result = await server.call('marketo_bulk_import_leads', { filePath: '../audit.jsonl' });
+    assert.ok(result.isError);
+  });
+});
+
+describe('server', () => {
+  test('reports instances, cache statistics and the audit log', async () => {
+    assert.equal(
+      (data(await run('marketo_list_instances'))?.instances as Fields[])[0]?.name,
+      'default'
+    );
+    await run('marketo_cache_stats');
+    await run('marketo_get_audit_log', { tool: 'marketo_delete_list' });
+  });
+});
+
+test('every registered tool was run', () => {
+  assert.deepEqual(
+    listed.filter((name) => !called.has(name)),
+    []
+  );
+});